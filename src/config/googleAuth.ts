@@ -3,6 +3,11 @@ import { Strategy as GoogleStrategy, Profile } from "passport-google-oauth20";
 import dotenv from "dotenv";
 import User from "../models/User";
 import bcrypt from "bcryptjs";
+import { findPendingInvitation, completeInvitation } from "../utils/invitations";
+import { emitCompanyMemberAdded } from "../utils/webhooks";
+import { matchesGoogleLinkRequest } from "../utils/authTokens";
+import { applyDomainJoin } from "../utils/companyDomains";
+import { recordAudit } from "../utils/auditLog";
 
 dotenv.config();
 
@@ -12,30 +17,116 @@ passport.use(
       clientID: process.env.GOOGLE_CLIENT_ID as string,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET as string,
       callbackURL: process.env.GOOGLE_CALLBACK_URL as string,
+      passReqToCallback: true,
     },
-    async (_accessToken, _refreshToken, profile: Profile, done) => {
+    async (req, _accessToken, _refreshToken, profile: Profile, done) => {
       try {
-        // Check if user already exists
-        const existingUser = await User.findOne({ email: profile.emails?.[0].value });
+        const email = profile.emails?.[0].value;
 
+        // Accepting a company invitation with Google (token stashed in session by /google)
+        const invitationToken = (req.session as any)?.invitationToken;
+        if (invitationToken) {
+          delete (req.session as any).invitationToken;
+
+          const invitation = await findPendingInvitation(invitationToken);
+          if (!invitation || invitation.email !== email?.toLowerCase()) {
+            return done(null, false, { message: "Invitation not found, expired or issued to another email" });
+          }
+
+          let invitee = await User.findOne({ email: invitation.email });
+          if (invitee?.company) {
+            return done(null, false, { message: "This account already belongs to a company" });
+          }
+          // Admin roles are granted per company and cannot be carried into another one
+          if (invitee && !["employee", "member"].includes(invitee.role)) {
+            return done(null, false, { message: "This account cannot accept company invitations" });
+          }
+          // Existing accounts keep their role and only join the company; new ones get the invited role
+          if (!invitee) {
+            invitee = new User({
+              name: profile.displayName,
+              email: invitation.email,
+              password: await bcrypt.hash(Math.random().toString(36), 10), // dummy password
+              avatar: profile.photos?.[0].value,
+              role: invitation.role,
+            });
+          }
+          invitee.company = String(invitation.company);
+          invitee.googleId = profile.id;
+
+          if (!(await completeInvitation(invitation, invitee._id, "google", req))) {
+            return done(null, false, { message: "Invitation not found or expired" });
+          }
+          await invitee.save();
+          await emitCompanyMemberAdded(invitation.company, invitee, "invitation");
+          return done(null, invitee);
+        }
+
+        const googleId = profile.id;
+
+        // Explicit link from an authenticated account: only link flows send a state, which must be
+        // the one-time nonce stored in this session by POST /api/users/me/google/link
+        const linkState = req.query?.state;
+        if (linkState) {
+          const linkRequest = (req.session as any)?.googleLink;
+          delete (req.session as any).googleLink;
+
+          const target = matchesGoogleLinkRequest(linkRequest, linkState) ? await User.findById(linkRequest.userId) : null;
+          if (!target) {
+            return done(null, false, { message: "Link request expired, please try again" });
+          }
+          const owner = await User.findOne({ googleId }).select("_id");
+          if (owner && String(owner._id) !== String(target._id)) {
+            return done(null, false, { message: "This Google account is linked to another user" });
+          }
+
+          target.googleId = googleId;
+          await target.save();
+          await recordAudit({ actorId: target._id, entityType: "user", entityId: target._id, action: "link_google", changes: { via: "explicit" }, req });
+          return done(null, target, { linked: true });
+        }
+
+        // Returning Google user
+        const linkedUser = await User.findOne({ googleId });
+        if (linkedUser) {
+          return done(null, linkedUser);
+        }
+
+        // Existing password account: only link automatically when Google vouches for the email
+        const existingUser = await User.findOne({ email });
         if (existingUser) {
+          if (existingUser.googleId) {
+            return done(null, false, { message: "This account is linked to a different Google account" });
+          }
+          if ((profile as any)._json?.email_verified !== true) {
+            return done(null, false, { message: "Sign in with your password and link Google from your profile" });
+          }
+
+          existingUser.googleId = googleId;
+          await existingUser.save();
+          await recordAudit({ actorId: existingUser._id, entityType: "user", entityId: existingUser._id, action: "link_google", changes: { via: "verified_email" }, req });
+          await applyDomainJoin(existingUser, "google", req);
           return done(null, existingUser);
         }
 
         // Create a new user if not exists
         const newUser = new User({
           name: profile.displayName,
-          email: profile.emails?.[0].value,
+          email,
           password: await bcrypt.hash(Math.random().toString(36), 10), // dummy password
           role: "employee", // default role
           avatar: profile.photos?.[0].value,
-          googleId: profile.id,
+          googleId,
         });
 
         await newUser.save();
+        // Company-less sign-ups with a verified company domain join it (or queue for approval)
+        if ((profile as any)._json?.email_verified === true) {
+          await applyDomainJoin(newUser, "google", req);
+        }
         return done(null, newUser);
       } catch (error) {
-        return done(error, undefined);
+        return done(error as Error, undefined);
       }
     }
   )
@@ -0,0 +1,337 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import ApiToken from "../models/ApiToken";
+import Role from "../models/Role";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { recordAudit } from "../utils/auditLog";
+import { generateApiToken, tokenExpiry, serializeApiToken } from "../utils/apiTokens";
+
+/**
+ * API Token Controller
+ * Personal access tokens and company-owned service accounts for automation
+ */
+
+// Tokens must be managed from a signed-in session, never with another token
+const rejectTokenAuth = (req: Request, res: Response): boolean => {
+  const { user } = req as AuthRequest;
+  if (user?.apiTokenId) {
+    res.status(403).json({ message: "API tokens cannot be used to manage API tokens" });
+    return true;
+  }
+  return false;
+};
+
+const serializeServiceAccount = (account: any, tokens: any[] = []) => ({
+  id: String(account._id),
+  name: account.name,
+  role: account.role,
+  customRole: account.customRole ? String(account.customRole) : null,
+  status: account.status ?? "active",
+  createdAt: account.createdAt,
+  tokens: tokens.map(serializeApiToken)
+});
+
+const createToken = async (req: Request, params: { kind: "personal" | "service"; userId: any; company?: any }) => {
+  const { user } = req as AuthRequest;
+  const { name, scopes, expiresInDays } = req.body;
+
+  const generated = generateApiToken();
+  const token = await ApiToken.create({
+    name,
+    kind: params.kind,
+    tokenHash: generated.hash,
+    prefix: generated.prefix,
+    user: params.userId,
+    company: params.company,
+    scopes: [...new Set(scopes)],
+    createdBy: user?._id,
+    expiresAt: tokenExpiry(expiresInDays)
+  });
+
+  await recordAudit({
+    actorId: user?._id,
+    entityType: "api_token",
+    entityId: token._id,
+    action: "create_api_token",
+    changes: { name, kind: params.kind, user: String(params.userId), scopes: token.scopes },
+    req
+  });
+
+  return { raw: generated.raw, token };
+};
+
+const revokeToken = async (req: Request, filter: Record<string, any>) => {
+  const { user } = req as AuthRequest;
+  const token = await ApiToken.findOneAndUpdate(
+    { ...filter, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedBy: user?._id } },
+    { new: true }
+  );
+  if (token) {
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "api_token",
+      entityId: token._id,
+      action: "revoke_api_token",
+      changes: { name: token.name, kind: token.kind },
+      req
+    });
+  }
+  return token;
+};
+
+/**
+ * List the current user's personal access tokens
+ * @route GET /api/users/me/tokens
+ * @access Private
+ */
+export const listMyTokens = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+
+    const tokens = await ApiToken.find({ user: user?._id, kind: "personal", revokedAt: { $exists: false } }).sort({ createdAt: -1 });
+
+    res.json({ tokens: tokens.map(serializeApiToken) });
+  } catch (error) {
+    console.error("Error listing API tokens:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Create a personal access token (the raw value is only returned here)
+ * @route POST /api/users/me/tokens
+ * @access Private
+ */
+export const createMyToken = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+
+    const { raw, token } = await createToken(req, { kind: "personal", userId: user?._id, company: user?.company });
+
+    res.status(201).json({
+      message: "Token created. Copy it now, it will not be shown again.",
+      token: raw,
+      apiToken: serializeApiToken(token)
+    });
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Revoke one of the current user's personal access tokens
+ * @route DELETE /api/users/me/tokens/:tokenId
+ * @access Private
+ */
+export const revokeMyToken = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+    const { tokenId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(tokenId)) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+
+    const token = await revokeToken(req, { _id: tokenId, user: user?._id, kind: "personal" });
+    if (!token) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+
+    res.json({ message: "Token revoked successfully" });
+  } catch (error) {
+    console.error("Error revoking API token:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * List the company's service accounts and their active tokens
+ * @route GET /api/company/service-accounts
+ * @access Private - company:manage_users
+ */
+export const listServiceAccounts = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+
+    const accounts = await User.find({ company: user.company, accountType: "service", status: { $ne: "inactive" } }).sort({ createdAt: -1 });
+    const tokens = await ApiToken.find({
+      user: { $in: accounts.map((a) => a._id) },
+      kind: "service",
+      revokedAt: { $exists: false }
+    });
+
+    res.json({
+      serviceAccounts: accounts.map((account) =>
+        serializeServiceAccount(account, tokens.filter((t) => String(t.user) === String(account._id)))
+      )
+    });
+  } catch (error) {
+    console.error("Error listing service accounts:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Create a service account. Its company permissions come from the built-in employee role
+ * or the given custom role; token scopes further limit what it can reach.
+ * @route POST /api/company/service-accounts
+ * @access Private - company:manage_users
+ */
+export const createServiceAccount = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+    const { name, customRoleId } = req.body;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+
+    let customRole;
+    if (customRoleId) {
+      customRole = mongoose.Types.ObjectId.isValid(customRoleId)
+        ? await Role.findOne({ _id: customRoleId, company: user.company }).select("_id")
+        : null;
+      if (!customRole) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+    }
+
+    const account = await User.create({
+      name,
+      email: `svc-${crypto.randomBytes(8).toString("hex")}@service.local`,
+      password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10), // never used
+      role: "employee",
+      accountType: "service",
+      company: user.company,
+      customRole: customRole?._id
+    });
+
+    await recordAudit({
+      actorId: user._id,
+      entityType: "user",
+      entityId: account._id,
+      action: "create_service_account",
+      changes: { name, customRole: customRoleId ?? null },
+      req
+    });
+
+    res.status(201).json({
+      message: "Service account created successfully",
+      serviceAccount: serializeServiceAccount(account)
+    });
+  } catch (error) {
+    console.error("Error creating service account:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+const findServiceAccount = (req: Request) => {
+  const { user } = req as AuthRequest;
+  const { accountId } = req.params;
+  if (!user?.company || !mongoose.Types.ObjectId.isValid(accountId)) return null;
+  return User.findOne({ _id: accountId, company: user.company, accountType: "service", status: { $ne: "inactive" } });
+};
+
+/**
+ * Deactivate a service account and revoke all of its tokens
+ * @route DELETE /api/company/service-accounts/:accountId
+ * @access Private - company:manage_users
+ */
+export const deleteServiceAccount = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { user } = req as AuthRequest;
+
+    const account = await findServiceAccount(req);
+    if (!account) {
+      return res.status(404).json({ message: "Service account not found" });
+    }
+
+    account.status = "inactive";
+    await account.save();
+    await ApiToken.updateMany(
+      { user: account._id, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedBy: user?._id } }
+    );
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "user",
+      entityId: account._id,
+      action: "delete_service_account",
+      changes: { name: account.name },
+      req
+    });
+
+    res.json({ message: "Service account deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting service account:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Issue a token for a service account (the raw value is only returned here)
+ * @route POST /api/company/service-accounts/:accountId/tokens
+ * @access Private - company:manage_users
+ */
+export const createServiceAccountToken = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+
+    const account = await findServiceAccount(req);
+    if (!account) {
+      return res.status(404).json({ message: "Service account not found" });
+    }
+
+    const { raw, token } = await createToken(req, { kind: "service", userId: account._id, company: account.company });
+
+    res.status(201).json({
+      message: "Token created. Copy it now, it will not be shown again.",
+      token: raw,
+      apiToken: serializeApiToken(token)
+    });
+  } catch (error) {
+    console.error("Error creating service account token:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Revoke a service account token
+ * @route DELETE /api/company/service-accounts/:accountId/tokens/:tokenId
+ * @access Private - company:manage_users
+ */
+export const revokeServiceAccountToken = async (req: Request, res: Response) => {
+  try {
+    if (rejectTokenAuth(req, res)) return;
+    const { tokenId } = req.params;
+
+    const account = await findServiceAccount(req);
+    if (!account || !mongoose.Types.ObjectId.isValid(tokenId)) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+
+    const token = await revokeToken(req, { _id: tokenId, user: account._id, kind: "service" });
+    if (!token) {
+      return res.status(404).json({ message: "Token not found" });
+    }
+
+    res.json({ message: "Token revoked successfully" });
+  } catch (error) {
+    console.error("Error revoking service account token:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
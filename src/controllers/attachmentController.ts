@@ -0,0 +1,171 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { ATTACHMENT_TYPES } from "../middleware/upload";
+import { getFileStorage, removeStoredFiles } from "../utils/fileStorage";
+import { canWorkOnTask, findCompanyTask, broadcastToTask } from "../utils/taskAccess";
+
+/**
+ * Attachment Controller
+ * Files attached to tasks, stored through utils/fileStorage (Cloudinary or local disk)
+ */
+
+export const MAX_ATTACHMENTS_PER_TASK = 50;
+
+// Storage details stay server-side
+const serializeAttachment = (attachment: any) => ({
+  id: String(attachment._id),
+  filename: attachment.filename,
+  mimetype: attachment.mimetype,
+  size: attachment.size,
+  url: attachment.url,
+  uploadedBy: attachment.uploadedBy?.email
+    ? { id: String(attachment.uploadedBy._id), name: attachment.uploadedBy.name, email: attachment.uploadedBy.email }
+    : { id: String(attachment.uploadedBy) },
+  uploadedAt: attachment.uploadedAt
+});
+
+/**
+ * List the files attached to a task
+ * @route GET /api/tasks/:id/attachments
+ * @access Private - Company Admin/Employee
+ */
+export const getTaskAttachments = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    await task.populate("attachments.uploadedBy", "name email");
+
+    res.json({ attachments: task.attachments.map(serializeAttachment) });
+  } catch (error) {
+    console.error("Error fetching task attachments:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Attach a file (multipart field "file", up to 25MB)
+ * @route POST /api/tasks/:id/attachments
+ * @access Private - task:update, task creator or assignee
+ */
+export const uploadTaskAttachment = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+    const file = (req as any).file as Express.Multer.File | undefined;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    if (!file?.buffer) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to attach files to this task" });
+    }
+
+    if (task.attachments.length >= MAX_ATTACHMENTS_PER_TASK) {
+      return res.status(400).json({ message: `A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments` });
+    }
+
+    const stored = await getFileStorage().save({
+      buffer: file.buffer,
+      mimetype: file.mimetype,
+      extension: ATTACHMENT_TYPES[file.mimetype],
+      folder: `remoteoffice/companies/${user.company}/tasks/${task._id}`
+    });
+
+    const attachmentId = new mongoose.Types.ObjectId();
+    // Re-checks the limit so concurrent uploads cannot overshoot it
+    const updated = await Task.findOneAndUpdate(
+      { _id: task._id, [`attachments.${MAX_ATTACHMENTS_PER_TASK - 1}`]: { $exists: false } },
+      {
+        $push: {
+          attachments: {
+            _id: attachmentId,
+            filename: file.originalname.slice(0, 255),
+            mimetype: file.mimetype,
+            size: file.size,
+            url: stored.url,
+            storageKey: stored.key,
+            provider: stored.provider,
+            resourceType: stored.resourceType,
+            uploadedBy: user._id,
+            uploadedAt: new Date()
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      await removeStoredFiles([stored]);
+      return res.status(400).json({ message: `A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments` });
+    }
+
+    const attachment = serializeAttachment(updated.attachments.id(attachmentId));
+    broadcastToTask(task._id, "task_attachment_added", { taskId: String(task._id), attachment });
+
+    res.status(201).json(attachment);
+  } catch (error) {
+    console.error("Error uploading task attachment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Remove an attachment and its stored file
+ * @route DELETE /api/tasks/:id/attachments/:attachmentId
+ * @access Private - Uploader or task:update
+ */
+export const deleteTaskAttachment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { attachmentId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const attachment = mongoose.Types.ObjectId.isValid(attachmentId) ? task.attachments.id(attachmentId) : null;
+    if (!attachment) {
+      return res.status(404).json({ message: "Attachment not found" });
+    }
+
+    if (attachment.uploadedBy.toString() !== user._id.toString() && !(await hasPermission(req, "task:update"))) {
+      return res.status(403).json({ message: "Insufficient permissions to delete this attachment" });
+    }
+
+    await Task.updateOne({ _id: task._id }, { $pull: { attachments: { _id: attachment._id } } });
+    await removeStoredFiles([{ key: attachment.storageKey, resourceType: attachment.resourceType, provider: attachment.provider }]);
+
+    broadcastToTask(task._id, "task_attachment_removed", { taskId: String(task._id), attachmentId: String(attachment._id) });
+
+    res.json({ message: "Attachment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting task attachment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
@@ -1,22 +1,59 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import crypto from "crypto";
 import User from "../models/User";
 import Company from "../models/Company";
+import PasswordResetToken from "../models/PasswordResetToken";
 import serializeUser from "../utils/serializeUser";
 import { AuthRequest } from "../middleware/authMiddleware";
 import { Types } from "mongoose";
-
-const JWT_SECRET = process.env.JWT_SECRET || "supersecret"; // keep in .env in production
+import {
+  issueAuthTokens,
+  rotateRefreshToken,
+  consumeLoginCode,
+  revokeSessionByRefreshToken,
+  revokeAllUserSessions,
+  getRequestMeta,
+  hashToken,
+  signTwoFactorChallenge,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  RefreshTokenError
+} from "../utils/authTokens";
+import { isTwoFactorSetupRequired } from "../utils/twoFactor";
+import { revokeUserApiTokens } from "../utils/apiTokens";
+import { isPasswordLoginDisabled } from "../utils/sso";
+import { applyDomainJoin } from "../utils/companyDomains";
+import { checkLock, registerFailure, recordFailedLogin, resetAttempts, accountKey, ipKey, LockStatus } from "../utils/loginAttempts";
+import { recordAudit } from "../utils/auditLog";
+import { emitCompanyMemberAdded } from "../utils/webhooks";
+import { sendMail, getFrontendUrl, escapeHtml } from "../utils/mailer";
+
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+const sendLocked = (res: Response, lock: LockStatus) => {
+  res.set("Retry-After", String(lock.retryAfterSeconds));
+  return res.status(429).json({
+    message: "Too many failed attempts. Please try again later.",
+    retryAfter: lock.retryAfterSeconds
+  });
+};
 
 // REGISTER
 export const register = async (req: Request, res: Response) => {
   try {
     const { name, email, password, role, adminCode, company } = req.body;
 
+    // Throttle clients that keep failing sign-ups (e.g. probing for existing emails or the admin code)
+    const registerIpKey = ipKey(req.ip, "register");
+    const lock = await checkLock(registerIpKey);
+    if (lock.locked) return sendLocked(res, lock);
+
     // check if user exists
     const existingUser = await User.findOne({ email });
-    if (existingUser) return res.status(400).json({ message: "User already exists" });
+    if (existingUser) {
+      await registerFailure(registerIpKey);
+      return res.status(400).json({ message: "User already exists" });
+    }
 
     // Protect superadmin signup: require SUPERADMIN_SECRET to be set and correct
     if (role === "superadmin") {
@@ -25,6 +62,7 @@ export const register = async (req: Request, res: Response) => {
         return res.status(500).json({ message: "Superadmin signup is disabled. Set SUPERADMIN_SECRET in server environment to enable." });
       }
       if (adminCode !== SUPERADMIN_SECRET) {
+        await registerFailure(registerIpKey);
         return res.status(403).json({ message: "Invalid superadmin code" });
       }
     }
@@ -41,17 +79,19 @@ export const register = async (req: Request, res: Response) => {
     const user = new User({ name, email, password: hashedPassword, role: role || "employee", company });
     await user.save();
 
-    // generate token including role
-    const token = jwt.sign(
-      { id: user._id, email: user.email, role: user.role, company: user.company },
-      JWT_SECRET,
-      { expiresIn: "1h" }
-    );
+    // Sign-ups from a verified company domain wait for that company's approval
+    const companyJoin = company ? null : await applyDomainJoin(user, "password", req);
+
+    // start a session: short-lived access token plus rotating refresh token
+    const tokens = await issueAuthTokens(user, getRequestMeta(req));
 
     res.status(201).json({
       message: "User registered successfully",
-      token,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
       user: serializeUser(user),
+      companyJoin,
     });
   } catch (error) {
     res.status(500).json({ error: "Server error" });
@@ -63,31 +103,125 @@ export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
+    // refuse early while the account or the client IP is locked out
+    const lock = await checkLock(accountKey(email), ipKey(req.ip));
+    if (lock.locked) return sendLocked(res, lock);
+
     // check if user exists
     const user = await User.findOne({ email });
-    if (!user) return res.status(400).json({ message: "Invalid credentials" });
+    // Service accounts can only authenticate with API tokens
+    if (!user || user.accountType === "service") {
+      await recordFailedLogin(req, email);
+      return res.status(400).json({ message: "Invalid credentials" });
+    }
 
     // check password
     const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) return res.status(400).json({ message: "Invalid credentials" });
+    if (!isMatch) {
+      await recordFailedLogin(req, email, user._id);
+      return res.status(400).json({ message: "Invalid credentials" });
+    }
 
-    // create token (include role and company)
-    const token = jwt.sign({ id: user._id, email: user.email, role: user.role, company: user.company }, JWT_SECRET, {
-      expiresIn: "1h",
-    });
+    await resetAttempts(accountKey(email));
+
+    // Companies can require sign-in through their identity provider
+    if (await isPasswordLoginDisabled(user.company)) {
+      return res.status(403).json({
+        message: "Your company requires single sign-on",
+        ssoRequired: true,
+        loginUrl: `/api/auth/sso/login?email=${encodeURIComponent(user.email)}`
+      });
+    }
+
+    // Two-step login: password is right, now the TOTP code is needed before any session exists
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: "Two-factor authentication required",
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user._id),
+        challengeExpiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS
+      });
+    }
+
+    // create session tokens (access token includes role, company and session id)
+    const tokens = await issueAuthTokens(user, getRequestMeta(req));
     // return richer response useful for clients (but never include password)
     res.json({
       message: "Login successful",
-      token,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       user: serializeUser(user),
-      expiresIn: 3600,
-      requirePasswordChange: user.requirePasswordChange || false
+      expiresIn: tokens.expiresIn,
+      requirePasswordChange: user.requirePasswordChange || false,
+      twoFactorSetupRequired: await isTwoFactorSetupRequired(user)
     });
   } catch (error) {
     res.status(500).json({ error: "Server error" });
   }
 };
 
+// REFRESH ACCESS TOKEN (rotates the refresh token)
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    const tokens = await rotateRefreshToken(
+      refreshToken,
+      (userId) => User.findOne({ _id: userId, status: { $ne: "inactive" } }).select("email role company").lean(),
+      getRequestMeta(req)
+    );
+
+    res.json({
+      message: "Token refreshed successfully",
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
+    });
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({ message: error.message });
+    }
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// EXCHANGE LOGIN CODE (end of the Google/SSO redirect flows)
+export const exchangeLoginCode = async (req: Request, res: Response) => {
+  try {
+    const userId = await consumeLoginCode(req.body.code);
+    const user = userId ? await User.findOne({ _id: userId, status: { $ne: "inactive" } }) : null;
+    if (!user) {
+      return res.status(401).json({ message: "Invalid or expired login code" });
+    }
+
+    const tokens = await issueAuthTokens(user, getRequestMeta(req));
+    res.json({
+      message: "Login successful",
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: serializeUser(user),
+      expiresIn: tokens.expiresIn,
+      requirePasswordChange: user.requirePasswordChange || false,
+      twoFactorSetupRequired: await isTwoFactorSetupRequired(user)
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// LOGOUT (revokes the whole session behind the refresh token)
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    await revokeSessionByRefreshToken(refreshToken);
+
+    res.json({ message: "Logged out successfully" });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
 // CREATE COMPANY (Superadmin only)
 export const createCompany = async (req: Request, res: Response) => {
   try {
@@ -231,6 +365,7 @@ export const addUserToCompany = async (req: Request, res: Response) => {
       requirePasswordChange: true // Flag to force password change on first login
     });
     await newUser.save();
+    await emitCompanyMemberAdded(companyId, newUser, "admin");
 
     // TODO: Send email with temporary password
     // await sendWelcomeEmail(email, name, temporaryPassword, company.name);
@@ -245,6 +380,35 @@ export const addUserToCompany = async (req: Request, res: Response) => {
   }
 };
 
+// UNLOCK USER AFTER FAILED LOGINS (Company admin and superadmin)
+export const unlockUser = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, userId } = req.params;
+
+    const target = await User.findOne({ _id: userId, company: companyId }).select("email");
+    if (!target) {
+      return res.status(404).json({ message: "User not found in this company" });
+    }
+
+    const lock = await checkLock(accountKey(target.email));
+    await resetAttempts(accountKey(target.email));
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "user",
+      entityId: target._id,
+      action: "account_unlocked",
+      changes: { wasLocked: lock.locked },
+      req
+    });
+
+    res.json({ message: "User unlocked successfully", wasLocked: lock.locked });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
 // GET COMPANY USERS (Company admin and superadmin)
 export const getCompanyUsers = async (req: Request, res: Response) => {
   try {
@@ -318,3 +482,78 @@ export const changePassword = async (req: Request, res: Response) => {
     res.status(500).json({ error: "Server error" });
   }
 };
+
+// FORGOT PASSWORD (emails a one-time reset link)
+export const forgotPassword = async (req: Request, res: Response) => {
+  // Same answer whether or not the account exists, to avoid email enumeration
+  const genericResponse = { message: "If an account exists for this email, a password reset link has been sent" };
+
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+    if (!user || user.status === "inactive") {
+      return res.json(genericResponse);
+    }
+
+    // Only the most recent link should work
+    await PasswordResetToken.updateMany(
+      { user: user._id, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const rawToken = crypto.randomBytes(32).toString("hex");
+    await PasswordResetToken.create({
+      user: user._id,
+      tokenHash: hashToken(rawToken),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      requestedIp: req.ip
+    });
+
+    const resetUrl = `${getFrontendUrl()}/auth/reset-password?token=${rawToken}`;
+    await sendMail({
+      to: user.email,
+      subject: "Reset your RemoteOffice password",
+      text: `Hi ${user.name},\n\nWe received a request to reset your password. Use the link below within ${PASSWORD_RESET_TTL_MINUTES} minutes:\n\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(user.name)},</p><p>We received a request to reset your password. Use the link below within ${PASSWORD_RESET_TTL_MINUTES} minutes:</p><p><a href="${resetUrl}">Reset password</a></p><p>If you did not request this, you can ignore this email.</p>`
+    });
+
+    res.json(genericResponse);
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// RESET PASSWORD (consumes the emailed token)
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = req.body;
+
+    // Mark the token used atomically so it cannot be replayed
+    const resetToken = await PasswordResetToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+    if (!resetToken) {
+      return res.status(400).json({ message: "Invalid or expired reset token" });
+    }
+
+    const userDoc = await User.findById(resetToken.user);
+    if (!userDoc || userDoc.status === "inactive") {
+      return res.status(400).json({ message: "Invalid or expired reset token" });
+    }
+
+    userDoc.password = await bcrypt.hash(newPassword, 10);
+    userDoc.requirePasswordChange = false;
+    await userDoc.save();
+
+    // Whoever knew the old password must not keep a session or an API token
+    await revokeAllUserSessions(userDoc._id);
+    await revokeUserApiTokens(userDoc._id);
+
+    res.json({ message: "Password has been reset successfully. Please log in with your new password." });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
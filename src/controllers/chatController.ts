@@ -1,5 +1,6 @@
 import { RequestHandler } from "express";
 import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
 import Channel from "../models/Channel";
 import Message from "../models/Message";
 import User from "../models/User";
@@ -10,8 +11,18 @@ import {
   EditMessageInput,
   GetMessagesInput,
   UpdateChannelInput,
-  SearchUsersInput
+  SearchUsersInput,
+  SearchMessagesInput,
+  FileUploadInput
 } from "../utils/chatValidation";
+import { emitMessageCreated } from "../utils/webhooks";
+import { getFileStorage } from "../utils/fileStorage";
+import { getIO } from "../utils/socketServer";
+import { ATTACHMENT_TYPES, chatUploadLimit } from "../middleware/upload";
+import { decodeCursor, encodeCursor, olderThanCursor } from "../utils/cursor";
+import { highlightSnippet, searchTerms } from "../utils/searchHighlight";
+
+const THUMBNAIL_SIZE = 320;
 
 /**
  * Get user's channels with security filtering
@@ -126,10 +137,10 @@ export const createChannel: RequestHandler = async (req, res) => {
       }
     }
 
-    // Security: Role-based channel creation restrictions
-    if (type === 'group' && user.role === 'member') {
+    // Security: Permission-based channel creation restrictions
+    if (type === 'group' && !(await hasPermission(req, "channel:create_group"))) {
       return res.status(403).json({ 
-        message: "Members cannot create group channels" 
+        message: "Insufficient permissions to create group channels" 
       });
     }
 
@@ -261,6 +272,9 @@ export const getMessages: RequestHandler = async (req, res) => {
       type: message.type,
       fileUrl: message.fileUrl,
       fileName: message.fileName,
+      fileSize: message.fileSize,
+      fileMimeType: message.fileMimeType,
+      thumbnailUrl: message.thumbnailUrl,
       isEdited: message.isEdited,
       replyTo: message.replyTo?._id
     }));
@@ -350,6 +364,8 @@ export const sendMessage: RequestHandler = async (req, res) => {
       replyTo: message.replyTo
     };
 
+    await emitMessageCreated(channel, message, transformedMessage.sender);
+
     res.status(201).json(transformedMessage);
   } catch (error) {
     console.error("Send message error:", error);
@@ -357,6 +373,131 @@ export const sendMessage: RequestHandler = async (req, res) => {
   }
 };
 
+/**
+ * Upload a file or image to a channel as a message (multipart field "file")
+ */
+export const uploadChatFile: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as AuthRequest).user;
+    const { channelId, content, replyTo }: FileUploadInput = req.body;
+    const file = (req as any).file as Express.Multer.File | undefined;
+
+    if (!user?.company) {
+      return res.status(403).json({ message: "User must belong to a company" });
+    }
+
+    if (!file?.buffer) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    // Security: Each kind of file has its own size limit
+    const maxSize = chatUploadLimit(file.mimetype);
+    if (file.size > maxSize) {
+      return res.status(413).json({ message: `Files of this type cannot exceed ${Math.round(maxSize / (1024 * 1024))}MB` });
+    }
+
+    // Security: Verify user has access to channel
+    const channel = await Channel.findOne({
+      _id: channelId,
+      participants: user.id,
+      companyId: user.company,
+      isArchived: false
+    }).lean();
+
+    if (!channel) {
+      return res.status(403).json({ message: "Channel not found or access denied" });
+    }
+
+    // Security: If replying to a message, verify it exists in the same channel
+    if (replyTo) {
+      const replyMessage = await Message.findOne({
+        _id: replyTo,
+        channelId,
+        companyId: user.company,
+        isDeleted: false
+      }).lean();
+
+      if (!replyMessage) {
+        return res.status(400).json({ message: "Reply message not found" });
+      }
+    }
+
+    // Images go to Cloudinary as images, everything else as raw files
+    const isImage = file.mimetype.startsWith("image/");
+    const storage = getFileStorage();
+    const stored = await storage.save({
+      buffer: file.buffer,
+      mimetype: file.mimetype,
+      extension: ATTACHMENT_TYPES[file.mimetype],
+      folder: `remoteoffice/companies/${user.company}/chat/${channelId}`
+    });
+
+    // Security: Strip characters the message model rejects in file names
+    const fileName = file.originalname.replace(/[<>:"/\\|?*]/g, "_").slice(0, 255);
+
+    const message = new Message({
+      content: content || undefined,
+      senderId: user.id,
+      channelId,
+      companyId: user.company,
+      type: isImage ? "image" : "file",
+      fileUrl: stored.url,
+      fileName,
+      fileSize: file.size,
+      fileMimeType: file.mimetype,
+      thumbnailUrl: isImage ? storage.thumbnailUrl(stored, THUMBNAIL_SIZE) : undefined,
+      replyTo
+    });
+
+    try {
+      await message.save();
+    } catch (error) {
+      await storage.remove(stored).catch(() => undefined);
+      throw error;
+    }
+
+    // Update channel's last message and activity
+    await Channel.findByIdAndUpdate(channelId, {
+      lastMessage: message._id,
+      lastActivity: new Date()
+    });
+
+    await message.populate('senderId', 'firstName lastName email avatarUrl');
+
+    const sender = message.senderId as any;
+    const transformedMessage = {
+      id: message._id,
+      content: message.content,
+      senderId: sender._id,
+      sender: {
+        id: sender._id,
+        name: `${sender.firstName || ''} ${sender.lastName || ''}`.trim() || sender.email,
+        email: sender.email,
+        avatarUrl: sender.avatarUrl
+      },
+      timestamp: message.createdAt?.toISOString(),
+      type: message.type,
+      fileUrl: message.fileUrl,
+      fileName: message.fileName,
+      fileSize: message.fileSize,
+      fileMimeType: message.fileMimeType,
+      thumbnailUrl: message.thumbnailUrl,
+      isEdited: message.isEdited,
+      replyTo: message.replyTo
+    };
+
+    // Broadcast to all channel members, same as messages sent over the socket
+    getIO()?.to(String(channelId)).emit('new_message', transformedMessage);
+
+    await emitMessageCreated(channel, message, transformedMessage.sender);
+
+    res.status(201).json(transformedMessage);
+  } catch (error) {
+    console.error("Upload chat file error:", error);
+    res.status(500).json({ message: "Failed to upload file" });
+  }
+};
+
 /**
  * Edit a message with security validation
  */
@@ -434,14 +575,14 @@ export const deleteMessage: RequestHandler = async (req, res) => {
       return res.status(403).json({ message: "User must belong to a company" });
     }
 
-    // Security: Allow deletion by sender or company admin
+    // Security: Allow deletion by sender or channel moderators
     const query: any = {
       _id: messageId,
       companyId: user.company,
       isDeleted: false
     };
 
-    if (user.role !== 'company_admin' && user.role !== 'superadmin') {
+    if (!(await hasPermission(req, "channel:moderate"))) {
       query.senderId = user.id;
     }
 
@@ -540,3 +681,97 @@ export const searchUsers: RequestHandler = async (req, res) => {
     res.status(500).json({ message: "Failed to search users" });
   }
 };
+
+/**
+ * Full-text search over the messages of the user's channels, newest first
+ */
+export const searchMessages: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as AuthRequest).user;
+    const { q, channelId, senderId, from, to, has, cursor, limit }: SearchMessagesInput = req.query as any;
+
+    if (!user?.company) {
+      return res.status(403).json({ message: "User must belong to a company" });
+    }
+
+    // Security: Only channels the user participates in within their company
+    const channelIds = await Channel.find({
+      participants: user.id,
+      companyId: user.company,
+      isArchived: false
+    }).distinct("_id");
+
+    if (channelId && !channelIds.some((id) => String(id) === channelId)) {
+      return res.status(403).json({ message: "Channel not found or access denied" });
+    }
+
+    const query: any = {
+      $text: { $search: q },
+      companyId: user.company,
+      channelId: channelId ? channelId : { $in: channelIds },
+      isDeleted: false
+    };
+
+    if (senderId) {
+      query.senderId = senderId;
+    }
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from);
+      if (to) query.createdAt.$lte = new Date(to);
+    }
+    if (has) {
+      query.type = has === "image" ? "image" : { $in: ["file", "image"] };
+    }
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      Object.assign(query, olderThanCursor(position));
+    }
+
+    const messages = await Message.find(query)
+      .populate('senderId', 'firstName lastName email avatarUrl')
+      .populate('channelId', 'name type')
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(Number(limit) + 1)
+      .lean();
+
+    const hasMore = messages.length > Number(limit);
+    const page = messages.slice(0, Number(limit));
+    const terms = searchTerms(q);
+
+    const results = page.map((message: any) => ({
+      id: message._id,
+      channel: {
+        id: message.channelId._id,
+        name: message.channelId.name,
+        type: message.channelId.type
+      },
+      senderId: message.senderId._id,
+      sender: {
+        id: message.senderId._id,
+        name: `${message.senderId.firstName || ''} ${message.senderId.lastName || ''}`.trim() || message.senderId.email,
+        email: message.senderId.email,
+        avatarUrl: message.senderId.avatarUrl
+      },
+      timestamp: message.createdAt?.toISOString(),
+      type: message.type,
+      snippet: highlightSnippet(message.content || message.fileName || "", terms),
+      fileUrl: message.fileUrl,
+      fileName: message.fileName,
+      fileMimeType: message.fileMimeType,
+      thumbnailUrl: message.thumbnailUrl
+    }));
+
+    res.json({
+      results,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1] as any) : null,
+      hasMore
+    });
+  } catch (error) {
+    console.error("Search messages error:", error);
+    res.status(500).json({ message: "Failed to search messages" });
+  }
+};
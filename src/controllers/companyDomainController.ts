@@ -0,0 +1,307 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import CompanyDomain from "../models/CompanyDomain";
+import JoinRequest from "../models/JoinRequest";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { recordAudit } from "../utils/auditLog";
+import { emitCompanyMemberAdded } from "../utils/webhooks";
+import {
+  generateDomainToken,
+  hasVerificationRecord,
+  serializeCompanyDomain,
+  serializeJoinRequest
+} from "../utils/companyDomains";
+
+/**
+ * Company Domain Controller
+ * Verified email domains and the pending-approval queue of people who signed up with them
+ */
+
+/**
+ * List a company's email domains
+ * @route GET /api/company/:companyId/domains
+ * @access Private - company:manage_users
+ */
+export const listDomains = async (req: Request, res: Response) => {
+  try {
+    const domains = await CompanyDomain.find({ company: req.params.companyId }).sort({ domain: 1 });
+
+    res.json({
+      message: "Domains retrieved successfully",
+      domains: domains.map(serializeCompanyDomain)
+    });
+  } catch (error) {
+    console.error("Error listing domains:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Claim an email domain; it only takes effect once verified through DNS
+ * @route POST /api/company/:companyId/domains
+ * @access Private - company:manage_users
+ */
+export const addDomain = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId } = req.params;
+    const { domain, joinPolicy } = req.body;
+
+    const taken = await CompanyDomain.exists({ domain, verifiedAt: { $exists: true }, company: { $ne: companyId } });
+    if (taken) {
+      return res.status(409).json({ message: "This domain is already verified by another company" });
+    }
+
+    const doc = await CompanyDomain.create({
+      company: companyId,
+      domain,
+      joinPolicy,
+      verificationToken: generateDomainToken(),
+      createdBy: user?._id
+    });
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "company_domain",
+      entityId: doc._id,
+      action: "add_domain",
+      changes: { domain, joinPolicy: doc.joinPolicy },
+      req
+    });
+
+    res.status(201).json({
+      message: "Domain added. Publish the TXT record, then verify it.",
+      domain: serializeCompanyDomain(doc)
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ message: "This domain has already been added" });
+    }
+    console.error("Error adding domain:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Check the domain's DNS TXT record and mark it verified
+ * @route POST /api/company/:companyId/domains/:domainId/verify
+ * @access Private - company:manage_users
+ */
+export const verifyDomain = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, domainId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(domainId)) {
+      return res.status(400).json({ message: "Invalid domain ID" });
+    }
+
+    const doc = await CompanyDomain.findOne({ _id: domainId, company: companyId });
+    if (!doc) {
+      return res.status(404).json({ message: "Domain not found" });
+    }
+    if (doc.verifiedAt) {
+      return res.json({ message: "Domain is already verified", domain: serializeCompanyDomain(doc) });
+    }
+
+    if (!(await hasVerificationRecord(doc.domain, doc.verificationToken))) {
+      return res.status(400).json({
+        message: "Verification record not found. DNS changes can take a while to propagate.",
+        domain: serializeCompanyDomain(doc)
+      });
+    }
+
+    doc.verifiedAt = new Date();
+    try {
+      await doc.save();
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: "This domain is already verified by another company" });
+      }
+      throw error;
+    }
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "company_domain",
+      entityId: doc._id,
+      action: "verify_domain",
+      changes: { domain: doc.domain },
+      req
+    });
+
+    res.json({ message: "Domain verified successfully", domain: serializeCompanyDomain(doc) });
+  } catch (error) {
+    console.error("Error verifying domain:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Change a domain's join policy
+ * @route PATCH /api/company/:companyId/domains/:domainId
+ * @access Private - company:manage_users
+ */
+export const updateDomain = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, domainId } = req.params;
+    const { joinPolicy } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(domainId)) {
+      return res.status(400).json({ message: "Invalid domain ID" });
+    }
+
+    const doc = await CompanyDomain.findOneAndUpdate(
+      { _id: domainId, company: companyId },
+      { $set: { joinPolicy } },
+      { new: true }
+    );
+    if (!doc) {
+      return res.status(404).json({ message: "Domain not found" });
+    }
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "company_domain",
+      entityId: doc._id,
+      action: "update_domain",
+      changes: { joinPolicy },
+      req
+    });
+
+    res.json({ message: "Domain updated successfully", domain: serializeCompanyDomain(doc) });
+  } catch (error) {
+    console.error("Error updating domain:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Remove a domain (pending requests that came through it are kept)
+ * @route DELETE /api/company/:companyId/domains/:domainId
+ * @access Private - company:manage_users
+ */
+export const removeDomain = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, domainId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(domainId)) {
+      return res.status(400).json({ message: "Invalid domain ID" });
+    }
+
+    const doc = await CompanyDomain.findOneAndDelete({ _id: domainId, company: companyId });
+    if (!doc) {
+      return res.status(404).json({ message: "Domain not found" });
+    }
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "company_domain",
+      entityId: doc._id,
+      action: "remove_domain",
+      changes: { domain: doc.domain },
+      req
+    });
+
+    res.json({ message: "Domain removed successfully" });
+  } catch (error) {
+    console.error("Error removing domain:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * List join requests (pending by default)
+ * @route GET /api/company/:companyId/join-requests
+ * @access Private - company:manage_users
+ */
+export const listJoinRequests = async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const status = (req.query.status as string) || "pending";
+
+    const filter: any = { company: companyId };
+    if (["pending", "approved", "rejected"].includes(status)) filter.status = status;
+
+    const requests = await JoinRequest.find(filter)
+      .sort({ createdAt: -1 })
+      .populate("user", "name email");
+
+    res.json({
+      message: "Join requests retrieved successfully",
+      joinRequests: requests.map(serializeJoinRequest)
+    });
+  } catch (error) {
+    console.error("Error listing join requests:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+const decideJoinRequest = (decision: "approved" | "rejected") => async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, requestId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(requestId)) {
+      return res.status(400).json({ message: "Invalid join request ID" });
+    }
+
+    const joinRequest = await JoinRequest.findOne({ _id: requestId, company: companyId, status: "pending" });
+    if (!joinRequest) {
+      return res.status(404).json({ message: "Pending join request not found" });
+    }
+
+    if (decision === "approved") {
+      // The user may have joined another company in the meantime
+      const joined = await User.findOneAndUpdate(
+        { _id: joinRequest.user, company: null },
+        { $set: { company: companyId, role: "employee" } },
+        { new: true }
+      );
+      if (!joined) {
+        await JoinRequest.updateOne({ _id: joinRequest._id }, { $set: { status: "rejected", decidedAt: new Date() } });
+        return res.status(409).json({ message: "This user already belongs to a company" });
+      }
+      await emitCompanyMemberAdded(companyId, joined, "join_request");
+    }
+
+    joinRequest.status = decision;
+    joinRequest.decidedBy = user?._id as any;
+    joinRequest.decidedAt = new Date();
+    await joinRequest.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "join_request",
+      entityId: joinRequest._id,
+      action: decision === "approved" ? "approve_join_request" : "reject_join_request",
+      changes: { user: String(joinRequest.user), domain: joinRequest.domain },
+      req
+    });
+
+    res.json({
+      message: decision === "approved" ? "Join request approved" : "Join request rejected",
+      joinRequest: serializeJoinRequest(joinRequest)
+    });
+  } catch (error) {
+    console.error("Error deciding join request:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Approve a join request: the user joins the company as an employee
+ * @route POST /api/company/:companyId/join-requests/:requestId/approve
+ * @access Private - company:manage_users
+ */
+export const approveJoinRequest = decideJoinRequest("approved");
+
+/**
+ * Reject a join request
+ * @route POST /api/company/:companyId/join-requests/:requestId/reject
+ * @access Private - company:manage_users
+ */
+export const rejectJoinRequest = decideJoinRequest("rejected");
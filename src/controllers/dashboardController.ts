@@ -1,7 +1,9 @@
 import { Response } from "express";
+import mongoose from "mongoose";
 import Task from "../models/Task";
 import Project from "../models/Project";
 import User from "../models/User";
+import TimeEntry from "../models/TimeEntry";
 import { AuthRequest } from "../middleware/authMiddleware";
 
 /**
@@ -35,13 +37,14 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
       completedProjects
     ] = await Promise.all([
       Task.countDocuments(companyFilter),
-      Task.countDocuments({ ...companyFilter, status: "done" }),
-      Task.countDocuments({ ...companyFilter, status: "in_progress" }),
-      Task.countDocuments({ ...companyFilter, status: "todo" }),
+      // Custom workflow statuses are counted by their category
+      Task.countDocuments({ ...companyFilter, statusCategory: "done" }),
+      Task.countDocuments({ ...companyFilter, statusCategory: "in_progress" }),
+      Task.countDocuments({ ...companyFilter, statusCategory: "todo" }),
       Task.countDocuments({
         ...companyFilter,
         dueDate: { $lt: new Date() },
-        status: { $ne: "done" }
+        statusCategory: { $ne: "done" }
       }),
       Project.countDocuments(companyFilter),
       Project.countDocuments({ ...companyFilter, status: "active" }),
@@ -112,13 +115,13 @@ export const getActiveProjects = async (req: AuthRequest, res: Response) => {
       .populate("createdBy", "name")
       .populate({
         path: "tasks",
-        select: "status"
+        select: "status statusCategory"
       });
 
     // Calculate actual progress for each project
     const projectsWithProgress = projects.map(project => {
       const totalTasks = project.tasks.length;
-      const completedTasks = project.tasks.filter((task: any) => task.status === "done").length;
+      const completedTasks = project.tasks.filter((task: any) => task.statusCategory === "done").length;
       const calculatedProgress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
       return {
@@ -186,7 +189,7 @@ export const getTaskAnalytics = async (req: AuthRequest, res: Response) => {
       Task.countDocuments({ ...companyFilter, priority: "low" })
     ]);
 
-    // Get tasks by status over time (last 30 days)
+    // Get tasks by status category over time (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
@@ -201,7 +204,7 @@ export const getTaskAnalytics = async (req: AuthRequest, res: Response) => {
         $group: {
           _id: {
             date: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } },
-            status: "$status"
+            status: "$statusCategory"
           },
           count: { $sum: 1 }
         }
@@ -216,14 +219,18 @@ export const getTaskAnalytics = async (req: AuthRequest, res: Response) => {
       {
         $match: companyFilter
       },
+      // A task counts once for each of its assignees
+      {
+        $unwind: "$assignees"
+      },
       {
         $group: {
-          _id: "$assignee.id",
-          name: { $first: "$assignee.name" },
-          avatarUrl: { $first: "$assignee.avatarUrl" },
+          _id: "$assignees.id",
+          name: { $first: "$assignees.name" },
+          avatarUrl: { $first: "$assignees.avatarUrl" },
           totalTasks: { $sum: 1 },
           completedTasks: {
-            $sum: { $cond: [{ $eq: ["$status", "done"] }, 1, 0] }
+            $sum: { $cond: [{ $eq: ["$statusCategory", "done"] }, 1, 0] }
           }
         }
       },
@@ -314,6 +321,53 @@ export const getProjectAnalytics = async (req: AuthRequest, res: Response) => {
       dueDate: { $lt: new Date() }
     });
 
+    // Time logged against estimates, per project (aggregate $match does not cast, so the company id must be an ObjectId)
+    const companyId = user.company ? new mongoose.Types.ObjectId(String(user.company)) : null;
+    const [loggedByProject, estimatedByProject] = await Promise.all([
+      TimeEntry.aggregate([
+        {
+          $match: { company: companyId, isRunning: false, project: { $exists: true } }
+        },
+        {
+          $group: { _id: "$project", loggedMinutes: { $sum: "$minutes" } }
+        }
+      ]),
+      Task.aggregate([
+        {
+          $match: { company: companyId, "project.id": { $exists: true } }
+        },
+        {
+          $group: { _id: "$project.id", estimateMinutes: { $sum: { $ifNull: ["$estimateMinutes", 0] } } }
+        }
+      ])
+    ]);
+
+    const timeByProject = new Map<string, { loggedMinutes: number; estimateMinutes: number }>();
+    for (const row of loggedByProject) {
+      timeByProject.set(String(row._id), { loggedMinutes: row.loggedMinutes, estimateMinutes: 0 });
+    }
+    for (const row of estimatedByProject) {
+      const entry = timeByProject.get(String(row._id)) ?? { loggedMinutes: 0, estimateMinutes: 0 };
+      entry.estimateMinutes = row.estimateMinutes;
+      timeByProject.set(String(row._id), entry);
+    }
+
+    const trackedProjects = await Project.find({ ...companyFilter, _id: { $in: [...timeByProject.keys()] } })
+      .select("name status")
+      .lean();
+    const projectTime = trackedProjects
+      .map((project) => {
+        const { loggedMinutes, estimateMinutes } = timeByProject.get(String(project._id))!;
+        return {
+          project: { id: String(project._id), name: project.name, status: project.status },
+          loggedMinutes,
+          estimateMinutes,
+          remainingMinutes: Math.max(estimateMinutes - loggedMinutes, 0)
+        };
+      })
+      .filter((row) => row.loggedMinutes > 0 || row.estimateMinutes > 0)
+      .sort((a, b) => b.loggedMinutes - a.loggedMinutes);
+
     res.json({
       statusDistribution: {
         active: activeProjects,
@@ -323,7 +377,12 @@ export const getProjectAnalytics = async (req: AuthRequest, res: Response) => {
       },
       averageProgress: projectProgressStats[0]?.averageProgress || 0,
       projectsNearingDeadline,
-      overdueProjects
+      overdueProjects,
+      timeTracking: {
+        loggedMinutes: projectTime.reduce((sum, row) => sum + row.loggedMinutes, 0),
+        estimateMinutes: projectTime.reduce((sum, row) => sum + row.estimateMinutes, 0),
+        projects: projectTime
+      }
     });
   } catch (error) {
     console.error("Error fetching project analytics:", error);
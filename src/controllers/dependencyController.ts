@@ -0,0 +1,144 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { snapshotTask, recordTaskChanges } from "../utils/taskActivity";
+import { wouldCreateCycle } from "../utils/dependencies";
+import { findCompanyTask } from "../utils/taskAccess";
+
+/**
+ * Dependency Controller
+ * "Blocked by / blocks" links between tasks of the same company
+ */
+
+const SUMMARY_FIELDS = "title status statusCategory priority dueDate assignees project";
+
+/**
+ * Tasks blocking this one and tasks it blocks
+ * @route GET /api/tasks/:id/dependencies
+ * @access Private - Company Admin/Employee
+ */
+export const getTaskDependencies = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const [blockedBy, blocks] = await Promise.all([
+      Task.find({ _id: { $in: task.blockedBy }, company: user.company }).select(SUMMARY_FIELDS),
+      Task.find({ blockedBy: task._id, company: user.company }).select(SUMMARY_FIELDS)
+    ]);
+
+    res.json({
+      blockedBy,
+      blocks,
+      isBlocked: blockedBy.some((blocker) => blocker.statusCategory !== "done")
+    });
+  } catch (error) {
+    console.error("Error fetching task dependencies:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Mark this task as blocked by another task
+ * @route POST /api/tasks/:id/dependencies
+ * @access Private - task:update or task creator
+ */
+export const addTaskDependency = async (req: AuthRequest, res: Response) => {
+  try {
+    const { blockerId } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await hasPermission(req, "task:update")) && task.createdBy.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Insufficient permissions to update this task" });
+    }
+
+    if (String(blockerId) === String(task._id)) {
+      return res.status(400).json({ message: "A task cannot block itself" });
+    }
+
+    const blocker = mongoose.Types.ObjectId.isValid(blockerId)
+      ? await Task.findOne({ _id: blockerId, company: user.company }).select("_id")
+      : null;
+    if (!blocker) {
+      return res.status(400).json({ message: "Blocking task not found or not in the same company" });
+    }
+
+    if (task.blockedBy.some((id) => String(id) === String(blocker._id))) {
+      return res.status(400).json({ message: "This dependency already exists" });
+    }
+
+    if (await wouldCreateCycle(task._id, blocker._id, user.company)) {
+      return res.status(409).json({ message: "This dependency would create a cycle" });
+    }
+
+    const before = snapshotTask(task);
+    const updatedTask = await Task.findByIdAndUpdate(task._id, { $addToSet: { blockedBy: blocker._id } }, { new: true });
+    if (updatedTask) {
+      await recordTaskChanges(before, updatedTask, user._id);
+    }
+
+    res.status(201).json({ message: "Dependency added successfully", blockedBy: updatedTask?.blockedBy ?? [] });
+  } catch (error) {
+    console.error("Error adding task dependency:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Remove a blocking task
+ * @route DELETE /api/tasks/:id/dependencies/:blockerId
+ * @access Private - task:update or task creator
+ */
+export const removeTaskDependency = async (req: AuthRequest, res: Response) => {
+  try {
+    const { blockerId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await hasPermission(req, "task:update")) && task.createdBy.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Insufficient permissions to update this task" });
+    }
+
+    if (!task.blockedBy.some((id) => String(id) === String(blockerId))) {
+      return res.status(404).json({ message: "Dependency not found" });
+    }
+
+    const before = snapshotTask(task);
+    const updatedTask = await Task.findByIdAndUpdate(task._id, { $pull: { blockedBy: blockerId } }, { new: true });
+    if (updatedTask) {
+      await recordTaskChanges(before, updatedTask, user._id);
+    }
+
+    res.json({ message: "Dependency removed successfully", blockedBy: updatedTask?.blockedBy ?? [] });
+  } catch (error) {
+    console.error("Error removing task dependency:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
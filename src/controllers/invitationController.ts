@@ -0,0 +1,303 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import User from "../models/User";
+import Company from "../models/Company";
+import Invitation from "../models/Invitation";
+import serializeUser from "../utils/serializeUser";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { issueAuthTokens, getRequestMeta } from "../utils/authTokens";
+import { recordAudit } from "../utils/auditLog";
+import { emitCompanyMemberAdded } from "../utils/webhooks";
+import {
+  generateInvitationToken,
+  findPendingInvitation,
+  sendInvitationEmail,
+  serializeInvitation,
+  completeInvitation
+} from "../utils/invitations";
+
+/**
+ * Invitation Controller
+ * Company admins invite people by email; invitees set their own password or sign in with Google
+ */
+
+/**
+ * Invite a user to a company
+ * @route POST /api/company/:companyId/invitations
+ * @access Private - Company Admin/Superadmin
+ */
+export const createInvitation = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId } = req.params;
+    const { role = "employee" } = req.body;
+    const email = String(req.body.email).toLowerCase();
+
+    const company = await Company.findById(companyId);
+    if (!company) {
+      return res.status(404).json({ message: "Company not found" });
+    }
+
+    const existingUser = await User.findOne({ email }).select("_id");
+    if (existingUser) {
+      return res.status(400).json({ message: "User already exists", details: `A user with email ${email} already has an account` });
+    }
+
+    const pending = await Invitation.findOne({
+      company: companyId,
+      email,
+      status: "pending",
+      expiresAt: { $gt: new Date() }
+    });
+    if (pending) {
+      return res.status(400).json({ message: "An invitation is already pending for this email. Resend it instead." });
+    }
+
+    const token = generateInvitationToken();
+    const invitation = await Invitation.create({
+      company: companyId,
+      email,
+      role,
+      tokenHash: token.hash,
+      invitedBy: user?._id,
+      expiresAt: token.expiresAt,
+      lastSentAt: new Date()
+    });
+
+    const inviter = await User.findById(user?._id).select("name");
+    await sendInvitationEmail(invitation, token.raw, company.name, inviter?.name);
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "invitation",
+      entityId: invitation._id,
+      action: "create_invitation",
+      changes: { email, role, company: companyId },
+      req
+    });
+
+    res.status(201).json({
+      message: "Invitation sent successfully",
+      invitation: serializeInvitation(invitation)
+    });
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * List a company's invitations
+ * @route GET /api/company/:companyId/invitations
+ * @access Private - Company Admin/Superadmin
+ */
+export const listInvitations = async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+    const { status } = req.query;
+
+    const filter: any = { company: companyId };
+    if (status === "expired") {
+      filter.status = "pending";
+      filter.expiresAt = { $lte: new Date() };
+    } else if (status === "pending") {
+      filter.status = "pending";
+      filter.expiresAt = { $gt: new Date() };
+    } else if (status === "accepted" || status === "revoked") {
+      filter.status = status;
+    }
+
+    const invitations = await Invitation.find(filter)
+      .sort({ createdAt: -1 })
+      .populate("invitedBy", "name email")
+      .populate("acceptedBy", "name email");
+
+    res.json({
+      message: "Invitations retrieved successfully",
+      invitations: invitations.map(serializeInvitation)
+    });
+  } catch (error) {
+    console.error("Error listing invitations:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Resend an invitation with a fresh token and expiry (old links stop working)
+ * @route POST /api/company/:companyId/invitations/:invitationId/resend
+ * @access Private - Company Admin/Superadmin
+ */
+export const resendInvitation = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, invitationId } = req.params;
+
+    const invitation = await Invitation.findOne({ _id: invitationId, company: companyId });
+    if (!invitation) {
+      return res.status(404).json({ message: "Invitation not found" });
+    }
+    if (invitation.status !== "pending") {
+      return res.status(400).json({ message: `Invitation has already been ${invitation.status}` });
+    }
+
+    const company = await Company.findById(companyId);
+    if (!company) {
+      return res.status(404).json({ message: "Company not found" });
+    }
+
+    const token = generateInvitationToken();
+    invitation.tokenHash = token.hash;
+    invitation.expiresAt = token.expiresAt;
+    invitation.sendCount = (invitation.sendCount || 0) + 1;
+    invitation.lastSentAt = new Date();
+    await invitation.save();
+
+    const inviter = await User.findById(user?._id).select("name");
+    await sendInvitationEmail(invitation, token.raw, company.name, inviter?.name);
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "invitation",
+      entityId: invitation._id,
+      action: "resend_invitation",
+      changes: { email: invitation.email, sendCount: invitation.sendCount },
+      req
+    });
+
+    res.json({
+      message: "Invitation resent successfully",
+      invitation: serializeInvitation(invitation)
+    });
+  } catch (error) {
+    console.error("Error resending invitation:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Revoke a pending invitation
+ * @route DELETE /api/company/:companyId/invitations/:invitationId
+ * @access Private - Company Admin/Superadmin
+ */
+export const revokeInvitation = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, invitationId } = req.params;
+
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: invitationId, company: companyId, status: "pending" },
+      { $set: { status: "revoked", revokedAt: new Date(), revokedBy: user?._id } },
+      { new: true }
+    );
+    if (!invitation) {
+      return res.status(404).json({ message: "Pending invitation not found" });
+    }
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "invitation",
+      entityId: invitation._id,
+      action: "revoke_invitation",
+      changes: { email: invitation.email },
+      req
+    });
+
+    res.json({
+      message: "Invitation revoked successfully",
+      invitation: serializeInvitation(invitation)
+    });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Preview an invitation before accepting it
+ * @route GET /api/auth/invitations/:token
+ * @access Public
+ */
+export const getInvitationByToken = async (req: Request, res: Response) => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: "Invitation not found or expired" });
+    }
+
+    const company = await Company.findById(invitation.company).select("name logoUrl");
+
+    res.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        company: company ? { id: String(company._id), name: company.name, logoUrl: company.logoUrl ?? null } : null
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Accept an invitation by choosing a password
+ * (Google sign-in accepts through GET /api/auth/google?invitation=<token>)
+ * @route POST /api/auth/invitations/accept
+ * @access Public
+ */
+export const acceptInvitation = async (req: Request, res: Response) => {
+  try {
+    const { token, name, firstName, lastName, password } = req.body;
+
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return res.status(400).json({ message: "Invitation not found or expired" });
+    }
+
+    const existingUser = await User.findOne({ email: invitation.email }).select("_id");
+    if (existingUser) {
+      return res.status(400).json({ message: "An account with this email already exists. Sign in with Google to accept the invitation." });
+    }
+
+    const newUser = new User({
+      name: name || `${firstName ?? ""} ${lastName ?? ""}`.trim(),
+      firstName,
+      lastName,
+      email: invitation.email,
+      password: await bcrypt.hash(password, 10),
+      role: invitation.role,
+      company: invitation.company
+    });
+
+    // Claim the invitation before creating the account so it can only be used once
+    const claimed = await completeInvitation(invitation, newUser._id, "password", req);
+    if (!claimed) {
+      return res.status(400).json({ message: "Invitation not found or expired" });
+    }
+
+    try {
+      await newUser.save();
+    } catch (error) {
+      await Invitation.updateOne(
+        { _id: invitation._id },
+        { $set: { status: "pending" }, $unset: { acceptedAt: 1, acceptedBy: 1, acceptedVia: 1 } }
+      );
+      throw error;
+    }
+
+    await emitCompanyMemberAdded(invitation.company, newUser, "invitation");
+
+    const tokens = await issueAuthTokens(newUser, getRequestMeta(req));
+
+    res.status(201).json({
+      message: "Invitation accepted successfully",
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+      user: serializeUser(newUser)
+    });
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
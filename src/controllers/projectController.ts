@@ -1,14 +1,47 @@
 import { Response } from "express";
-import Project from "../models/Project";
+import Project, { IProject, ProjectRole } from "../models/Project";
 import Task from "../models/Task";
+import TaskActivity from "../models/TaskActivity";
 import User, { IUser } from "../models/User";
 import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import {
+  canOnProject,
+  getProjectRole,
+  getMemberRoles,
+  ensureMemberRoles,
+  addMemberRole,
+  syncMemberRoles,
+  keepsAnotherOwner
+} from "../utils/projectAccess";
+import { emitWebhookEvent } from "../utils/webhooks";
+import { serializeTaskActivity } from "../utils/taskActivity";
+import { buildDependencyGraph } from "../utils/dependencies";
+import { getWorkflow, validateWorkflow, categoryOf, mapStatusInto } from "../utils/workflow";
 
 /**
  * Project Controller
  * Handles all project-related operations including CRUD, member management, and task association
  */
 
+// Granting or taking away ownership is reserved to owners (and company-level project managers)
+const canGrantOwner = async (req: AuthRequest, project: IProject): Promise<boolean> =>
+  getProjectRole(project, req.user?._id) === "owner" || (await hasPermission(req, "project:manage_members"));
+
+// One member.added webhook event per user who was not on the project before
+const emitMembersAdded = async (req: AuthRequest, project: IProject, users: IUser[]) => {
+  const existing = new Set(project.members.map((m: any) => String(m._id ?? m)));
+  for (const member of users) {
+    if (existing.has(String(member._id))) continue;
+    await emitWebhookEvent(project.company, "member.added", {
+      scope: "project",
+      project: { id: String(project._id), name: project.name },
+      user: { id: String(member._id), name: member.name, email: member.email },
+      addedBy: req.user ? String(req.user._id) : null
+    });
+  }
+};
+
 /**
  * Get all projects with filtering and pagination
  * @route GET /api/projects
@@ -49,9 +82,9 @@ export const getAllProjects = async (req: AuthRequest, res: Response) => {
       .populate("createdBy", "name email")
       .populate({
         path: "tasks",
-        select: "title status priority dueDate assignee",
+        select: "title status priority dueDate assignees",
         populate: {
-          path: "assignee.id",
+          path: "assignees.id",
           select: "name avatarUrl"
         }
       });
@@ -92,7 +125,7 @@ export const getProjectById = async (req: AuthRequest, res: Response) => {
         path: "tasks",
         populate: [
           {
-            path: "assignee.id",
+            path: "assignees.id",
             select: "name email avatarUrl"
           },
           {
@@ -108,7 +141,7 @@ export const getProjectById = async (req: AuthRequest, res: Response) => {
 
     // Calculate actual progress based on completed tasks
     const totalTasks = project.tasks.length;
-    const completedTasks = project.tasks.filter((task: any) => task.status === "done").length;
+    const completedTasks = project.tasks.filter((task: any) => task.statusCategory === "done").length;
     const calculatedProgress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
     // Update progress if it's different
@@ -127,20 +160,20 @@ export const getProjectById = async (req: AuthRequest, res: Response) => {
 /**
  * Create a new project
  * @route POST /api/projects
- * @access Private - Company Admin only
+ * @access Private - project:create
  */
 export const createProject = async (req: AuthRequest, res: Response) => {
   try {
-    const { name, description, dueDate, memberIds } = req.body;
+    const { name, description, dueDate, memberIds, workflow } = req.body;
     const user = req.user;
 
     if (!user) {
       return res.status(401).json({ message: "User not authenticated" });
     }
 
-    // Check if user has permission to create projects (company_admin or higher)
-    if (!user.role || !["superadmin", "company_admin"].includes(user.role)) {
-      return res.status(403).json({ message: "Insufficient permissions to create projects" });
+    const workflowError = workflow ? validateWorkflow(workflow) : null;
+    if (workflowError) {
+      return res.status(400).json({ message: workflowError });
     }
 
     // Verify all members exist and belong to the same company
@@ -161,7 +194,14 @@ export const createProject = async (req: AuthRequest, res: Response) => {
       description,
       dueDate: new Date(dueDate),
       members: members.map(member => member._id),
+      memberRoles: [
+        { user: user._id, role: "owner" },
+        ...members
+          .filter(member => String(member._id) !== user._id.toString())
+          .map(member => ({ user: member._id, role: "contributor" }))
+      ],
       tasks: [],
+      workflow,
       status: "active",
       progress: 0,
       createdBy: user._id,
@@ -185,7 +225,7 @@ export const createProject = async (req: AuthRequest, res: Response) => {
 /**
  * Update a project
  * @route PUT /api/projects/:id
- * @access Private - Company Admin/Project Creator
+ * @access Private - project:update or project owner/maintainer
  */
 export const updateProject = async (req: AuthRequest, res: Response) => {
   try {
@@ -203,13 +243,18 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Project not found" });
     }
 
-    // Check permissions - only company admin or project creator can update
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && project.createdBy.toString() !== user._id.toString()) {
+    // Check permissions - project owners/maintainers or users with project:update
+    if (!(await canOnProject(req, project, "update"))) {
       return res.status(403).json({ message: "Insufficient permissions to update this project" });
     }
 
     // Handle member updates
+    let addedMembers: IUser[] = [];
     if (updates.memberIds) {
+      if (!(await canOnProject(req, project, "manage_members"))) {
+        return res.status(403).json({ message: "Insufficient permissions to modify project members" });
+      }
+
       const members = await User.find({
         _id: { $in: updates.memberIds },
         company: user.company
@@ -219,7 +264,18 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
         return res.status(400).json({ message: "Some members not found or not in the same company" });
       }
 
+      // Dropping an owner follows the same rules as DELETE /:id/members/:userId
+      const memberIdSet = new Set(members.map(member => String(member._id)));
+      const dropsOwner = getMemberRoles(project).some((entry) => entry.role === "owner" && !memberIdSet.has(String(entry.user)));
+      if (dropsOwner && !(await canGrantOwner(req, project))) {
+        return res.status(403).json({ message: "Only project owners can remove owners" });
+      }
+
       updates.members = members.map(member => member._id);
+      if (!(await syncMemberRoles(project, updates.members))) {
+        return res.status(400).json({ message: "A project must keep at least one owner" });
+      }
+      addedMembers = members;
       delete updates.memberIds;
     }
 
@@ -234,11 +290,27 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
       .populate({
         path: "tasks",
         populate: {
-          path: "assignee.id",
+          path: "assignees.id",
           select: "name avatarUrl"
         }
       });
 
+    if (addedMembers.length > 0) {
+      await emitMembersAdded(req, project, addedMembers);
+    }
+    if (updatedProject && updatedProject.status === "completed" && project.status !== "completed") {
+      await emitWebhookEvent(project.company, "project.completed", {
+        project: {
+          id: String(updatedProject._id),
+          name: updatedProject.name,
+          dueDate: updatedProject.dueDate,
+          progress: updatedProject.progress,
+          taskCount: updatedProject.tasks.length
+        },
+        completedBy: String(user._id)
+      });
+    }
+
     res.json(updatedProject);
   } catch (error) {
     console.error("Error updating project:", error);
@@ -249,7 +321,7 @@ export const updateProject = async (req: AuthRequest, res: Response) => {
 /**
  * Delete a project
  * @route DELETE /api/projects/:id
- * @access Private - Company Admin/Project Creator
+ * @access Private - project:delete or project owner
  */
 export const deleteProject = async (req: AuthRequest, res: Response) => {
   try {
@@ -265,15 +337,16 @@ export const deleteProject = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Project not found" });
     }
 
-    // Check permissions - only company admin or project creator can delete
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && project.createdBy.toString() !== user._id.toString()) {
+    // Check permissions - only project owners or users with project:delete can delete
+    if (!(await canOnProject(req, project, "delete"))) {
       return res.status(403).json({ message: "Insufficient permissions to delete this project" });
     }
 
-    // Remove project reference from all associated tasks
+    // Remove project reference from all associated tasks; custom statuses fall back to the
+    // built-in workflow status of the same category
     await Task.updateMany(
       { "project.id": id },
-      { $unset: { project: 1 } }
+      [{ $set: { status: "$statusCategory" } }, { $unset: "project" }]
     );
 
     await Project.findByIdAndDelete(id);
@@ -286,14 +359,14 @@ export const deleteProject = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * Get all tasks for a specific project
+ * Get all tasks for a specific project (?include=dependencies adds the blocking graph)
  * @route GET /api/projects/:id/tasks
  * @access Private - Company Admin/Employee
  */
 export const getProjectTasks = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { status, assignee, priority } = req.query;
+    const { status, assignee, priority, include } = req.query;
     const user = req.user;
 
     if (!user) {
@@ -313,14 +386,19 @@ export const getProjectTasks = async (req: AuthRequest, res: Response) => {
     };
 
     if (status) filter.status = status;
-    if (assignee) filter["assignee.id"] = assignee;
+    if (assignee) filter["assignees.id"] = assignee;
     if (priority) filter.priority = priority;
 
     const tasks = await Task.find(filter)
       .sort({ createdAt: -1 })
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("createdBy", "name email");
 
+    if (include === "dependencies") {
+      const dependencies = await buildDependencyGraph(tasks, user.company);
+      return res.json({ tasks, dependencies });
+    }
+
     res.json({ tasks });
   } catch (error) {
     console.error("Error fetching project tasks:", error);
@@ -331,12 +409,12 @@ export const getProjectTasks = async (req: AuthRequest, res: Response) => {
 /**
  * Add members to a project
  * @route POST /api/projects/:id/members
- * @access Private - Company Admin/Project Creator
+ * @access Private - project:manage_members or project owner/maintainer
  */
 export const addProjectMembers = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { memberIds } = req.body;
+    const { memberIds, role = "contributor" } = req.body;
     const user = req.user;
 
     if (!user) {
@@ -349,9 +427,12 @@ export const addProjectMembers = async (req: AuthRequest, res: Response) => {
     }
 
     // Check permissions
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && project.createdBy.toString() !== user._id.toString()) {
+    if (!(await canOnProject(req, project, "manage_members"))) {
       return res.status(403).json({ message: "Insufficient permissions to modify project members" });
     }
+    if (role === "owner" && !(await canGrantOwner(req, project))) {
+      return res.status(403).json({ message: "Only project owners can add owners" });
+    }
 
     // Verify all members exist and belong to the same company
     const members = await User.find({
@@ -364,14 +445,20 @@ export const addProjectMembers = async (req: AuthRequest, res: Response) => {
     }
 
     // Add members to project (using $addToSet to avoid duplicates)
-    const updatedProject = await Project.findByIdAndUpdate(
-      id,
-      { $addToSet: { members: { $each: memberIds } } },
-      { new: true }
-    )
+    await Project.updateOne({ _id: id }, { $addToSet: { members: { $each: memberIds } } });
+
+    // Existing members keep their role; newcomers get the requested one
+    await ensureMemberRoles(project);
+    for (const memberId of memberIds) {
+      await addMemberRole(project._id, memberId, role);
+    }
+
+    const updatedProject = await Project.findById(id)
       .populate("members", "name email avatarUrl jobTitle")
       .populate("createdBy", "name email");
 
+    await emitMembersAdded(req, project, members);
+
     res.json(updatedProject);
   } catch (error) {
     console.error("Error adding project members:", error);
@@ -382,7 +469,7 @@ export const addProjectMembers = async (req: AuthRequest, res: Response) => {
 /**
  * Remove a member from a project
  * @route DELETE /api/projects/:id/members/:userId
- * @access Private - Company Admin/Project Creator
+ * @access Private - project:manage_members or project owner/maintainer
  */
 export const removeProjectMember = async (req: AuthRequest, res: Response) => {
   try {
@@ -399,14 +486,24 @@ export const removeProjectMember = async (req: AuthRequest, res: Response) => {
     }
 
     // Check permissions
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && project.createdBy.toString() !== user._id.toString()) {
+    if (!(await canOnProject(req, project, "manage_members"))) {
       return res.status(403).json({ message: "Insufficient permissions to modify project members" });
     }
 
-    // Remove member from project
-    await Project.findByIdAndUpdate(id, {
-      $pull: { members: userId }
-    });
+    const isOwner = getProjectRole(project, userId) === "owner";
+    if (isOwner && !(await canGrantOwner(req, project))) {
+      return res.status(403).json({ message: "Only project owners can remove owners" });
+    }
+
+    // Remove member from project; an owner only while another owner remains
+    await ensureMemberRoles(project);
+    const removed = await Project.updateOne(
+      { _id: id, ...(isOwner ? keepsAnotherOwner(userId) : {}) },
+      { $pull: { members: userId, memberRoles: { user: userId } } }
+    );
+    if (removed.matchedCount === 0) {
+      return res.status(400).json({ message: "A project must keep at least one owner" });
+    }
 
     res.json({ message: "Member removed successfully" });
   } catch (error) {
@@ -414,3 +511,250 @@ export const removeProjectMember = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ message: "Internal server error" });
   }
 };
+
+/**
+ * Change a member's role in a project
+ * @route PATCH /api/projects/:id/members/:userId/role
+ * @access Private - project:manage_members or project owner/maintainer
+ */
+export const updateProjectMemberRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+    const role: ProjectRole = req.body.role;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const project = await Project.findOne({ _id: id, company: user.company });
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+
+    if (!(await canOnProject(req, project, "manage_members"))) {
+      return res.status(403).json({ message: "Insufficient permissions to modify project members" });
+    }
+
+    const currentRole = getProjectRole(project, userId);
+    if (!currentRole) {
+      return res.status(404).json({ message: "User is not a member of this project" });
+    }
+
+    // Only owners may promote to or demote from owner
+    if ((role === "owner" || currentRole === "owner") && !(await canGrantOwner(req, project))) {
+      return res.status(403).json({ message: "Only project owners can change ownership" });
+    }
+
+    // Update the entry in place; demoting an owner only while another owner remains
+    await ensureMemberRoles(project);
+    const demotesOwner = currentRole === "owner" && role !== "owner";
+    const updated = await Project.updateOne(
+      { _id: project._id, "memberRoles.user": userId, ...(demotesOwner ? keepsAnotherOwner(userId) : {}) },
+      { $set: { "memberRoles.$[entry].role": role } },
+      { arrayFilters: [{ "entry.user": userId }] }
+    );
+    if (updated.matchedCount === 0) {
+      if (demotesOwner) {
+        return res.status(400).json({ message: "A project must keep at least one owner" });
+      }
+      // Members without an explicit entry are contributors until given a role
+      const added = await addMemberRole(project._id, userId, role);
+      if (added.matchedCount === 0) {
+        return res.status(409).json({ message: "The member's role changed concurrently, please retry" });
+      }
+    }
+
+    res.json({
+      message: "Project role updated successfully",
+      projectId: String(project._id),
+      userId,
+      role
+    });
+  } catch (error) {
+    console.error("Error updating project member role:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Activity feed of all tasks in a project (including tasks moved out or deleted since)
+ * @route GET /api/projects/:id/activity
+ * @access Private - Company Admin/Employee
+ */
+export const getProjectActivity = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 50 } = req.query;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const project = await Project.findOne({ _id: id, company: user.company }).select("_id");
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+
+    const filter = { projects: project._id, company: user.company };
+    const skip = (Number(page) - 1) * Number(limit);
+    const [activity, total] = await Promise.all([
+      TaskActivity.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate("actor", "name email avatarUrl"),
+      TaskActivity.countDocuments(filter)
+    ]);
+
+    res.json({
+      activity: activity.map(serializeTaskActivity),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching project activity:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Get a project's task workflow (the built-in one when none is configured)
+ * @route GET /api/projects/:id/workflow
+ * @access Private - Company Admin/Employee
+ */
+export const getProjectWorkflow = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const project = await Project.findOne({ _id: id, company: user.company }).select("workflow");
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+
+    res.json({ workflow: getWorkflow(project), isDefault: !project.workflow?.statuses?.length });
+  } catch (error) {
+    console.error("Error fetching project workflow:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Replace a project's task workflow. Tasks in a status that no longer exists must be
+ * moved with statusMap ({ oldKey: newKey }); categories of all tasks are refreshed.
+ * @route PUT /api/projects/:id/workflow
+ * @access Private - project:update or project owner/maintainer
+ */
+export const updateProjectWorkflow = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { statuses, transitions, statusMap = {} } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const project = await Project.findOne({ _id: id, company: user.company });
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+
+    if (!(await canOnProject(req, project, "update"))) {
+      return res.status(403).json({ message: "Insufficient permissions to update this project" });
+    }
+
+    const workflow = { statuses, transitions };
+    const workflowError = validateWorkflow(workflow);
+    if (workflowError) {
+      return res.status(400).json({ message: workflowError });
+    }
+
+    // Every status still used by a task must survive or be mapped onto a new one
+    const keys = new Set<string>(statuses.map((s: any) => s.key));
+    const usedStatuses: string[] = await Task.distinct("status", { "project.id": project._id });
+    const unmapped = usedStatuses.filter((key) => !keys.has(key) && !keys.has(statusMap[key]));
+    if (unmapped.length > 0) {
+      return res.status(409).json({
+        message: "Some tasks use statuses missing from the new workflow; map them with statusMap",
+        unmappedStatuses: unmapped
+      });
+    }
+
+    for (const key of usedStatuses.filter((key) => !keys.has(key))) {
+      await Task.updateMany({ "project.id": project._id, status: key }, { $set: { status: statusMap[key] } });
+    }
+    for (const status of statuses) {
+      await Task.updateMany(
+        { "project.id": project._id, status: status.key },
+        { $set: { statusCategory: categoryOf(workflow, status.key) } }
+      );
+    }
+
+    project.workflow = workflow;
+    await project.save();
+
+    res.json({ message: "Workflow updated successfully", workflow: getWorkflow(project) });
+  } catch (error) {
+    console.error("Error updating project workflow:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Kanban board: one column per workflow status with its tasks in rank order
+ * @route GET /api/projects/:id/board
+ * @access Private - Company Admin/Employee
+ */
+export const getProjectBoard = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { assignee, priority } = req.query;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const project = await Project.findOne({ _id: id, company: user.company }).select("name workflow");
+    if (!project) {
+      return res.status(404).json({ message: "Project not found" });
+    }
+
+    const filter: any = { "project.id": project._id, company: user.company };
+    if (assignee) filter["assignees.id"] = assignee;
+    if (priority) filter.priority = priority;
+
+    // Unranked (legacy) tasks sort first, by creation date
+    const tasks = await Task.find(filter)
+      .sort({ rank: 1, createdAt: 1 })
+      .populate("assignees.id", "name email avatarUrl");
+
+    const workflow = getWorkflow(project);
+    const columns = workflow.statuses.map((status) => ({ ...status, tasks: [] as any[] }));
+    for (const task of tasks) {
+      // Tasks left in a status the workflow no longer has show up in the closest column
+      const key = mapStatusInto(workflow, task.status, task.statusCategory);
+      columns.find((column) => column.key === key)?.tasks.push(task);
+    }
+
+    res.json({
+      project: { id: String(project._id), name: project.name },
+      columns,
+      transitions: workflow.transitions
+    });
+  } catch (error) {
+    console.error("Error fetching project board:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
@@ -0,0 +1,145 @@
+import { Response } from "express";
+import Task from "../models/Task";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { buildRecurrenceRule } from "../utils/recurringTasks";
+import { findCompanyTask } from "../utils/taskAccess";
+
+/**
+ * Recurrence Controller
+ * Series of recurring tasks. Only the latest occurrence (the head) carries the rule;
+ * editing or stopping the series through any occurrence acts on the head.
+ */
+
+const SUMMARY_FIELDS = "title status statusCategory dueDate assignees occurrence recurrence";
+
+// The occurrence currently holding the rule, if the series is still running
+const findSeriesHead = (task: any) => {
+  if (task.recurrence?.frequency) return task;
+  if (!task.seriesId) return null;
+  return Task.findOne({ seriesId: task.seriesId, company: task.company, "recurrence.frequency": { $exists: true } });
+};
+
+/**
+ * Rule and occurrences of the series a task belongs to
+ * @route GET /api/tasks/:id/recurrence
+ * @access Private - Company Admin/Employee
+ */
+export const getTaskRecurrence = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const head = await findSeriesHead(task);
+    const occurrences = task.seriesId
+      ? await Task.find({ seriesId: task.seriesId, company: user.company }).sort({ occurrence: 1 }).select(SUMMARY_FIELDS)
+      : [];
+
+    res.json({
+      seriesId: task.seriesId ?? null,
+      occurrence: task.occurrence ?? null,
+      rule: head?.recurrence ?? null,
+      head: head ? head._id : null,
+      active: !!head,
+      occurrences
+    });
+  } catch (error) {
+    console.error("Error fetching task recurrence:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Make a task recurring, or change the rule of its running series
+ * @route PUT /api/tasks/:id/recurrence
+ * @access Private - task:update or task creator
+ */
+export const setTaskRecurrence = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await hasPermission(req, "task:update")) && task.createdBy.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Insufficient permissions to update this task" });
+    }
+
+    // A stopped series restarts from the task it is set on
+    const target = (await findSeriesHead(task)) ?? task;
+    const rule = buildRecurrenceRule(req.body, target.dueDate);
+    if (rule.until && rule.until.getTime() <= target.dueDate.getTime()) {
+      return res.status(400).json({ message: "The series must end after the current occurrence is due" });
+    }
+    if (rule.count && rule.count <= (target.occurrence ?? 1)) {
+      return res.status(400).json({ message: `The series already has ${target.occurrence ?? 1} occurrences` });
+    }
+
+    const updated = await Task.findByIdAndUpdate(
+      target._id,
+      {
+        $set: {
+          recurrence: rule,
+          seriesId: target.seriesId ?? target._id,
+          occurrence: target.occurrence ?? 1
+        }
+      },
+      { new: true }
+    ).select(SUMMARY_FIELDS + " seriesId");
+
+    res.json(updated);
+  } catch (error) {
+    console.error("Error updating task recurrence:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Stop a series; existing occurrences are kept
+ * @route DELETE /api/tasks/:id/recurrence
+ * @access Private - task:update or task creator
+ */
+export const stopTaskRecurrence = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await hasPermission(req, "task:update")) && task.createdBy.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Insufficient permissions to update this task" });
+    }
+
+    const head = await findSeriesHead(task);
+    if (!head) {
+      return res.status(404).json({ message: "This task is not part of a running series" });
+    }
+
+    await Task.updateOne({ _id: head._id }, { $unset: { recurrence: 1 } });
+
+    res.json({ message: "Recurrence stopped" });
+  } catch (error) {
+    console.error("Error stopping task recurrence:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
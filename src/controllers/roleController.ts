@@ -0,0 +1,265 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Role from "../models/Role";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { getPermissions } from "../middleware/permissionMiddleware";
+import { recordAudit } from "../utils/auditLog";
+import { PERMISSIONS, ROLE_PERMISSIONS, FULL_ACCESS_ROLES } from "../utils/permissions";
+
+/**
+ * Role Controller
+ * Companies define custom roles (named permission sets) and assign them to employees and members
+ */
+
+const serializeRole = (role: any) => ({
+  id: String(role._id),
+  name: role.name,
+  description: role.description ?? null,
+  permissions: role.permissions,
+  company: String(role.company),
+  createdAt: role.createdAt,
+  updatedAt: role.updatedAt
+});
+
+const isDuplicateKeyError = (error: any) => error?.code === 11000;
+
+// Role managers can only hand out permissions they hold themselves
+const ungrantable = async (req: Request, permissions: string[]): Promise<string[]> => {
+  const granted = await getPermissions(req);
+  return permissions.filter((permission) => !granted.has(permission as any));
+};
+
+/**
+ * List every permission and the built-in role defaults
+ * @route GET /api/company/permissions
+ * @access Private
+ */
+export const listPermissions = async (req: Request, res: Response) => {
+  res.json({
+    permissions: PERMISSIONS,
+    builtInRoles: ROLE_PERMISSIONS
+  });
+};
+
+/**
+ * List a company's custom roles
+ * @route GET /api/company/:companyId/roles
+ * @access Private - company:manage_roles
+ */
+export const listRoles = async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const roles = await Role.find({ company: companyId }).sort({ name: 1 });
+
+    res.json({
+      message: "Roles retrieved successfully",
+      roles: roles.map(serializeRole)
+    });
+  } catch (error) {
+    console.error("Error listing roles:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Create a custom role
+ * @route POST /api/company/:companyId/roles
+ * @access Private - company:manage_roles
+ */
+export const createRole = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId } = req.params;
+    const { name, description, permissions } = req.body;
+
+    const missing = await ungrantable(req, permissions);
+    if (missing.length > 0) {
+      return res.status(403).json({ message: "Cannot grant permissions you do not have", missing });
+    }
+
+    const role = await Role.create({
+      name,
+      description,
+      permissions: [...new Set(permissions)],
+      company: companyId,
+      createdBy: user?._id
+    });
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "role",
+      entityId: role._id,
+      action: "create_role",
+      changes: { name, permissions: role.permissions },
+      req
+    });
+
+    res.status(201).json({
+      message: "Role created successfully",
+      role: serializeRole(role)
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ message: "A role with this name already exists" });
+    }
+    console.error("Error creating role:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Update a custom role (takes effect on the members' next request)
+ * @route PUT /api/company/:companyId/roles/:roleId
+ * @access Private - company:manage_roles
+ */
+export const updateRole = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, roleId } = req.params;
+    const { name, description, permissions } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(roleId)) {
+      return res.status(400).json({ message: "Invalid role ID" });
+    }
+
+    const role = await Role.findOne({ _id: roleId, company: companyId });
+    if (!role) {
+      return res.status(404).json({ message: "Role not found" });
+    }
+
+    if (permissions !== undefined) {
+      const missing = await ungrantable(req, permissions);
+      if (missing.length > 0) {
+        return res.status(403).json({ message: "Cannot grant permissions you do not have", missing });
+      }
+    }
+
+    if (name !== undefined) role.name = name;
+    if (description !== undefined) role.description = description;
+    if (permissions !== undefined) role.permissions = [...new Set(permissions)] as any;
+    await role.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "role",
+      entityId: role._id,
+      action: "update_role",
+      changes: req.body,
+      req
+    });
+
+    res.json({
+      message: "Role updated successfully",
+      role: serializeRole(role)
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ message: "A role with this name already exists" });
+    }
+    console.error("Error updating role:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Delete a custom role; its users fall back to their built-in role's defaults
+ * @route DELETE /api/company/:companyId/roles/:roleId
+ * @access Private - company:manage_roles
+ */
+export const deleteRole = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, roleId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(roleId)) {
+      return res.status(400).json({ message: "Invalid role ID" });
+    }
+
+    const role = await Role.findOneAndDelete({ _id: roleId, company: companyId });
+    if (!role) {
+      return res.status(404).json({ message: "Role not found" });
+    }
+
+    const unassigned = await User.updateMany({ customRole: role._id }, { $unset: { customRole: 1 } });
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "role",
+      entityId: role._id,
+      action: "delete_role",
+      changes: { name: role.name, unassignedUsers: unassigned.modifiedCount },
+      req
+    });
+
+    res.json({ message: "Role deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Assign a custom role to a user, or clear it with customRoleId: null
+ * @route PUT /api/company/:companyId/users/:userId/role
+ * @access Private - company:manage_roles
+ */
+export const assignRole = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId, userId } = req.params;
+    const { customRoleId } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    if (String(userId) === String(user?._id)) {
+      return res.status(403).json({ message: "You cannot change your own role" });
+    }
+
+    const target = await User.findOne({ _id: userId, company: companyId });
+    if (!target) {
+      return res.status(404).json({ message: "User not found in this company" });
+    }
+    if (FULL_ACCESS_ROLES.includes(target.role as any)) {
+      return res.status(400).json({ message: "Company admins already have every permission" });
+    }
+
+    if (customRoleId) {
+      if (!mongoose.Types.ObjectId.isValid(customRoleId)) {
+        return res.status(400).json({ message: "Invalid role ID" });
+      }
+      const role = await Role.findOne({ _id: customRoleId, company: companyId }).select("permissions");
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      const missing = await ungrantable(req, role.permissions);
+      if (missing.length > 0) {
+        return res.status(403).json({ message: "Cannot assign a role with permissions you do not have", missing });
+      }
+      target.customRole = role._id as any;
+    } else {
+      target.customRole = undefined;
+    }
+    await target.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "user",
+      entityId: target._id,
+      action: "assign_role",
+      changes: { customRole: customRoleId ?? null },
+      req
+    });
+
+    res.json({
+      message: customRoleId ? "Role assigned successfully" : "Custom role removed",
+      userId: String(target._id),
+      customRoleId: customRoleId ?? null
+    });
+  } catch (error) {
+    console.error("Error assigning role:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
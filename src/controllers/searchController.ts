@@ -0,0 +1,208 @@
+import { Response } from "express";
+import Task from "../models/Task";
+import Project from "../models/Project";
+import User from "../models/User";
+import Channel from "../models/Channel";
+import Message from "../models/Message";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { SEARCH_TYPES } from "../utils/validationSchemas";
+import { highlightSnippet, searchTerms } from "../utils/searchHighlight";
+
+/**
+ * Search Controller
+ * One query over tasks, projects, the company directory and the user's chat messages.
+ * Every collection is filtered by the caller's company before the text match runs.
+ */
+
+type SearchType = typeof SEARCH_TYPES[number];
+
+interface SearchHit {
+  type: SearchType;
+  id: string;
+  title: string;
+  snippet: string;
+  score: number;
+  [key: string]: any;
+}
+
+// Text scores are comparable across collections (each primary field has weight 10);
+// chat messages are short and plentiful, so they rank a little lower
+const TYPE_WEIGHTS: Record<SearchType, number> = { task: 1, project: 1, user: 1, message: 0.8 };
+
+const textMatch = (q: string) => ({ $text: { $search: q } });
+const byScore = { score: { $meta: "textScore" } } as const;
+
+// A title equal to or starting with the query ranks above body-only matches
+const titleBoost = (title: string, q: string): number => {
+  const normalized = (title || "").toLowerCase();
+  const query = q.toLowerCase();
+  if (normalized === query) return 10;
+  if (normalized.startsWith(query)) return 5;
+  return 0;
+};
+
+const rank = (type: SearchType, textScore: number, title: string, q: string) =>
+  Math.round((textScore * TYPE_WEIGHTS[type] + titleBoost(title, q)) * 1000) / 1000;
+
+/**
+ * Company-scoped filter per type. Messages are further limited to channels the user
+ * participates in, as in GET /api/chat/search.
+ */
+const scopeFilters = async (user: NonNullable<AuthRequest["user"]>): Promise<Record<SearchType, any>> => {
+  const channelIds = await Channel.find({
+    participants: user.id,
+    companyId: user.company,
+    isArchived: false
+  }).distinct("_id");
+
+  return {
+    task: { company: user.company },
+    project: { company: user.company },
+    user: { company: user.company, status: "active", accountType: { $ne: "service" } },
+    message: { companyId: user.company, channelId: { $in: channelIds }, isDeleted: false }
+  };
+};
+
+const searchTasks = async (filter: any, q: string, terms: string[], limit: number): Promise<SearchHit[]> => {
+  const tasks = await Task.find({ ...filter, ...textMatch(q) }, byScore)
+    .sort(byScore)
+    .limit(limit)
+    .select("title description tags status statusCategory priority dueDate project")
+    .lean();
+
+  return tasks.map((task: any) => ({
+    type: "task" as const,
+    id: String(task._id),
+    title: task.title,
+    snippet: highlightSnippet(task.description || (task.tags ?? []).join(", "), terms),
+    score: rank("task", task.score, task.title, q),
+    status: task.status,
+    statusCategory: task.statusCategory,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    tags: task.tags ?? [],
+    project: task.project?.id ? { id: String(task.project.id), name: task.project.name } : null
+  }));
+};
+
+const searchProjects = async (filter: any, q: string, terms: string[], limit: number): Promise<SearchHit[]> => {
+  const projects = await Project.find({ ...filter, ...textMatch(q) }, byScore)
+    .sort(byScore)
+    .limit(limit)
+    .select("name description status dueDate")
+    .lean();
+
+  return projects.map((project: any) => ({
+    type: "project" as const,
+    id: String(project._id),
+    title: project.name,
+    snippet: highlightSnippet(project.description || project.name, terms),
+    score: rank("project", project.score, project.name, q),
+    status: project.status,
+    dueDate: project.dueDate
+  }));
+};
+
+const searchUsers = async (filter: any, q: string, terms: string[], limit: number): Promise<SearchHit[]> => {
+  const users = await User.find({ ...filter, ...textMatch(q) }, byScore)
+    .sort(byScore)
+    .limit(limit)
+    .select("name email jobTitle avatarUrl")
+    .lean();
+
+  return users.map((u: any) => ({
+    type: "user" as const,
+    id: String(u._id),
+    title: u.name,
+    snippet: highlightSnippet([u.jobTitle, u.email].filter(Boolean).join(" · "), terms),
+    score: rank("user", u.score, u.name, q),
+    email: u.email,
+    jobTitle: u.jobTitle ?? null,
+    avatarUrl: u.avatarUrl ?? null
+  }));
+};
+
+const searchMessages = async (filter: any, q: string, terms: string[], limit: number): Promise<SearchHit[]> => {
+  const messages = await Message.find({ ...filter, ...textMatch(q) }, byScore)
+    .sort(byScore)
+    .limit(limit)
+    .populate("senderId", "firstName lastName email avatarUrl")
+    .populate("channelId", "name type")
+    .select("content fileName type senderId channelId createdAt")
+    .lean();
+
+  return messages.map((message: any) => {
+    const sender = message.senderId;
+    const senderName = `${sender?.firstName || ""} ${sender?.lastName || ""}`.trim() || sender?.email;
+    return {
+      type: "message" as const,
+      id: String(message._id),
+      title: message.channelId?.name ?? "",
+      snippet: highlightSnippet(message.content || message.fileName || "", terms),
+      score: rank("message", message.score, "", q),
+      channel: message.channelId ? { id: String(message.channelId._id), name: message.channelId.name, type: message.channelId.type } : null,
+      sender: sender ? { id: String(sender._id), name: senderName, email: sender.email, avatarUrl: sender.avatarUrl } : null,
+      timestamp: message.createdAt
+    };
+  });
+};
+
+const SEARCHERS: Record<SearchType, (filter: any, q: string, terms: string[], limit: number) => Promise<SearchHit[]>> = {
+  task: searchTasks,
+  project: searchProjects,
+  user: searchUsers,
+  message: searchMessages
+};
+
+const COUNTERS: Record<SearchType, (filter: any) => Promise<number>> = {
+  task: (filter) => Task.countDocuments(filter),
+  project: (filter) => Project.countDocuments(filter),
+  user: (filter) => User.countDocuments(filter),
+  message: (filter) => Message.countDocuments(filter)
+};
+
+/**
+ * Search tasks, projects, people and accessible chat messages in one query.
+ * Results of the requested types are merged by relevance; facets count matches of
+ * every type so clients can show per-type tabs.
+ * @route GET /api/search?q=&types=task,project,user,message&limit=
+ * @access Private - Company members
+ */
+export const globalSearch = async (req: AuthRequest, res: Response) => {
+  try {
+    const { q, types, limit = 20 } = req.query as unknown as { q: string; types?: SearchType[]; limit?: number };
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+    if (!user.company) {
+      return res.status(403).json({ message: "User must belong to a company" });
+    }
+
+    const selected = types ?? [...SEARCH_TYPES];
+    const filters = await scopeFilters(user);
+    const terms = searchTerms(q);
+
+    const [hits, counts] = await Promise.all([
+      Promise.all(selected.map((type) => SEARCHERS[type](filters[type], q, terms, limit))),
+      Promise.all(SEARCH_TYPES.map((type) => COUNTERS[type]({ ...filters[type], ...textMatch(q) })))
+    ]);
+
+    const results = hits
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    const facets = Object.fromEntries(SEARCH_TYPES.map((type, i) => [type, counts[i]])) as Record<SearchType, number>;
+
+    res.json({
+      query: q,
+      results,
+      facets,
+      total: selected.reduce((sum, type) => sum + facets[type], 0)
+    });
+  } catch (error) {
+    console.error("Error running global search:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
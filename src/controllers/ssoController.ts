@@ -0,0 +1,301 @@
+import { Request, Response } from "express";
+import Company from "../models/Company";
+import SsoConnection from "../models/SsoConnection";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { recordAudit } from "../utils/auditLog";
+import { createLoginCode } from "../utils/authTokens";
+import { resolveRedirectUri, withQuery } from "../utils/authRedirect";
+import {
+  OidcError,
+  discoverProvider,
+  generatePkce,
+  randomState,
+  buildAuthorizationUrl,
+  exchangeCode,
+  verifyIdToken
+} from "../utils/oidc";
+import {
+  SSO_REQUIRED_PLAN,
+  isSsoPlan,
+  findConnectionForEmail,
+  getSsoCallbackUrl,
+  provisionSsoUser,
+  serializeSsoConnection,
+  unverifiedDomains
+} from "../utils/sso";
+
+/**
+ * SSO Controller
+ * Per-company OpenID Connect sign-in (enterprise plan) and its admin configuration
+ */
+
+// Login attempts must come back from the IdP within 10 minutes
+const SSO_STATE_TTL_MS = 10 * 60 * 1000;
+
+interface SsoLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  connectionId: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+const SSO_HANDLER_PATH = "/auth/sso-handler";
+
+const redirectWithError = (res: Response, redirectUri: string, error: string) =>
+  res.redirect(withQuery(redirectUri, { error }));
+
+/**
+ * Get a company's SSO connection
+ * @route GET /api/company/:companyId/sso
+ * @access Private - company:update
+ */
+export const getSsoConnection = async (req: Request, res: Response) => {
+  try {
+    const { companyId } = req.params;
+
+    const connection = await SsoConnection.findOne({ company: companyId });
+    if (!connection) {
+      return res.status(404).json({ message: "Single sign-on is not configured for this company" });
+    }
+
+    res.json({ connection: serializeSsoConnection(connection) });
+  } catch (error) {
+    console.error("Error fetching SSO connection:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Create or update a company's OIDC connection (validated against the issuer's discovery document)
+ * @route PUT /api/company/:companyId/sso
+ * @access Private - company:update, enterprise plan
+ */
+export const upsertSsoConnection = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId } = req.params;
+    const { issuer, clientId, clientSecret, domains, scopes, defaultRole, enabled, disablePasswordLogin } = req.body;
+
+    const company = await Company.findById(companyId).select("subscriptionPlan");
+    if (!company) {
+      return res.status(404).json({ message: "Company not found" });
+    }
+    if (!isSsoPlan(company)) {
+      return res.status(403).json({ message: `Single sign-on requires the ${SSO_REQUIRED_PLAN} plan` });
+    }
+
+    let connection = await SsoConnection.findOne({ company: companyId }).select("+clientSecret");
+    if (!connection && !clientSecret) {
+      return res.status(400).json({ message: "Client secret is required" });
+    }
+
+    const boundDomains = [...new Set<string>(domains.map((d: string) => d.toLowerCase()))];
+    const unverified = await unverifiedDomains(companyId, boundDomains);
+    if (unverified.length > 0) {
+      return res.status(400).json({ message: "Domains must be verified for this company before binding them to SSO", unverified });
+    }
+
+    try {
+      await discoverProvider(issuer, true);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return res.status(400).json({ message: "Issuer discovery failed", details: error.message });
+      }
+      throw error;
+    }
+
+    if (!connection) {
+      connection = new SsoConnection({ company: companyId, createdBy: user?._id });
+    }
+    connection.issuer = issuer.replace(/\/+$/, "");
+    connection.clientId = clientId;
+    if (clientSecret) connection.clientSecret = clientSecret;
+    connection.domains = boundDomains;
+    if (scopes) connection.scopes = [...new Set<string>(["openid", ...scopes])];
+    if (defaultRole) connection.defaultRole = defaultRole;
+    if (typeof enabled === "boolean") connection.enabled = enabled;
+    if (typeof disablePasswordLogin === "boolean") connection.disablePasswordLogin = disablePasswordLogin;
+    connection.updatedBy = user?._id as any;
+    await connection.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "sso_connection",
+      entityId: connection._id,
+      action: "update_sso_connection",
+      changes: { issuer: connection.issuer, clientId, domains: connection.domains, enabled: connection.enabled, disablePasswordLogin: connection.disablePasswordLogin },
+      req
+    });
+
+    res.json({
+      message: "Single sign-on configured successfully",
+      connection: serializeSsoConnection(connection)
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ message: "One of these domains is already bound to another company" });
+    }
+    console.error("Error saving SSO connection:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Remove a company's SSO connection (password login is allowed again)
+ * @route DELETE /api/company/:companyId/sso
+ * @access Private - company:update
+ */
+export const deleteSsoConnection = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { companyId } = req.params;
+
+    const connection = await SsoConnection.findOneAndDelete({ company: companyId });
+    if (!connection) {
+      return res.status(404).json({ message: "Single sign-on is not configured for this company" });
+    }
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "sso_connection",
+      entityId: connection._id,
+      action: "delete_sso_connection",
+      changes: { issuer: connection.issuer, domains: connection.domains },
+      req
+    });
+
+    res.json({ message: "Single sign-on removed successfully" });
+  } catch (error) {
+    console.error("Error deleting SSO connection:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Tell the login form whether an email should sign in through SSO
+ * @route POST /api/auth/sso/discover
+ * @access Public
+ */
+export const discoverSso = async (req: Request, res: Response) => {
+  try {
+    const connection = await findConnectionForEmail(req.body.email);
+    if (!connection) {
+      return res.json({ sso: false });
+    }
+
+    res.json({
+      sso: true,
+      passwordLoginDisabled: connection.disablePasswordLogin,
+      loginUrl: `/api/auth/sso/login?email=${encodeURIComponent(req.body.email)}`
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Start an OIDC login: redirect to the IdP bound to the email's domain
+ * @route GET /api/auth/sso/login?email=&redirectUri=
+ * @access Public
+ */
+export const startSsoLogin = async (req: Request, res: Response) => {
+  const redirectUri = resolveRedirectUri(req.query.redirectUri, SSO_HANDLER_PATH);
+  try {
+    const email = String(req.query.email || "");
+    if (!email.includes("@")) {
+      return res.status(400).json({ message: "A valid email address is required" });
+    }
+
+    const connection = await findConnectionForEmail(email);
+    if (!connection) {
+      return res.status(404).json({ message: "No single sign-on connection for this email domain" });
+    }
+
+    const metadata = await discoverProvider(connection.issuer);
+    const pkce = generatePkce();
+    const loginState: SsoLoginState = {
+      state: randomState(),
+      nonce: randomState(),
+      codeVerifier: pkce.verifier,
+      connectionId: String(connection._id),
+      redirectUri,
+      expiresAt: Date.now() + SSO_STATE_TTL_MS
+    };
+    (req.session as any).ssoLogin = loginState;
+
+    res.redirect(buildAuthorizationUrl(metadata, {
+      clientId: connection.clientId,
+      redirectUri: getSsoCallbackUrl(req),
+      scopes: connection.scopes,
+      state: loginState.state,
+      nonce: loginState.nonce,
+      codeChallenge: pkce.challenge,
+      loginHint: email
+    }));
+  } catch (error) {
+    console.error("SSO login error:", error);
+    redirectWithError(res, redirectUri, error instanceof OidcError ? "idp_unavailable" : "sso_failed");
+  }
+};
+
+/**
+ * Finish an OIDC login: exchange the code, verify the id_token, provision the user and start a session
+ * @route GET /api/auth/sso/callback
+ * @access Public
+ */
+export const ssoCallback = async (req: Request, res: Response) => {
+  const loginState = (req.session as any)?.ssoLogin as SsoLoginState | undefined;
+  const redirectUri = resolveRedirectUri(loginState?.redirectUri, SSO_HANDLER_PATH);
+  if (req.session) delete (req.session as any).ssoLogin;
+
+  try {
+    const { code, state, error } = req.query as Record<string, string | undefined>;
+
+    if (error) {
+      return redirectWithError(res, redirectUri, error);
+    }
+    if (!loginState || !state || state !== loginState.state || loginState.expiresAt < Date.now()) {
+      return redirectWithError(res, redirectUri, "invalid_state");
+    }
+    if (!code) {
+      return redirectWithError(res, redirectUri, "missing_code");
+    }
+
+    const connection = await SsoConnection.findOne({ _id: loginState.connectionId, enabled: true }).select("+clientSecret");
+    const company = connection ? await Company.findById(connection.company).select("subscriptionPlan") : null;
+    if (!connection || !isSsoPlan(company)) {
+      return redirectWithError(res, redirectUri, "sso_disabled");
+    }
+
+    const metadata = await discoverProvider(connection.issuer);
+    const tokens = await exchangeCode(metadata, connection, {
+      code,
+      redirectUri: getSsoCallbackUrl(req),
+      codeVerifier: loginState.codeVerifier
+    });
+    const claims = await verifyIdToken(tokens.id_token, metadata, connection, loginState.nonce);
+
+    const user = await provisionSsoUser(connection, claims, req);
+    if (user.status === "inactive") {
+      return redirectWithError(res, redirectUri, "account_inactive");
+    }
+
+    // 2FA users still need to submit a TOTP code via POST /api/auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      const challengeCode = await createLoginCode(user._id, "two_factor");
+      return res.redirect(withQuery(redirectUri, { twoFactorRequired: "true", challengeCode }));
+    }
+
+    // The frontend trades this one-time code for the session tokens via POST /api/auth/exchange
+    const loginCode = await createLoginCode(user._id);
+    res.redirect(withQuery(redirectUri, { code: loginCode }));
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return redirectWithError(res, redirectUri, error.message);
+    }
+    console.error("SSO callback error:", error);
+    redirectWithError(res, redirectUri, "sso_failed");
+  }
+};
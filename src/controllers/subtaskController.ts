@@ -0,0 +1,244 @@
+import { Response } from "express";
+import Task, { ITask } from "../models/Task";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { canWorkOnTask, findCompanyTask } from "../utils/taskAccess";
+
+/**
+ * Subtask Controller
+ * Ordering of subtasks and the lightweight checklist carried by each task.
+ * Subtasks themselves are regular tasks created/re-parented through parentTaskId.
+ */
+
+// Every current ID exactly once, nothing else
+const isPermutation = (ids: string[], current: string[]) =>
+  ids.length === current.length && new Set(ids).size === ids.length && ids.every((id) => current.includes(id));
+
+const checklistResponse = (task: ITask) => ({
+  checklist: task.checklist,
+  progress: task.progress
+});
+
+/**
+ * List a task's direct subtasks in order
+ * @route GET /api/tasks/:id/subtasks
+ * @access Private - Company Admin/Employee
+ */
+export const getSubtasks = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const subtasks = await Task.find({ parentTask: task._id, company: user.company })
+      .sort({ position: 1, createdAt: 1 })
+      .populate("assignees.id", "name email avatarUrl");
+
+    res.json({ subtasks, subtaskStats: task.subtaskStats, progress: task.progress });
+  } catch (error) {
+    console.error("Error fetching subtasks:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Reorder a task's subtasks
+ * @route PUT /api/tasks/:id/subtasks/order
+ * @access Private - task:update, task creator or assignee
+ */
+export const reorderSubtasks = async (req: AuthRequest, res: Response) => {
+  try {
+    const { ids } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to reorder subtasks" });
+    }
+
+    const current = await Task.find({ parentTask: task._id, company: user.company }).select("_id").lean();
+    if (!isPermutation(ids, current.map((t) => String(t._id)))) {
+      return res.status(400).json({ message: "The order must list every subtask of this task exactly once" });
+    }
+
+    await Task.bulkWrite(ids.map((subtaskId: string, position: number) => ({
+      updateOne: { filter: { _id: subtaskId, parentTask: task._id }, update: { $set: { position } } }
+    })));
+
+    res.json({ message: "Subtasks reordered successfully", ids });
+  } catch (error) {
+    console.error("Error reordering subtasks:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Add a checklist item at the end of the list
+ * @route POST /api/tasks/:id/checklist
+ * @access Private - task:update, task creator or assignee
+ */
+export const addChecklistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { text } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to edit this checklist" });
+    }
+
+    if (task.checklist.length >= 100) {
+      return res.status(400).json({ message: "A checklist can hold at most 100 items" });
+    }
+
+    task.checklist.push({ text, done: false });
+    await task.save();
+
+    res.status(201).json(checklistResponse(task));
+  } catch (error) {
+    console.error("Error adding checklist item:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Rename or toggle a checklist item
+ * @route PATCH /api/tasks/:id/checklist/:itemId
+ * @access Private - task:update, task creator or assignee
+ */
+export const updateChecklistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { itemId } = req.params;
+    const { text, done } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to edit this checklist" });
+    }
+
+    const item = task.checklist.id(itemId);
+    if (!item) {
+      return res.status(404).json({ message: "Checklist item not found" });
+    }
+
+    if (text !== undefined) item.text = text;
+    if (done !== undefined && done !== item.done) {
+      item.done = done;
+      item.doneAt = done ? new Date() : undefined;
+      item.doneBy = done ? (user._id as any) : undefined;
+    }
+    await task.save();
+
+    res.json(checklistResponse(task));
+  } catch (error) {
+    console.error("Error updating checklist item:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Remove a checklist item
+ * @route DELETE /api/tasks/:id/checklist/:itemId
+ * @access Private - task:update, task creator or assignee
+ */
+export const deleteChecklistItem = async (req: AuthRequest, res: Response) => {
+  try {
+    const { itemId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to edit this checklist" });
+    }
+
+    const item = task.checklist.id(itemId);
+    if (!item) {
+      return res.status(404).json({ message: "Checklist item not found" });
+    }
+
+    item.deleteOne();
+    await task.save();
+
+    res.json(checklistResponse(task));
+  } catch (error) {
+    console.error("Error deleting checklist item:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Reorder checklist items
+ * @route PUT /api/tasks/:id/checklist/order
+ * @access Private - task:update, task creator or assignee
+ */
+export const reorderChecklist = async (req: AuthRequest, res: Response) => {
+  try {
+    const { ids } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to edit this checklist" });
+    }
+
+    if (!isPermutation(ids, task.checklist.map((item) => String(item._id)))) {
+      return res.status(400).json({ message: "The order must list every checklist item exactly once" });
+    }
+
+    const byId = new Map(task.checklist.map((item) => [String(item._id), item.toObject()]));
+    task.set("checklist", ids.map((itemId: string) => byId.get(itemId)));
+    await task.save();
+
+    res.json(checklistResponse(task));
+  } catch (error) {
+    console.error("Error reordering checklist:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
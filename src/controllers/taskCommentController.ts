@@ -0,0 +1,244 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import TaskComment, { ITaskComment } from "../models/TaskComment";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { resolveMentions } from "../utils/mentions";
+import { getIO } from "../utils/socketServer";
+import { findCompanyTask, broadcastToTask } from "../utils/taskAccess";
+
+/**
+ * Task Comment Controller
+ * Discussion threads on tasks with @mentions, edit history and realtime updates
+ */
+
+const AUTHOR_FIELDS = "name firstName lastName email avatarUrl";
+
+const serializeComment = (comment: ITaskComment) => {
+  const author = comment.author as any;
+  return {
+    id: String(comment._id),
+    task: String(comment.task),
+    author: author?._id
+      ? {
+          id: String(author._id),
+          name: author.name || `${author.firstName ?? ""} ${author.lastName ?? ""}`.trim() || author.email,
+          email: author.email,
+          avatarUrl: author.avatarUrl ?? null
+        }
+      : { id: String(author) },
+    content: comment.isDeleted ? null : comment.content,
+    mentions: comment.isDeleted ? [] : comment.mentions.map((m: any) => String(m._id ?? m)),
+    history: comment.isDeleted ? [] : comment.history,
+    isEdited: comment.isEdited,
+    editedAt: comment.editedAt ?? null,
+    isDeleted: comment.isDeleted,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt
+  };
+};
+
+// Push a notification to every connected socket of users newly mentioned in a comment
+const notifyMentioned = async (userIds: mongoose.Types.ObjectId[], task: any, comment: any, authorId: string) => {
+  const io = getIO();
+  const recipients = userIds.filter((id) => String(id) !== authorId);
+  if (!io || recipients.length === 0) return;
+
+  const users = await User.find({ _id: { $in: recipients } }).select("socketIds").lean();
+  const socketIds = users.flatMap((u) => u.socketIds ?? []);
+  if (socketIds.length === 0) return;
+
+  io.to(socketIds).emit("task_mention", {
+    task: { id: String(task._id), title: task.title },
+    comment
+  });
+};
+
+/**
+ * List a task's comments, oldest first
+ * @route GET /api/tasks/:id/comments
+ * @access Private - Company users
+ */
+export const getTaskComments = async (req: AuthRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 50 } = req.query;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const [comments, total] = await Promise.all([
+      TaskComment.find({ task: task._id })
+        .sort({ createdAt: 1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate("author", AUTHOR_FIELDS),
+      TaskComment.countDocuments({ task: task._id })
+    ]);
+
+    res.json({
+      comments: comments.map(serializeComment),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching task comments:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Comment on a task
+ * @route POST /api/tasks/:id/comments
+ * @access Private - Company users
+ */
+export const createTaskComment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { content } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const mentions = await resolveMentions(user.company, content);
+    const comment = await TaskComment.create({
+      task: task._id,
+      company: user.company,
+      author: user._id,
+      content,
+      mentions
+    });
+    await comment.populate("author", AUTHOR_FIELDS);
+
+    const payload = serializeComment(comment);
+    broadcastToTask(task._id, "task_comment_created", payload);
+    await notifyMentioned(mentions, task, payload, String(user._id));
+
+    res.status(201).json(payload);
+  } catch (error) {
+    console.error("Error creating task comment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Edit a comment; the previous text is kept in its history
+ * @route PUT /api/tasks/:id/comments/:commentId
+ * @access Private - Comment author
+ */
+export const updateTaskComment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { commentId } = req.params;
+    const { content } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task || !mongoose.Types.ObjectId.isValid(commentId)) {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+
+    const comment = await TaskComment.findOne({ _id: commentId, task: task._id, isDeleted: false });
+    if (!comment) {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+
+    if (comment.author.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only the author can edit this comment" });
+    }
+
+    if (comment.content === content) {
+      await comment.populate("author", AUTHOR_FIELDS);
+      return res.json(serializeComment(comment));
+    }
+
+    const previousMentions = new Set(comment.mentions.map(String));
+    const mentions = await resolveMentions(user.company, content);
+
+    comment.history.push({ content: comment.content, editedAt: new Date() });
+    comment.content = content;
+    comment.mentions = mentions;
+    comment.isEdited = true;
+    comment.editedAt = new Date();
+    await comment.save();
+    await comment.populate("author", AUTHOR_FIELDS);
+
+    const payload = serializeComment(comment);
+    broadcastToTask(task._id, "task_comment_updated", payload);
+    await notifyMentioned(
+      mentions.filter((id) => !previousMentions.has(String(id))),
+      task,
+      payload,
+      String(user._id)
+    );
+
+    res.json(payload);
+  } catch (error) {
+    console.error("Error updating task comment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Delete a comment (soft delete so replies in the thread keep their context)
+ * @route DELETE /api/tasks/:id/comments/:commentId
+ * @access Private - Comment author or task:update
+ */
+export const deleteTaskComment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { commentId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task || !mongoose.Types.ObjectId.isValid(commentId)) {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+
+    const comment = await TaskComment.findOne({ _id: commentId, task: task._id, isDeleted: false });
+    if (!comment) {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+
+    if (comment.author.toString() !== user._id.toString() && !(await hasPermission(req, "task:update"))) {
+      return res.status(403).json({ message: "Insufficient permissions to delete this comment" });
+    }
+
+    comment.isDeleted = true;
+    comment.deletedAt = new Date();
+    comment.deletedBy = user._id as any;
+    await comment.save();
+
+    broadcastToTask(task._id, "task_comment_deleted", { id: String(comment._id), task: String(task._id) });
+
+    res.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting task comment:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
@@ -1,8 +1,46 @@
 import { Response } from "express";
+import { Types } from "mongoose";
 import Task from "../models/Task";
 import Project from "../models/Project";
-import User from "../models/User";
+import TaskComment from "../models/TaskComment";
+import TaskActivity from "../models/TaskActivity";
+import TimeEntry from "../models/TimeEntry";
 import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { canOnProject } from "../utils/projectAccess";
+import { emitWebhookEvent, taskEventData } from "../utils/webhooks";
+import { snapshotTask, recordTaskChanges, recordTaskEvent, serializeTaskActivity } from "../utils/taskActivity";
+import { resolveParentTask, nextSubtaskPosition, rollUpParent } from "../utils/subtasks";
+import { appendRank, columnFilter, rebalanceColumn, emitBoardEvent } from "../utils/board";
+import { rankBetween, MAX_RANK_LENGTH } from "../utils/rank";
+import { BLOCKED_CATEGORIES, findOpenBlockers } from "../utils/dependencies";
+import { buildRecurrenceRule, generateNextOccurrence } from "../utils/recurringTasks";
+import { assigneeSnapshot, resolveCompanyUsers } from "../utils/taskAssignees";
+import { canWorkOnTask } from "../utils/taskAccess";
+import { stopRunningTimers } from "../utils/timeTracking";
+import { removeStoredFiles } from "../utils/fileStorage";
+import {
+  getWorkflow,
+  getTaskWorkflow,
+  findStatus,
+  initialStatus,
+  categoryOf,
+  canTransition,
+  allowedNextStatuses,
+  mapStatusInto
+} from "../utils/workflow";
+
+// 409 with the open blockers unless the caller passed force; returns true when the response was sent
+const rejectIfBlocked = async (res: Response, task: any, category: string, force?: boolean) => {
+  if (force || category === task.statusCategory || !BLOCKED_CATEGORIES.includes(category)) return false;
+  const blockers = await findOpenBlockers(task);
+  if (blockers.length === 0) return false;
+  res.status(409).json({
+    message: "This task is blocked by tasks that are not done yet. Resend with force to move it anyway.",
+    blockers
+  });
+  return true;
+};
 
 /**
  * Task Controller
@@ -18,6 +56,7 @@ export const getAllTasks = async (req: AuthRequest, res: Response) => {
   try {
     const {
       status,
+      statusCategory,
       priority,
       assignee,
       project,
@@ -36,8 +75,9 @@ export const getAllTasks = async (req: AuthRequest, res: Response) => {
     const filter: any = { company: user.company };
 
     if (status) filter.status = status;
+    if (statusCategory) filter.statusCategory = statusCategory;
     if (priority) filter.priority = priority;
-    if (assignee) filter["assignee.id"] = assignee;
+    if (assignee) filter["assignees.id"] = assignee;
     if (project) filter["project.id"] = project;
 
     // Calculate pagination
@@ -52,7 +92,7 @@ export const getAllTasks = async (req: AuthRequest, res: Response) => {
       .sort(sort)
       .skip(skip)
       .limit(Number(limit))
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("project.id", "name")
       .populate("createdBy", "name email");
 
@@ -86,7 +126,7 @@ export const getTaskById = async (req: AuthRequest, res: Response) => {
     }
 
     const task = await Task.findOne({ _id: id, company: user.company })
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("project.id", "name description")
       .populate("createdBy", "name email");
 
@@ -104,59 +144,112 @@ export const getTaskById = async (req: AuthRequest, res: Response) => {
 /**
  * Create a new task
  * @route POST /api/tasks
- * @access Private - Company Admin only
+ * @access Private - task:create, or a contributing role in the task's project
  */
 export const createTask = async (req: AuthRequest, res: Response) => {
   try {
-    const { title, description, assigneeId, dueDate, priority, status, projectId, tags } = req.body;
+    const { title, description, assigneeId, assigneeIds, watcherIds, dueDate, priority, status, projectId, parentTaskId, tags, estimateMinutes, recurrence } = req.body;
     const user = req.user;
 
     if (!user) {
       return res.status(401).json({ message: "User not authenticated" });
     }
 
-    // Check if user has permission to create tasks (company_admin or higher)
-    if (!user.role || !["superadmin", "company_admin"].includes(user.role)) {
+    // Tasks in a project follow the caller's project role; company permissions override
+    const project = projectId ? await Project.findOne({ _id: projectId, company: user.company }) : null;
+    if (projectId && !project) {
+      return res.status(400).json({ message: "Project not found or not in the same company" });
+    }
+
+    const canCreate = project ? await canOnProject(req, project, "create_task") : await hasPermission(req, "task:create");
+    if (!canCreate) {
       return res.status(403).json({ message: "Insufficient permissions to create tasks" });
     }
 
-    // Verify assignee exists and belongs to the same company
-    const assignee = await User.findOne({ _id: assigneeId, company: user.company });
-    if (!assignee) {
-      return res.status(400).json({ message: "Assignee not found or not in the same company" });
+    // Older clients send a single assigneeId
+    const requestedAssignees: string[] = assigneeIds ?? [assigneeId];
+
+    // Assigning to someone else also needs the assign right
+    if (requestedAssignees.some((id) => String(id) !== String(user._id))) {
+      const canAssign = project ? await canOnProject(req, project, "assign_task") : await hasPermission(req, "task:assign");
+      if (!canAssign) {
+        return res.status(403).json({ message: "Insufficient permissions to assign tasks to other users" });
+      }
+    }
+
+    // Verify assignees and watchers exist and belong to the same company
+    const assignees = await resolveCompanyUsers(requestedAssignees, user.company);
+    if (assignees.error) {
+      return res.status(400).json({ message: `Assignees: ${assignees.error}` });
+    }
+    const watchers = await resolveCompanyUsers(watcherIds ?? [], user.company);
+    if (watchers.error) {
+      return res.status(400).json({ message: `Watchers: ${watchers.error}` });
+    }
+
+    // Status comes from the project's workflow (built-in one outside projects)
+    const workflow = getWorkflow(project);
+    const taskStatus = status ?? initialStatus(workflow).key;
+    if (!findStatus(workflow, taskStatus)) {
+      return res.status(400).json({
+        message: `Unknown status "${taskStatus}" for this project's workflow`,
+        allowedStatuses: workflow.statuses.map((s) => s.key)
+      });
+    }
+
+    // Subtasks must hang off a task of the same company
+    const parentCheck = parentTaskId ? await resolveParentTask(parentTaskId, user.company) : null;
+    if (parentCheck?.error) {
+      return res.status(400).json({ message: parentCheck.error });
     }
 
     // Prepare task data
     const taskData: any = {
       title,
       description,
-      assignee: {
-        id: assignee._id,
-        name: assignee.name,
-        avatarUrl: assignee.avatarUrl
-      },
+      assignees: assignees.users.map(assigneeSnapshot),
+      watchers: watchers.users.map((watcher) => watcher._id),
       dueDate: new Date(dueDate),
       priority: priority || "medium",
-      status: status || "todo",
+      status: taskStatus,
+      statusCategory: categoryOf(workflow, taskStatus),
       tags: tags || [],
+      estimateMinutes,
       createdBy: user._id,
       company: user.company
     };
 
-    // If project is specified, verify it exists and add project info
-    if (projectId) {
-      const project = await Project.findOne({ _id: projectId, company: user.company });
-      if (!project) {
-        return res.status(400).json({ message: "Project not found or not in the same company" });
-      }
+    // If project is specified, add project info
+    if (project) {
       taskData.project = {
         id: project._id,
         name: project.name
       };
     }
 
+    if (parentCheck?.parent) {
+      taskData.parentTask = parentCheck.parent._id;
+      taskData.position = await nextSubtaskPosition(parentCheck.parent._id);
+    }
+
+    // New tasks go to the bottom of their board column
+    taskData.rank = await appendRank(user.company, project?._id, taskStatus);
+
     const task = new Task(taskData);
+
+    // A recurring task starts its own series
+    if (recurrence) {
+      task.recurrence = buildRecurrenceRule(recurrence, taskData.dueDate);
+      if (task.recurrence.until && task.recurrence.until.getTime() <= taskData.dueDate.getTime()) {
+        return res.status(400).json({ message: "The series must end after the first occurrence is due" });
+      }
+      task.seriesId = task._id as Types.ObjectId;
+      task.occurrence = 1;
+    }
+
     await task.save();
+    await recordTaskEvent(task, "created", user._id);
+    await rollUpParent(task.parentTask, user._id);
 
     // If task is assigned to a project, add it to the project's tasks array
     if (projectId) {
@@ -166,10 +259,14 @@ export const createTask = async (req: AuthRequest, res: Response) => {
     }
 
     // Populate the response
-    await task.populate("assignee.id", "name email avatarUrl");
+    await task.populate("assignees.id", "name email avatarUrl");
     await task.populate("project.id", "name");
     await task.populate("createdBy", "name email");
 
+    await emitWebhookEvent(user.company, "task.created", { task: taskEventData(task) });
+
+    emitBoardEvent(task.project?.id, "board_task_created", task);
+
     res.status(201).json(task);
   } catch (error) {
     console.error("Error creating task:", error);
@@ -198,32 +295,94 @@ export const updateTask = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Task not found" });
     }
 
-    // Check permissions - only company admin or task creator can update
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && task.createdBy.toString() !== user._id.toString()) {
+    // Check permissions - only users with task:update or the task creator can update
+    if (!(await hasPermission(req, "task:update")) && task.createdBy.toString() !== user._id.toString()) {
       return res.status(403).json({ message: "Insufficient permissions to update this task" });
     }
 
-    // Handle assignee update
-    if (updates.assigneeId) {
-      const assignee = await User.findOne({ _id: updates.assigneeId, company: user.company });
-      if (!assignee) {
-        return res.status(400).json({ message: "Assignee not found or not in the same company" });
+    // Handle assignee update (assigneeIds replaces the list; older clients send a single assigneeId)
+    const assigneeIds: string[] | undefined = updates.assigneeIds ?? (updates.assigneeId ? [updates.assigneeId] : undefined);
+    if (assigneeIds) {
+      const currentProject = task.project?.id ? await Project.findById(task.project.id) : null;
+      const canAssign = currentProject
+        ? await canOnProject(req, currentProject, "assign_task")
+        : await hasPermission(req, "task:assign");
+      if (!canAssign) {
+        return res.status(403).json({ message: "Insufficient permissions to reassign this task" });
       }
-      updates.assignee = {
-        id: assignee._id,
-        name: assignee.name,
-        avatarUrl: assignee.avatarUrl
-      };
-      delete updates.assigneeId;
+      const { users, error } = await resolveCompanyUsers(assigneeIds, user.company);
+      if (error) {
+        return res.status(400).json({ message: `Assignees: ${error}` });
+      }
+      updates.assignees = users.map(assigneeSnapshot);
+    }
+    delete updates.assigneeIds;
+    delete updates.assigneeId;
+
+    // Handle watcher update (replaces the list)
+    if (updates.watcherIds) {
+      const { users, error } = await resolveCompanyUsers(updates.watcherIds, user.company);
+      if (error) {
+        return res.status(400).json({ message: `Watchers: ${error}` });
+      }
+      updates.watchers = users.map((watcher) => watcher._id);
+      delete updates.watcherIds;
     }
 
     // Handle project update
+    const newProject = updates.projectId
+      ? await Project.findOne({ _id: updates.projectId, company: user.company })
+      : null;
     if (updates.projectId) {
-      const project = await Project.findOne({ _id: updates.projectId, company: user.company });
-      if (!project) {
+      if (!newProject) {
         return res.status(400).json({ message: "Project not found or not in the same company" });
       }
-      
+      if (!(await canOnProject(req, newProject, "create_task"))) {
+        return res.status(403).json({ message: "Insufficient permissions to add tasks to this project" });
+      }
+    }
+
+    // Status must exist in the (new) project's workflow; transitions apply within a project
+    const movesProject = !!newProject && String(newProject._id) !== String(task.project?.id ?? "");
+    const workflow = newProject ? getWorkflow(newProject) : await getTaskWorkflow(task);
+    if (updates.status !== undefined) {
+      if (!findStatus(workflow, updates.status)) {
+        return res.status(400).json({
+          message: `Unknown status "${updates.status}" for this project's workflow`,
+          allowedStatuses: workflow.statuses.map((s) => s.key)
+        });
+      }
+      if (!movesProject && !canTransition(workflow, task.status, updates.status)) {
+        return res.status(400).json({
+          message: `Moving from "${task.status}" to "${updates.status}" is not allowed by the workflow`,
+          allowedStatuses: allowedNextStatuses(workflow, task.status)
+        });
+      }
+    } else if (movesProject) {
+      updates.status = mapStatusInto(workflow, task.status, task.statusCategory);
+    }
+    if (updates.status !== undefined) {
+      updates.statusCategory = categoryOf(workflow, updates.status);
+      if (await rejectIfBlocked(res, task, updates.statusCategory, updates.force)) return;
+    }
+    delete updates.force;
+
+    // Handle re-parenting (null detaches a subtask)
+    if (updates.parentTaskId !== undefined) {
+      if (updates.parentTaskId === null) {
+        updates.parentTask = null;
+      } else if (String(updates.parentTaskId) !== String(task.parentTask)) {
+        const { parent, error } = await resolveParentTask(updates.parentTaskId, user.company, task._id);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+        updates.parentTask = parent._id;
+        updates.position = await nextSubtaskPosition(parent._id);
+      }
+      delete updates.parentTaskId;
+    }
+
+    if (newProject) {
       // Remove task from old project if it exists
       if (task.project?.id) {
         await Project.findByIdAndUpdate(task.project.id, {
@@ -232,13 +391,16 @@ export const updateTask = async (req: AuthRequest, res: Response) => {
       }
       
       // Add task to new project
-      await Project.findByIdAndUpdate(updates.projectId, {
+      await Project.findByIdAndUpdate(newProject._id, {
         $addToSet: { tasks: task._id }
       });
+
+      // Logged time follows the task into the new project's reports
+      await TimeEntry.updateMany({ task: task._id }, { $set: { project: newProject._id } });
       
       updates.project = {
-        id: project._id,
-        name: project.name
+        id: newProject._id,
+        name: newProject.name
       };
       delete updates.projectId;
     }
@@ -248,11 +410,49 @@ export const updateTask = async (req: AuthRequest, res: Response) => {
       updates.dueDate = new Date(updates.dueDate);
     }
 
+    // Changing column puts the task at its bottom
+    if (movesProject || (updates.status !== undefined && updates.status !== task.status)) {
+      updates.rank = await appendRank(user.company, newProject?._id ?? task.project?.id, updates.status ?? task.status, task._id);
+    }
+
+    const before = snapshotTask(task);
     const updatedTask = await Task.findByIdAndUpdate(id, updates, { new: true })
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("project.id", "name")
       .populate("createdBy", "name email");
 
+    if (updatedTask) {
+      await recordTaskChanges(before, updatedTask, user._id);
+    }
+
+    if (updatedTask && updatedTask.status !== task.status) {
+      await emitWebhookEvent(user.company, "task.status_changed", {
+        task: taskEventData(updatedTask),
+        previousStatus: task.status
+      });
+    }
+
+    // Keep the old and new parent's roll-up in sync
+    if (updatedTask) {
+      const parentChanged = String(updatedTask.parentTask ?? "") !== String(task.parentTask ?? "");
+      if (parentChanged) {
+        await rollUpParent(task.parentTask, user._id);
+      }
+      if (parentChanged || updatedTask.status !== task.status) {
+        await rollUpParent(updatedTask.parentTask, user._id);
+      }
+
+      emitBoardEvent(updatedTask.project?.id, "board_task_updated", updatedTask);
+      if (movesProject) {
+        emitBoardEvent(task.project?.id, "board_task_removed", { id: String(task._id) });
+      }
+    }
+
+    // Completing a recurring task schedules the next one
+    if (updatedTask && updatedTask.statusCategory === "done" && task.statusCategory !== "done") {
+      await generateNextOccurrence(updatedTask, user._id);
+    }
+
     res.json(updatedTask);
   } catch (error) {
     console.error("Error updating task:", error);
@@ -268,7 +468,7 @@ export const updateTask = async (req: AuthRequest, res: Response) => {
 export const updateTaskStatus = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, force } = req.body;
     const user = req.user;
 
     if (!user) {
@@ -280,24 +480,60 @@ export const updateTaskStatus = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Task not found" });
     }
 
-    // Allow assignee to update status, or company admin/creator
-    const canUpdate = (user.role && ["superadmin", "company_admin"].includes(user.role)) ||
-                     task.createdBy.toString() === user._id.toString() ||
-                     task.assignee.id.toString() === user._id.toString();
-
-    if (!canUpdate) {
+    // Allow assignees to update status, or users with task:update/creator
+    if (!(await canWorkOnTask(req, task))) {
       return res.status(403).json({ message: "Insufficient permissions to update task status" });
     }
 
+    const workflow = await getTaskWorkflow(task);
+    if (!findStatus(workflow, status)) {
+      return res.status(400).json({
+        message: `Unknown status "${status}" for this project's workflow`,
+        allowedStatuses: workflow.statuses.map((s) => s.key)
+      });
+    }
+    if (!canTransition(workflow, task.status, status)) {
+      return res.status(400).json({
+        message: `Moving from "${task.status}" to "${status}" is not allowed by the workflow`,
+        allowedStatuses: allowedNextStatuses(workflow, task.status)
+      });
+    }
+
+    const statusCategory = categoryOf(workflow, status);
+    if (await rejectIfBlocked(res, task, statusCategory, force)) return;
+
+    const rank = status !== task.status
+      ? await appendRank(user.company, task.project?.id, status, task._id)
+      : task.rank;
+
+    const before = snapshotTask(task);
     const updatedTask = await Task.findByIdAndUpdate(
       id,
-      { status },
+      { status, statusCategory, rank },
       { new: true }
     )
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("project.id", "name")
       .populate("createdBy", "name email");
 
+    if (updatedTask) {
+      await recordTaskChanges(before, updatedTask, user._id);
+    }
+
+    if (updatedTask && updatedTask.status !== task.status) {
+      await emitWebhookEvent(user.company, "task.status_changed", {
+        task: taskEventData(updatedTask),
+        previousStatus: task.status
+      });
+      await rollUpParent(updatedTask.parentTask, user._id);
+      emitBoardEvent(updatedTask.project?.id, "board_task_updated", updatedTask);
+    }
+
+    // Completing a recurring task schedules the next one
+    if (updatedTask && updatedTask.statusCategory === "done" && task.statusCategory !== "done") {
+      await generateNextOccurrence(updatedTask, user._id);
+    }
+
     res.json(updatedTask);
   } catch (error) {
     console.error("Error updating task status:", error);
@@ -305,6 +541,133 @@ export const updateTaskStatus = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * Move a task on the board: change its status and/or its position in the column in one write.
+ * prevTaskId / nextTaskId name the neighbours it should land between (either may be omitted).
+ * @route PATCH /api/tasks/:id/move
+ * @access Private - Company Admin/Task Creator/Assignee
+ */
+export const moveTask = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { prevTaskId, nextTaskId, force } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await Task.findOne({ _id: id, company: user.company });
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    // Same rule as status updates
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to move this task" });
+    }
+
+    const status: string = req.body.status ?? task.status;
+    const workflow = await getTaskWorkflow(task);
+    if (!findStatus(workflow, status)) {
+      return res.status(400).json({
+        message: `Unknown status "${status}" for this project's workflow`,
+        allowedStatuses: workflow.statuses.map((s) => s.key)
+      });
+    }
+    if (!canTransition(workflow, task.status, status)) {
+      return res.status(400).json({
+        message: `Moving from "${task.status}" to "${status}" is not allowed by the workflow`,
+        allowedStatuses: allowedNextStatuses(workflow, task.status)
+      });
+    }
+
+    const statusCategory = categoryOf(workflow, status);
+    if (await rejectIfBlocked(res, task, statusCategory, force)) return;
+
+    // Neighbours must sit in the destination column
+    const projectId = task.project?.id;
+    const column = { ...columnFilter(user.company, projectId, status), _id: { $ne: task._id } };
+    const findNeighbour = (neighbourId?: string) =>
+      neighbourId ? Task.findOne({ ...column, _id: { $eq: neighbourId, $ne: task._id } }).select("rank").lean() : null;
+
+    let [prev, next] = await Promise.all([findNeighbour(prevTaskId), findNeighbour(nextTaskId)]);
+    if ((prevTaskId && !prev) || (nextTaskId && !next)) {
+      return res.status(400).json({ message: "Neighbour tasks must be in the destination column" });
+    }
+
+    // Compute the rank between the requested neighbours and whatever actually sits next to them
+    const neighbours = async () => {
+      if (prev && !nextTaskId) {
+        next = prev.rank ? await Task.findOne({ ...column, rank: { $gt: prev.rank } }).sort({ rank: 1 }).select("rank").lean() : null;
+      } else if (next && !prevTaskId) {
+        prev = next.rank ? await Task.findOne({ ...column, rank: { $lt: next.rank } }).sort({ rank: -1 }).select("rank").lean() : null;
+      }
+    };
+    await neighbours();
+
+    const needsRebalance =
+      (prevTaskId && !prev?.rank) || (nextTaskId && !next?.rank) ||
+      (prev?.rank && next?.rank && prev.rank >= next.rank) ||
+      (prev?.rank?.length ?? 0) > MAX_RANK_LENGTH || (next?.rank?.length ?? 0) > MAX_RANK_LENGTH;
+    if (needsRebalance) {
+      await rebalanceColumn(user.company, projectId, status);
+      [prev, next] = await Promise.all([findNeighbour(prevTaskId), findNeighbour(nextTaskId)]);
+      await neighbours();
+    }
+    if (prev?.rank && next?.rank && prev.rank >= next.rank) {
+      return res.status(400).json({ message: "prevTaskId must come before nextTaskId in the column" });
+    }
+
+    const rank = prev || next
+      ? rankBetween(prev?.rank, next?.rank)
+      : await appendRank(user.company, projectId, status, task._id);
+
+    // Only applies if nobody changed the task's status in the meantime
+    const before = snapshotTask(task);
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: task._id, company: user.company, status: task.status },
+      { $set: { status, statusCategory, rank } },
+      { new: true }
+    )
+      .populate("assignees.id", "name email avatarUrl")
+      .populate("project.id", "name")
+      .populate("createdBy", "name email");
+
+    if (!updatedTask) {
+      return res.status(409).json({ message: "The task was changed by someone else. Reload the board and try again." });
+    }
+
+    if (updatedTask.status !== task.status) {
+      await recordTaskChanges(before, updatedTask, user._id);
+      await emitWebhookEvent(user.company, "task.status_changed", {
+        task: taskEventData(updatedTask),
+        previousStatus: task.status
+      });
+      await rollUpParent(updatedTask.parentTask, user._id);
+    }
+
+    emitBoardEvent(projectId, "board_task_moved", {
+      id: String(updatedTask._id),
+      previousStatus: task.status,
+      status,
+      statusCategory,
+      rank,
+      task: updatedTask
+    });
+
+    // Completing a recurring task schedules the next one
+    if (updatedTask.statusCategory === "done" && task.statusCategory !== "done") {
+      await generateNextOccurrence(updatedTask, user._id);
+    }
+
+    res.json(updatedTask);
+  } catch (error) {
+    console.error("Error moving task:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
 /**
  * Delete a task
  * @route DELETE /api/tasks/:id
@@ -324,8 +687,8 @@ export const deleteTask = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: "Task not found" });
     }
 
-    // Check permissions - only company admin or task creator can delete
-    if ((!user.role || !["superadmin", "company_admin"].includes(user.role)) && task.createdBy.toString() !== user._id.toString()) {
+    // Check permissions - only users with task:delete or the task creator can delete
+    if (!(await hasPermission(req, "task:delete")) && task.createdBy.toString() !== user._id.toString()) {
       return res.status(403).json({ message: "Insufficient permissions to delete this task" });
     }
 
@@ -337,6 +700,21 @@ export const deleteTask = async (req: AuthRequest, res: Response) => {
     }
 
     await Task.findByIdAndDelete(id);
+    emitBoardEvent(task.project?.id, "board_task_removed", { id: String(task._id) });
+    await TaskComment.deleteMany({ task: task._id });
+    // Logged time stays in timesheets; timers still running on the task are stopped now
+    await stopRunningTimers({ task: task._id });
+    await removeStoredFiles(task.attachments.map((attachment) => ({
+      key: attachment.storageKey,
+      resourceType: attachment.resourceType,
+      provider: attachment.provider
+    })));
+    await recordTaskEvent(task, "deleted", user._id);
+
+    // Subtasks survive as top-level tasks; the parent loses one from its roll-up
+    await Task.updateMany({ parentTask: task._id }, { $unset: { parentTask: 1 } });
+    await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } });
+    await rollUpParent(task.parentTask, user._id);
 
     res.json({ message: "Task deleted successfully" });
   } catch (error) {
@@ -352,7 +730,7 @@ export const deleteTask = async (req: AuthRequest, res: Response) => {
  */
 export const getMyTasks = async (req: AuthRequest, res: Response) => {
   try {
-    const { status, priority, page = 1, limit = 10 } = req.query;
+    const { status, statusCategory, priority, page = 1, limit = 10 } = req.query;
     const user = req.user;
 
     if (!user) {
@@ -361,11 +739,12 @@ export const getMyTasks = async (req: AuthRequest, res: Response) => {
 
     // Build filter object
     const filter: any = {
-      "assignee.id": user._id,
+      "assignees.id": user._id,
       company: user.company
     };
 
     if (status) filter.status = status;
+    if (statusCategory) filter.statusCategory = statusCategory;
     if (priority) filter.priority = priority;
 
     // Calculate pagination
@@ -376,7 +755,7 @@ export const getMyTasks = async (req: AuthRequest, res: Response) => {
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(Number(limit))
-      .populate("assignee.id", "name email avatarUrl")
+      .populate("assignees.id", "name email avatarUrl")
       .populate("project.id", "name")
       .populate("createdBy", "name email");
 
@@ -394,3 +773,109 @@ export const getMyTasks = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ message: "Internal server error" });
   }
 };
+
+/**
+ * Change timeline of a task, newest first
+ * @route GET /api/tasks/:id/activity
+ * @access Private - Company Admin/Employee
+ */
+export const getTaskActivity = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 50 } = req.query;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await Task.findOne({ _id: id, company: user.company }).select("_id");
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const filter = { task: task._id, company: user.company };
+    const skip = (Number(page) - 1) * Number(limit);
+    const [activity, total] = await Promise.all([
+      TaskActivity.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .populate("actor", "name email avatarUrl"),
+      TaskActivity.countDocuments(filter)
+    ]);
+
+    res.json({
+      activity: activity.map(serializeTaskActivity),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching task activity:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Follow a task as the current user
+ * @route POST /api/tasks/:id/watch
+ * @access Private - Company Admin/Employee
+ */
+export const watchTask = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await Task.findOneAndUpdate(
+      { _id: id, company: user.company },
+      { $addToSet: { watchers: user._id } },
+      { new: true }
+    ).select("watchers");
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    res.json({ watching: true, watchers: task.watchers });
+  } catch (error) {
+    console.error("Error watching task:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Stop following a task
+ * @route DELETE /api/tasks/:id/watch
+ * @access Private - Company Admin/Employee
+ */
+export const unwatchTask = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await Task.findOneAndUpdate(
+      { _id: id, company: user.company },
+      { $pull: { watchers: user._id } },
+      { new: true }
+    ).select("watchers");
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    res.json({ watching: false, watchers: task.watchers });
+  } catch (error) {
+    console.error("Error unwatching task:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
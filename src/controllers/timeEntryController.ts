@@ -0,0 +1,307 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Task, { ITask } from "../models/Task";
+import TimeEntry from "../models/TimeEntry";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { invalidEntryRange, minutesBetween, refreshTaskTimeSpent, serializeTimeEntry } from "../utils/timeTracking";
+import { canWorkOnTask, findCompanyTask } from "../utils/taskAccess";
+
+/**
+ * Time Entry Controller
+ * Work logged against a task, either entered by hand or measured with a start/stop timer
+ */
+
+const findTaskEntry = (req: AuthRequest, task: ITask) => {
+  const { entryId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(entryId)) return null;
+  return TimeEntry.findOne({ _id: entryId, task: task._id, company: req.user!.company });
+};
+
+/**
+ * Time logged on a task, newest first, with the total per user
+ * @route GET /api/tasks/:id/time-entries
+ * @access Private - Company Admin/Employee
+ */
+export const getTaskTimeEntries = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const entries = await TimeEntry.find({ task: task._id, company: user.company })
+      .sort({ startedAt: -1 })
+      .populate("user", "name email avatarUrl");
+
+    const byUser = new Map<string, { user: any; minutes: number }>();
+    for (const entry of entries) {
+      if (entry.isRunning) continue;
+      const key = String((entry.user as any)._id ?? entry.user);
+      const row = byUser.get(key) ?? { user: entry.user, minutes: 0 };
+      row.minutes += entry.minutes;
+      byUser.set(key, row);
+    }
+
+    res.json({
+      entries: entries.map(serializeTimeEntry),
+      estimateMinutes: task.estimateMinutes ?? null,
+      timeSpentMinutes: task.timeSpentMinutes,
+      byUser: [...byUser.values()].map(({ user: u, minutes }) => ({
+        user: { id: String(u._id), name: u.name, email: u.email },
+        minutes
+      }))
+    });
+  } catch (error) {
+    console.error("Error fetching time entries:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Log time on a task by hand (a duration or an end time)
+ * @route POST /api/tasks/:id/time-entries
+ * @access Private - task:update, task creator or assignee
+ */
+export const createTimeEntry = async (req: AuthRequest, res: Response) => {
+  try {
+    const { startedAt, endedAt, minutes, note } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to log time on this task" });
+    }
+
+    const start = new Date(startedAt);
+    const end = endedAt ? new Date(endedAt) : new Date(start.getTime() + minutes * 60000);
+    const rangeError = invalidEntryRange(start, end);
+    if (rangeError) {
+      return res.status(400).json({ message: rangeError });
+    }
+
+    const entry = await TimeEntry.create({
+      task: task._id,
+      taskTitle: task.title,
+      project: task.project?.id,
+      company: user.company,
+      user: user._id,
+      source: "manual",
+      startedAt: start,
+      endedAt: end,
+      minutes: minutesBetween(start, end),
+      note
+    });
+    await refreshTaskTimeSpent(task._id);
+
+    res.status(201).json(serializeTimeEntry(entry));
+  } catch (error) {
+    console.error("Error creating time entry:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Correct one of your own finished entries
+ * @route PATCH /api/tasks/:id/time-entries/:entryId
+ * @access Private - Entry owner
+ */
+export const updateTimeEntry = async (req: AuthRequest, res: Response) => {
+  try {
+    const { startedAt, endedAt, minutes, note } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const entry = await findTaskEntry(req, task);
+    if (!entry) {
+      return res.status(404).json({ message: "Time entry not found" });
+    }
+
+    if (entry.user.toString() !== user._id.toString()) {
+      return res.status(403).json({ message: "Only the person who logged the time can edit it" });
+    }
+    if (entry.isRunning) {
+      return res.status(400).json({ message: "Stop the timer before editing this entry" });
+    }
+
+    const start = startedAt ? new Date(startedAt) : entry.startedAt;
+    const end = endedAt
+      ? new Date(endedAt)
+      : minutes !== undefined
+        ? new Date(start.getTime() + minutes * 60000)
+        : new Date(start.getTime() + entry.minutes * 60000);
+    const rangeError = invalidEntryRange(start, end);
+    if (rangeError) {
+      return res.status(400).json({ message: rangeError });
+    }
+
+    entry.startedAt = start;
+    entry.endedAt = end;
+    entry.minutes = minutesBetween(start, end);
+    if (note !== undefined) entry.note = note;
+    await entry.save();
+    await refreshTaskTimeSpent(task._id);
+
+    res.json(serializeTimeEntry(entry));
+  } catch (error) {
+    console.error("Error updating time entry:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Delete a time entry
+ * @route DELETE /api/tasks/:id/time-entries/:entryId
+ * @access Private - Entry owner or task:update
+ */
+export const deleteTimeEntry = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const entry = await findTaskEntry(req, task);
+    if (!entry) {
+      return res.status(404).json({ message: "Time entry not found" });
+    }
+
+    if (entry.user.toString() !== user._id.toString() && !(await hasPermission(req, "task:update"))) {
+      return res.status(403).json({ message: "Insufficient permissions to delete this time entry" });
+    }
+
+    await entry.deleteOne();
+    await refreshTaskTimeSpent(task._id);
+
+    res.json({ message: "Time entry deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting time entry:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Start a timer on a task; each user can only have one timer running
+ * @route POST /api/tasks/:id/timer/start
+ * @access Private - task:update, task creator or assignee
+ */
+export const startTimer = async (req: AuthRequest, res: Response) => {
+  try {
+    const { note } = req.body;
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    if (!(await canWorkOnTask(req, task))) {
+      return res.status(403).json({ message: "Insufficient permissions to log time on this task" });
+    }
+
+    const running = await TimeEntry.findOne({ user: user._id, isRunning: true });
+    if (running) {
+      return res.status(409).json({
+        message: "You already have a timer running. Stop it before starting another one.",
+        running: serializeTimeEntry(running)
+      });
+    }
+
+    try {
+      const entry = await TimeEntry.create({
+        task: task._id,
+        taskTitle: task.title,
+        project: task.project?.id,
+        company: user.company,
+        user: user._id,
+        source: "timer",
+        startedAt: new Date(),
+        isRunning: true,
+        note
+      });
+      res.status(201).json(serializeTimeEntry(entry));
+    } catch (error: any) {
+      // Lost a race against another start request (unique running timer per user)
+      if (error?.code === 11000) {
+        return res.status(409).json({ message: "You already have a timer running. Stop it before starting another one." });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error starting timer:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/**
+ * Stop your running timer on a task
+ * @route POST /api/tasks/:id/timer/stop
+ * @access Private - Timer owner
+ */
+export const stopTimer = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const task = await findCompanyTask(req);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    const running = await TimeEntry.findOne({ task: task._id, user: user._id, isRunning: true });
+    if (!running) {
+      return res.status(404).json({ message: "No timer running on this task" });
+    }
+
+    const now = new Date();
+    const entry = await TimeEntry.findOneAndUpdate(
+      { _id: running._id, isRunning: true },
+      { $set: { isRunning: false, endedAt: now, minutes: minutesBetween(running.startedAt, now) } },
+      { new: true }
+    );
+    if (!entry) {
+      return res.status(409).json({ message: "The timer was already stopped" });
+    }
+    await refreshTaskTimeSpent(task._id);
+
+    res.json(serializeTimeEntry(entry));
+  } catch (error) {
+    console.error("Error stopping timer:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
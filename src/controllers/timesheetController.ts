@@ -0,0 +1,165 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import TimeEntry from "../models/TimeEntry";
+import Project from "../models/Project";
+import User from "../models/User";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { resolveWeek, serializeTimeEntry } from "../utils/timeTracking";
+
+/**
+ * Timesheet Controller
+ * Weekly timesheet of the current user and the company-wide time report
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_DAYS = 366;
+
+/**
+ * The current user's logged time for one week (Monday to Sunday, UTC), per day and per task
+ * @route GET /api/users/me/timesheet?week=2026-W07
+ * @access Private - All authenticated users
+ */
+export const getMyTimesheet = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+
+    const week = resolveWeek(typeof req.query.week === "string" ? req.query.week : undefined);
+    if (!week) {
+      return res.status(400).json({ message: "week must be an ISO week (2026-W07) or a date" });
+    }
+
+    const [entries, running] = await Promise.all([
+      TimeEntry.find({
+        user: user._id,
+        company: user.company,
+        isRunning: false,
+        startedAt: { $gte: week.start, $lt: week.end }
+      }).sort({ startedAt: 1 }),
+      TimeEntry.findOne({ user: user._id, isRunning: true })
+    ]);
+
+    const days = Array.from({ length: 7 }, (_, i) => ({
+      date: new Date(week.start.getTime() + i * DAY_MS).toISOString().slice(0, 10),
+      minutes: 0
+    }));
+    const tasks = new Map<string, { task: { id: string; title: string }; project: string | null; minutes: number; days: number[] }>();
+
+    for (const entry of entries) {
+      const day = Math.floor((entry.startedAt.getTime() - week.start.getTime()) / DAY_MS);
+      const key = String(entry.task);
+      const row = tasks.get(key) ?? {
+        task: { id: key, title: entry.taskTitle },
+        project: entry.project ? String(entry.project) : null,
+        minutes: 0,
+        days: [0, 0, 0, 0, 0, 0, 0]
+      };
+      row.minutes += entry.minutes;
+      row.days[day] += entry.minutes;
+      days[day].minutes += entry.minutes;
+      tasks.set(key, row);
+    }
+
+    res.json({
+      week: week.label,
+      start: week.start,
+      end: week.end,
+      totalMinutes: days.reduce((sum, day) => sum + day.minutes, 0),
+      days,
+      tasks: [...tasks.values()].sort((a, b) => b.minutes - a.minutes),
+      running: running ? serializeTimeEntry(running) : null
+    });
+  } catch (error) {
+    console.error("Error fetching timesheet:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Time logged across the company between two dates, per user and per project.
+ * Defaults to the current week; optional userId / projectId narrow the report.
+ * @route GET /api/company/timesheets?from=&to=&userId=&projectId=
+ * @access Private - company:manage_users
+ */
+export const getCompanyTimesheetReport = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { from, to, userId, projectId } = req.query;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+
+    const currentWeek = resolveWeek()!;
+    const start = typeof from === "string" ? new Date(from) : currentWeek.start;
+    const end = typeof to === "string" ? new Date(to) : currentWeek.end;
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end.getTime() <= start.getTime()) {
+      return res.status(400).json({ message: "from and to must be dates, with from before to" });
+    }
+    if (end.getTime() - start.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+      return res.status(400).json({ message: `Reports can span at most ${MAX_REPORT_DAYS} days` });
+    }
+
+    const match: any = {
+      company: new mongoose.Types.ObjectId(String(user.company)),
+      isRunning: false,
+      startedAt: { $gte: start, $lt: end }
+    };
+    for (const [field, value] of [["user", userId], ["project", projectId]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== "string" || !mongoose.Types.ObjectId.isValid(value)) {
+        return res.status(400).json({ message: `Invalid ${field} ID` });
+      }
+      match[field] = new mongoose.Types.ObjectId(value);
+    }
+
+    const rows: { _id: { user: any; project: any }; minutes: number; entries: number }[] = await TimeEntry.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { user: "$user", project: "$project" },
+          minutes: { $sum: "$minutes" },
+          entries: { $sum: 1 }
+        }
+      }
+    ]);
+
+    const userIds = [...new Set(rows.map((row) => String(row._id.user)))];
+    const projectIds = [...new Set(rows.filter((row) => row._id.project).map((row) => String(row._id.project)))];
+    const [users, projects] = await Promise.all([
+      User.find({ _id: { $in: userIds } }).select("name email avatarUrl").lean(),
+      Project.find({ _id: { $in: projectIds }, company: user.company }).select("name").lean()
+    ]);
+    const userById = new Map(users.map((u) => [String(u._id), { id: String(u._id), name: u.name, email: u.email, avatarUrl: u.avatarUrl ?? null }]));
+    const projectById = new Map(projects.map((p) => [String(p._id), { id: String(p._id), name: p.name }]));
+    const projectRef = (id: any) => (id ? projectById.get(String(id)) ?? { id: String(id), name: null } : null);
+
+    const byUser = new Map<string, { user: any; totalMinutes: number; projects: { project: any; minutes: number }[] }>();
+    const byProject = new Map<string, { project: any; totalMinutes: number; users: number }>();
+    for (const row of rows) {
+      const userKey = String(row._id.user);
+      const userRow = byUser.get(userKey) ?? { user: userById.get(userKey) ?? { id: userKey }, totalMinutes: 0, projects: [] };
+      userRow.totalMinutes += row.minutes;
+      userRow.projects.push({ project: projectRef(row._id.project), minutes: row.minutes });
+      byUser.set(userKey, userRow);
+
+      const projectKey = row._id.project ? String(row._id.project) : "none";
+      const projectRow = byProject.get(projectKey) ?? { project: projectRef(row._id.project), totalMinutes: 0, users: 0 };
+      projectRow.totalMinutes += row.minutes;
+      projectRow.users += 1;
+      byProject.set(projectKey, projectRow);
+    }
+
+    res.json({
+      from: start,
+      to: end,
+      totalMinutes: rows.reduce((sum, row) => sum + row.minutes, 0),
+      byUser: [...byUser.values()].sort((a, b) => b.totalMinutes - a.totalMinutes),
+      byProject: [...byProject.values()].sort((a, b) => b.totalMinutes - a.totalMinutes)
+    });
+  } catch (error) {
+    console.error("Error building timesheet report:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
@@ -0,0 +1,242 @@
+import { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import User from "../models/User";
+import serializeUser from "../utils/serializeUser";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { issueAuthTokens, getRequestMeta, verifyTwoFactorChallenge, peekLoginCode, consumeLoginCode } from "../utils/authTokens";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpAuthUrl,
+  buildQrCodeDataUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from "../utils/totp";
+import { isTwoFactorEnforced } from "../utils/twoFactor";
+import { checkLock, recordFailedLogin, resetAttempts, accountKey, ipKey } from "../utils/loginAttempts";
+
+const TWO_FACTOR_FIELDS = "+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep";
+
+/**
+ * Check a TOTP code (rejecting replays of an already used step) or consume a recovery code.
+ * Both are claimed with a conditional update, so a code accepted by one request is rejected
+ * by any concurrent one. Returns the updated 2FA fields, or null when the code is not accepted.
+ */
+const consumeSecondFactor = async (userDoc: any, code?: string, recoveryCode?: string) => {
+  if (code && userDoc.twoFactorSecret) {
+    const step = verifyTotp(userDoc.twoFactorSecret, code);
+    if (step === null) return null;
+    return User.findOneAndUpdate(
+      { _id: userDoc._id, $or: [{ twoFactorLastUsedStep: { $lt: step } }, { twoFactorLastUsedStep: null }] },
+      { $set: { twoFactorLastUsedStep: step } },
+      { new: true }
+    ).select(TWO_FACTOR_FIELDS);
+  }
+
+  if (recoveryCode) {
+    const hash = hashRecoveryCode(recoveryCode);
+    return User.findOneAndUpdate(
+      { _id: userDoc._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } },
+      { new: true }
+    ).select(TWO_FACTOR_FIELDS);
+  }
+
+  return null;
+};
+
+// START 2FA ENROLLMENT (returns secret, otpauth URI and QR code)
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userDoc = await User.findById(user._id).select(TWO_FACTOR_FIELDS);
+    if (!userDoc) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (userDoc.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    userDoc.twoFactorPendingSecret = secret;
+    await userDoc.save();
+
+    const otpauthUrl = buildOtpAuthUrl(secret, userDoc.email);
+
+    res.json({
+      message: "Scan the QR code with your authenticator app, then confirm with a code",
+      secret,
+      otpauthUrl,
+      qrCode: await buildQrCodeDataUrl(otpauthUrl)
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// CONFIRM 2FA ENROLLMENT (returns recovery codes once)
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { code } = req.body;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userDoc = await User.findById(user._id).select(TWO_FACTOR_FIELDS);
+    if (!userDoc) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (userDoc.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+    if (!userDoc.twoFactorPendingSecret) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+
+    const step = verifyTotp(userDoc.twoFactorPendingSecret, code);
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+
+    const recovery = generateRecoveryCodes();
+    userDoc.twoFactorSecret = userDoc.twoFactorPendingSecret;
+    userDoc.twoFactorPendingSecret = undefined;
+    userDoc.twoFactorEnabled = true;
+    userDoc.twoFactorEnabledAt = new Date();
+    userDoc.twoFactorLastUsedStep = step;
+    userDoc.twoFactorRecoveryCodes = recovery.hashes;
+    await userDoc.save();
+
+    res.json({
+      message: "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+      recoveryCodes: recovery.codes
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// DISABLE 2FA (requires password and a second factor)
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { password, code, recoveryCode } = req.body;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userDoc = await User.findById(user._id).select(TWO_FACTOR_FIELDS);
+    if (!userDoc) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (!userDoc.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (await isTwoFactorEnforced(userDoc.company)) {
+      return res.status(403).json({ message: "Your company requires two-factor authentication" });
+    }
+
+    const isMatch = await bcrypt.compare(password, userDoc.password);
+    if (!isMatch || !(await consumeSecondFactor(userDoc, code, recoveryCode))) {
+      return res.status(400).json({ message: "Invalid password or verification code" });
+    }
+
+    userDoc.twoFactorEnabled = false;
+    userDoc.twoFactorSecret = undefined;
+    userDoc.twoFactorRecoveryCodes = [];
+    userDoc.twoFactorLastUsedStep = undefined;
+    userDoc.twoFactorEnabledAt = undefined;
+    await userDoc.save();
+
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// REGENERATE RECOVERY CODES (invalidates the previous set)
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { code } = req.body;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const userDoc = await User.findById(user._id).select(TWO_FACTOR_FIELDS);
+    if (!userDoc?.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+    if (!(await consumeSecondFactor(userDoc, code))) {
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+
+    const recovery = generateRecoveryCodes();
+    userDoc.twoFactorRecoveryCodes = recovery.hashes;
+    await userDoc.save();
+
+    res.json({
+      message: "Recovery codes regenerated",
+      recoveryCodes: recovery.codes
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+// COMPLETE 2FA LOGIN (exchanges challenge token or code + verification code for session tokens)
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, challengeCode, code, recoveryCode } = req.body;
+
+    const userId = challengeCode
+      ? await peekLoginCode(challengeCode, "two_factor")
+      : verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+      return res.status(401).json({ message: "Two-factor challenge expired, please log in again" });
+    }
+
+    const userDoc = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+    if (!userDoc || !userDoc.twoFactorEnabled || userDoc.status === "inactive") {
+      return res.status(401).json({ message: "Two-factor challenge expired, please log in again" });
+    }
+
+    // Wrong codes count towards the same account and IP lockouts as wrong passwords
+    const lock = await checkLock(accountKey(userDoc.email), ipKey(req.ip));
+    if (lock.locked) {
+      res.set("Retry-After", String(lock.retryAfterSeconds));
+      return res.status(429).json({ message: "Too many failed attempts. Please try again later.", retryAfter: lock.retryAfterSeconds });
+    }
+
+    const verified = await consumeSecondFactor(userDoc, code, recoveryCode);
+    if (!verified) {
+      await recordFailedLogin(req, userDoc.email, userDoc._id, "two_factor");
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+    await resetAttempts(accountKey(userDoc.email));
+
+    // A challenge code is single use: only the first successful verification starts a session
+    if (challengeCode && !(await consumeLoginCode(challengeCode, "two_factor"))) {
+      return res.status(401).json({ message: "Two-factor challenge expired, please log in again" });
+    }
+
+    const tokens = await issueAuthTokens(userDoc, getRequestMeta(req));
+
+    res.json({
+      message: "Login successful",
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: serializeUser(userDoc),
+      expiresIn: tokens.expiresIn,
+      requirePasswordChange: userDoc.requirePasswordChange || false,
+      recoveryCodesRemaining: verified.twoFactorRecoveryCodes?.length ?? 0
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Server error" });
+  }
+};
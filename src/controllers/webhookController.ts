@@ -0,0 +1,307 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Webhook, { WebhookEvent } from "../models/Webhook";
+import WebhookDelivery from "../models/WebhookDelivery";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { recordAudit } from "../utils/auditLog";
+import {
+  WebhookTargetError,
+  assertPublicWebhookUrl,
+  generateWebhookSecret,
+  redeliver,
+  serializeWebhook,
+  serializeDelivery
+} from "../utils/webhooks";
+
+/**
+ * Webhook Controller
+ * Company-configured endpoints notified of task, project, chat and membership events
+ */
+
+const findCompanyWebhook = (req: Request) => {
+  const { user } = req as AuthRequest;
+  const { webhookId } = req.params;
+  if (!user?.company || !mongoose.Types.ObjectId.isValid(webhookId)) return null;
+  return Webhook.findOne({ _id: webhookId, company: user.company });
+};
+
+/**
+ * List the company's webhooks
+ * @route GET /api/company/webhooks
+ * @access Private - company:update
+ */
+export const listWebhooks = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+
+    const webhooks = await Webhook.find({ company: user.company }).sort({ createdAt: -1 });
+
+    res.json({ webhooks: webhooks.map(serializeWebhook) });
+  } catch (error) {
+    console.error("Error listing webhooks:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Register a webhook endpoint (the signing secret is only returned here)
+ * @route POST /api/company/webhooks
+ * @access Private - company:update
+ */
+export const createWebhook = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { url, description, events, active } = req.body;
+    if (!user?.company) {
+      return res.status(400).json({ message: "User must belong to a company" });
+    }
+    await assertPublicWebhookUrl(url);
+
+    const secret = generateWebhookSecret();
+    const webhook = await Webhook.create({
+      company: user.company,
+      url,
+      description,
+      events: [...new Set(events)],
+      active: active ?? true,
+      secret,
+      createdBy: user._id
+    });
+
+    await recordAudit({
+      actorId: user._id,
+      entityType: "webhook",
+      entityId: webhook._id,
+      action: "create_webhook",
+      changes: { url, events: webhook.events },
+      req
+    });
+
+    res.status(201).json({
+      message: "Webhook created. Store the signing secret now, it will not be shown again.",
+      secret,
+      webhook: serializeWebhook(webhook)
+    });
+  } catch (error) {
+    if (error instanceof WebhookTargetError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error creating webhook:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Update a webhook's URL, events or active flag
+ * @route PATCH /api/company/webhooks/:webhookId
+ * @access Private - company:update
+ */
+export const updateWebhook = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    const { url, description, events, active } = req.body as {
+      url?: string;
+      description?: string;
+      events?: WebhookEvent[];
+      active?: boolean;
+    };
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+    if (url !== undefined) await assertPublicWebhookUrl(url);
+
+    if (url !== undefined) webhook.url = url;
+    if (description !== undefined) webhook.description = description;
+    if (events !== undefined) webhook.events = [...new Set(events)];
+    if (active !== undefined) webhook.active = active;
+    await webhook.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "webhook",
+      entityId: webhook._id,
+      action: "update_webhook",
+      changes: req.body,
+      req
+    });
+
+    res.json({ message: "Webhook updated successfully", webhook: serializeWebhook(webhook) });
+  } catch (error) {
+    if (error instanceof WebhookTargetError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("Error updating webhook:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Replace a webhook's signing secret
+ * @route POST /api/company/webhooks/:webhookId/rotate-secret
+ * @access Private - company:update
+ */
+export const rotateWebhookSecret = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+
+    const secret = generateWebhookSecret();
+    webhook.secret = secret;
+    await webhook.save();
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "webhook",
+      entityId: webhook._id,
+      action: "rotate_webhook_secret",
+      changes: { url: webhook.url },
+      req
+    });
+
+    res.json({ message: "Signing secret rotated", secret, webhook: serializeWebhook(webhook) });
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Delete a webhook (its delivery logs expire on their own)
+ * @route DELETE /api/company/webhooks/:webhookId
+ * @access Private - company:update
+ */
+export const deleteWebhook = async (req: Request, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+
+    await webhook.deleteOne();
+    // Stop retrying anything still queued for it
+    await WebhookDelivery.updateMany(
+      { webhook: webhook._id, status: "pending" },
+      { $set: { status: "failed", error: "Webhook was disabled or deleted" }, $unset: { nextAttemptAt: 1, lockedUntil: 1 } }
+    );
+
+    await recordAudit({
+      actorId: user?._id,
+      entityType: "webhook",
+      entityId: webhook._id,
+      action: "delete_webhook",
+      changes: { url: webhook.url },
+      req
+    });
+
+    res.json({ message: "Webhook deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Delivery log of a webhook, newest first
+ * @route GET /api/company/webhooks/:webhookId/deliveries
+ * @access Private - company:update
+ */
+export const listDeliveries = async (req: Request, res: Response) => {
+  try {
+    const { status, event, page = 1, limit = 20 } = req.query;
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ message: "Webhook not found" });
+    }
+
+    const filter: any = { webhook: webhook._id };
+    if (typeof status === "string") filter.status = status;
+    if (typeof event === "string") filter.event = event;
+
+    const pageSize = Math.min(Math.max(Number(limit) || 20, 1), 100);
+    const skip = (Math.max(Number(page) || 1, 1) - 1) * pageSize;
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(filter).sort({ createdAt: -1 }).skip(skip).limit(pageSize),
+      WebhookDelivery.countDocuments(filter)
+    ]);
+
+    res.json({
+      deliveries: deliveries.map((d) => serializeDelivery(d)),
+      total,
+      page: Math.max(Number(page) || 1, 1),
+      limit: pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    });
+  } catch (error) {
+    console.error("Error listing webhook deliveries:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * A single delivery including payload and response body
+ * @route GET /api/company/webhooks/:webhookId/deliveries/:deliveryId
+ * @access Private - company:update
+ */
+export const getDelivery = async (req: Request, res: Response) => {
+  try {
+    const { deliveryId } = req.params;
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook || !mongoose.Types.ObjectId.isValid(deliveryId)) {
+      return res.status(404).json({ message: "Delivery not found" });
+    }
+
+    const delivery = await WebhookDelivery.findOne({ _id: deliveryId, webhook: webhook._id });
+    if (!delivery) {
+      return res.status(404).json({ message: "Delivery not found" });
+    }
+
+    res.json({ delivery: serializeDelivery(delivery, true) });
+  } catch (error) {
+    console.error("Error fetching webhook delivery:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+/**
+ * Send a past delivery again (queued as a new delivery with the same event id)
+ * @route POST /api/company/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+ * @access Private - company:update
+ */
+export const redeliverDelivery = async (req: Request, res: Response) => {
+  try {
+    const { deliveryId } = req.params;
+
+    const webhook = await findCompanyWebhook(req);
+    if (!webhook || !mongoose.Types.ObjectId.isValid(deliveryId)) {
+      return res.status(404).json({ message: "Delivery not found" });
+    }
+    if (!webhook.active) {
+      return res.status(400).json({ message: "Activate the webhook before redelivering" });
+    }
+
+    const delivery = await WebhookDelivery.findOne({ _id: deliveryId, webhook: webhook._id });
+    if (!delivery) {
+      return res.status(404).json({ message: "Delivery not found" });
+    }
+
+    const copy = await redeliver(delivery);
+
+    res.status(202).json({ message: "Redelivery queued", delivery: serializeDelivery(copy) });
+  } catch (error) {
+    console.error("Error redelivering webhook:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
@@ -1,9 +1,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import User from "../models/User";
+import { isSessionActive, touchSession } from "../utils/authTokens";
+import { isTwoFactorSetupRequired } from "../utils/twoFactor";
+import { isApiToken, findActiveApiToken, touchApiToken } from "../utils/apiTokens";
+import { ApiScopeResource, requiredScopeFor } from "../utils/apiScopes";
 
 const JWT_SECRET = process.env.JWT_SECRET || "supersecret";
 
+// Endpoints still reachable while a company forces the user to enroll in 2FA
+const TWO_FACTOR_SETUP_PATHS = ["/api/auth/2fa/setup", "/api/auth/2fa/enable", "/api/users/me"];
+
 // Generic AuthRequest that preserves all Express Request properties and
 // allows specifying the body type via `T`.
 export interface AuthRequest<T = any> extends Request<any, any, T> {
@@ -13,12 +20,63 @@ export interface AuthRequest<T = any> extends Request<any, any, T> {
     email: string;
     role?: string;
     company?: string;
+    sessionId?: string;
     requirePasswordChange?: boolean;
+    twoFactorSetupRequired?: boolean;
+    permissions?: string[]; // resolved lazily by permissionMiddleware
+    apiTokenId?: string; // set when authenticated with a personal/service API token
+    scopes?: string[]; // API token scopes; undefined for user JWTs
   };
 }
 
 import type { RequestHandler } from "express";
 
+/**
+ * Authenticate "Bearer rop_..." API tokens. The router must declare its scope
+ * (scopeMiddleware.requireScope) and the token must carry the matching read/write scope.
+ */
+const authenticateApiToken = async (rawToken: string, req: Request, res: Response, next: NextFunction) => {
+  const apiToken = await findActiveApiToken(rawToken);
+  if (!apiToken) {
+    return res.status(401).json({ message: "Token is not valid" });
+  }
+
+  const resource = res.locals.apiScope as ApiScopeResource | undefined;
+  if (!resource) {
+    return res.status(403).json({ message: "API tokens cannot be used for this endpoint" });
+  }
+  const requiredScope = requiredScopeFor(resource, req.method);
+  if (!apiToken.scopes.includes(requiredScope)) {
+    return res.status(403).json({ message: "Forbidden: Missing scope", missing: [requiredScope] });
+  }
+
+  const user = await User.findById(apiToken.user).select("email role company status accountType twoFactorEnabled").lean();
+  if (!user || user.status === "inactive") {
+    return res.status(401).json({ message: "Token is not valid" });
+  }
+  // Personal tokens follow the company's 2FA policy like sessions do; service accounts cannot enroll
+  if (user.accountType !== "service" && (await isTwoFactorSetupRequired(user))) {
+    return res.status(403).json({
+      message: "Your company requires two-factor authentication. Please set it up before accessing other features.",
+      twoFactorSetupRequired: true,
+      setupEndpoint: "/api/auth/2fa/setup"
+    });
+  }
+
+  touchApiToken(apiToken._id, req.ip);
+
+  (req as AuthRequest).user = {
+    id: String(user._id),
+    _id: String(user._id),
+    email: user.email,
+    role: user.role,
+    company: user.company ? String(user.company) : undefined,
+    apiTokenId: String(apiToken._id),
+    scopes: apiToken.scopes
+  };
+  next();
+};
+
 export const authMiddleware: RequestHandler = async (req, res, next) => {
   const token = req.headers.authorization?.split(" ")[1]; // "Bearer <token>"
 
@@ -27,15 +85,37 @@ export const authMiddleware: RequestHandler = async (req, res, next) => {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: string; email: string; role?: string; company?: string };
-    
-    // Fetch user to get requirePasswordChange status
-    const user = await User.findById(decoded.id).select('requirePasswordChange').lean();
-    
+    if (isApiToken(token)) {
+      return await authenticateApiToken(token, req, res, next);
+    }
+
+    const decoded = jwt.verify(token, JWT_SECRET) as { id: string; email: string; role?: string; company?: string; sid?: string };
+
+    // Tokens must belong to a live session so revoked sessions are rejected immediately
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ message: "Session has been revoked" });
+    }
+    touchSession(decoded.sid);
+
+    // Fetch user to get requirePasswordChange and 2FA status
+    const user = await User.findById(decoded.id).select('requirePasswordChange twoFactorEnabled company').lean();
+
+    const twoFactorSetupRequired = user ? await isTwoFactorSetupRequired(user) : false;
+    if (twoFactorSetupRequired && !TWO_FACTOR_SETUP_PATHS.includes(req.originalUrl.split("?")[0])) {
+      return res.status(403).json({
+        message: "Your company requires two-factor authentication. Please set it up before accessing other features.",
+        twoFactorSetupRequired: true,
+        setupEndpoint: "/api/auth/2fa/setup"
+      });
+    }
+
+    const { sid, ...claims } = decoded;
     (req as AuthRequest).user = {
-      ...decoded,
+      ...claims,
       _id: decoded.id, // Map id to _id for consistency with MongoDB ObjectId
-      requirePasswordChange: user?.requirePasswordChange || false
+      sessionId: sid,
+      requirePasswordChange: user?.requirePasswordChange || false,
+      twoFactorSetupRequired
     };
     next();
   } catch (error) {
@@ -0,0 +1,63 @@
+import { Request, RequestHandler } from "express";
+import { AuthRequest } from "./authMiddleware";
+import User from "../models/User";
+import Role from "../models/Role";
+import { Permission, BuiltInRole, ROLE_PERMISSIONS, FULL_ACCESS_ROLES } from "../utils/permissions";
+
+/**
+ * Resolve the effective permissions of the authenticated user (cached on the request).
+ * Superadmins and company admins get everything; other users get their company's
+ * custom role if one is assigned, else their built-in role's defaults.
+ */
+export const getPermissions = async (req: Request): Promise<Set<Permission>> => {
+  const { user } = req as AuthRequest;
+  if (!user?.role) return new Set();
+  if (user.permissions) return new Set(user.permissions as Permission[]);
+
+  const role = user.role as BuiltInRole;
+  let permissions: readonly Permission[] = ROLE_PERMISSIONS[role] || [];
+
+  if (!FULL_ACCESS_ROLES.includes(role)) {
+    const userDoc = await User.findById(user._id).select("customRole company").lean();
+    if (userDoc?.customRole) {
+      const customRole = await Role.findOne({ _id: userDoc.customRole, company: userDoc.company }).select("permissions").lean();
+      if (customRole) permissions = customRole.permissions;
+    }
+  }
+
+  user.permissions = [...permissions];
+  return new Set(permissions);
+};
+
+export const hasPermission = async (req: Request, permission: Permission): Promise<boolean> =>
+  (await getPermissions(req)).has(permission);
+
+/**
+ * Require every listed permission. When the route names a company (params or body),
+ * non-superadmins must also belong to it.
+ */
+export const requirePermission = (...required: Permission[]): RequestHandler => async (req, res, next) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const companyId = req.params.companyId || req.body?.companyId;
+    if (companyId && user.role !== "superadmin" && String(user.company) !== String(companyId)) {
+      return res.status(403).json({ message: "Forbidden: No access to this company" });
+    }
+
+    const granted = await getPermissions(req);
+    const missing = required.filter((permission) => !granted.has(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ message: "Forbidden: Missing permission", missing });
+    }
+
+    next();
+  } catch (error) {
+    return res.status(500).json({ message: "Error checking permissions" });
+  }
+};
+
+export default requirePermission;
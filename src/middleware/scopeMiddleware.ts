@@ -0,0 +1,13 @@
+import { RequestHandler } from "express";
+import { ApiScopeResource } from "../utils/apiScopes";
+
+/**
+ * Declare the API area a router belongs to. Must run before authMiddleware, which uses it
+ * to check API token scopes; routers without a declared scope reject API tokens entirely.
+ */
+export const requireScope = (resource: ApiScopeResource): RequestHandler => (_req, res, next) => {
+  res.locals.apiScope = resource;
+  next();
+};
+
+export default requireScope;
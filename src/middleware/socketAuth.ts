@@ -1,6 +1,8 @@
 import jwt from "jsonwebtoken";
 import { Socket } from "socket.io";
 import User from "../models/User";
+import { isSessionActive } from "../utils/authTokens";
+import { isTwoFactorSetupRequired } from "../utils/twoFactor";
 import { ExtendedError } from "socket.io/dist/namespace";
 
 const JWT_SECRET = process.env.JWT_SECRET || "supersecret";
@@ -18,6 +20,7 @@ export interface AuthenticatedSocket extends Socket {
     lastName?: string;
   };
   companyId: string;
+  sessionId: string;
 }
 
 /**
@@ -42,12 +45,18 @@ export const socketAuthMiddleware = async (
       email: string;
       role?: string;
       company?: string;
+      sid?: string;
     };
 
-    if (!decoded.id) {
+    if (!decoded.id || !decoded.sid) {
       return next(new Error("Invalid token payload"));
     }
 
+    // Security: Reject tokens whose session was revoked (logout, reuse detection)
+    if (!(await isSessionActive(decoded.sid))) {
+      return next(new Error("Session has been revoked"));
+    }
+
     // Fetch user from database with security checks
     const user = await User.findById(decoded.id)
       .select("-password -socketIds") // Exclude sensitive fields
@@ -67,10 +76,16 @@ export const socketAuthMiddleware = async (
       return next(new Error("User must belong to a company"));
     }
 
+    // Security: Company-enforced 2FA must be set up before chatting
+    if (await isTwoFactorSetupRequired(user)) {
+      return next(new Error("Two-factor authentication setup required"));
+    }
+
     // Attach user data to socket with type safety
     const authSocket = socket as AuthenticatedSocket;
     authSocket.userId = user._id.toString();
     authSocket.companyId = user.company.toString();
+    authSocket.sessionId = decoded.sid;
     authSocket.user = {
       id: user._id.toString(),
       _id: user._id.toString(),
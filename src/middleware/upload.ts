@@ -1,4 +1,6 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
 import multer from "multer";
+import { MESSAGE_FILE_MIME_TYPES } from "../models/Message";
 
 // Memory storage keeps files in memory as Buffer (perfect for piping to Cloudinary)
 const storage = multer.memoryStorage();
@@ -16,4 +18,80 @@ function fileFilter(_req: any, file: any, cb: multer.FileFilterCallback) {
 
 export const upload = multer({ storage, limits: { fileSize: MAX_SIZE_BYTES }, fileFilter });
 
+// Task attachments: documents, spreadsheets, presentations, images and archives.
+// The stored file's extension comes from this map, never from the uploaded name.
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.ms-excel": "xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.ms-powerpoint": "ppt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.oasis.opendocument.spreadsheet": "ods",
+  "application/vnd.oasis.opendocument.presentation": "odp",
+  "application/rtf": "rtf",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "text/markdown": "md",
+  "application/zip": "zip",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif"
+};
+
+const ATTACHMENT_MAX_SIZE_BYTES = 25 * 1024 * 1024; // 25MB
+
+export const attachmentUpload = multer({
+  storage,
+  limits: { fileSize: ATTACHMENT_MAX_SIZE_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (ATTACHMENT_TYPES[file.mimetype]) {
+      cb(null, true);
+    } else {
+      cb(new Error("Unsupported file type. Upload documents, spreadsheets, presentations, images or zip archives"));
+    }
+  }
+});
+
+// Chat uploads: the message MIME whitelist, with a size limit per kind of file
+const CHAT_IMAGE_MAX_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
+const CHAT_TEXT_MAX_SIZE_BYTES = 5 * 1024 * 1024; // 5MB
+const CHAT_DOCUMENT_MAX_SIZE_BYTES = 25 * 1024 * 1024; // 25MB
+
+export const chatUploadLimit = (mimetype: string): number => {
+  if (mimetype.startsWith("image/")) return CHAT_IMAGE_MAX_SIZE_BYTES;
+  if (mimetype.startsWith("text/")) return CHAT_TEXT_MAX_SIZE_BYTES;
+  return CHAT_DOCUMENT_MAX_SIZE_BYTES;
+};
+
+export const chatUpload = multer({
+  storage,
+  // Largest per-type limit; the handler enforces the one for the actual type
+  limits: { fileSize: CHAT_DOCUMENT_MAX_SIZE_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (MESSAGE_FILE_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Unsupported file type. Upload images, PDFs, Word or Excel documents, or plain text"));
+    }
+  }
+});
+
+/**
+ * Run a multer middleware and answer its errors (size, type) with 400/413 instead of a 500
+ */
+export const handleUpload = (middleware: RequestHandler) => (req: Request, res: Response, next: NextFunction) => {
+  middleware(req, res, (error?: any) => {
+    if (!error) return next();
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ message: error.code === "LIMIT_FILE_SIZE" ? "File is too large" : error.message });
+    }
+    return res.status(400).json({ message: error.message || "Invalid upload" });
+  });
+};
+
 export default upload;
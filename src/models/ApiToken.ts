@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { API_SCOPES } from "../utils/apiScopes";
+
+export interface IApiToken extends Document {
+  name: string;
+  kind: "personal" | "service";
+  tokenHash: string; // sha256 of the raw "rop_..." token, shown to the creator once
+  prefix: string; // first characters of the token so users can tell tokens apart
+  user: Types.ObjectId; // account the token authenticates as (a service account for kind "service")
+  company?: Types.ObjectId;
+  scopes: string[];
+  createdBy: Types.ObjectId;
+  expiresAt?: Date; // no expiry when unset
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const apiTokenSchema = new Schema<IApiToken>({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  kind: { type: String, enum: ["personal", "service"], required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  prefix: { type: String, required: true },
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  company: { type: Schema.Types.ObjectId, ref: "Company" },
+  scopes: [{ type: String, enum: API_SCOPES }],
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  expiresAt: { type: Date },
+  lastUsedAt: { type: Date },
+  lastUsedIp: { type: String },
+  revokedAt: { type: Date },
+  revokedBy: { type: Schema.Types.ObjectId, ref: "User" },
+}, { timestamps: true });
+
+apiTokenSchema.index({ user: 1, revokedAt: 1 });
+apiTokenSchema.index({ company: 1, kind: 1 });
+
+export default mongoose.model<IApiToken>("ApiToken", apiTokenSchema);
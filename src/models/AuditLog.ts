@@ -1,10 +1,50 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export const AUDIT_ENTITY_TYPES = ["user", "company", "invitation", "role", "sso_connection", "company_domain", "join_request", "api_token", "webhook"] as const;
+export const AUDIT_ACTIONS = [
+  "update",
+  "update_avatar",
+  "update_logo",
+  "create_invitation",
+  "resend_invitation",
+  "revoke_invitation",
+  "accept_invitation",
+  "account_locked",
+  "account_unlocked",
+  "create_role",
+  "update_role",
+  "delete_role",
+  "assign_role",
+  "update_sso_connection",
+  "delete_sso_connection",
+  "sso_provision",
+  "add_domain",
+  "verify_domain",
+  "update_domain",
+  "remove_domain",
+  "domain_auto_join",
+  "approve_join_request",
+  "reject_join_request",
+  "link_google",
+  "unlink_google",
+  "create_api_token",
+  "revoke_api_token",
+  "create_service_account",
+  "delete_service_account",
+  "create_webhook",
+  "update_webhook",
+  "rotate_webhook_secret",
+  "delete_webhook",
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
 export interface IAuditLog extends Document {
   actorId: Schema.Types.ObjectId;
-  entityType: "user" | "company";
+  entityType: AuditEntityType;
   entityId: Schema.Types.ObjectId;
-  action: "update";
+  action: AuditAction;
   changes: Record<string, any>;
   ip?: string;
   userAgent?: string;
@@ -14,9 +54,9 @@ export interface IAuditLog extends Document {
 
 const auditLogSchema = new Schema<IAuditLog>({
   actorId: { type: Schema.Types.ObjectId, ref: "User", required: true },
-  entityType: { type: String, enum: ["user", "company"], required: true },
+  entityType: { type: String, enum: AUDIT_ENTITY_TYPES, required: true },
   entityId: { type: Schema.Types.ObjectId, required: true },
-  action: { type: String, enum: ["update"], required: true },
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
   changes: { type: Schema.Types.Mixed, required: true },
   ip: { type: String },
   userAgent: { type: String },
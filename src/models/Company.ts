@@ -13,6 +13,7 @@ export interface ICompany extends Document {
   subscriptionPlan?: "free" | "pro" | "enterprise";
   subscriptionStatus?: "active" | "canceled" | "trial";
   billingCycle?: "monthly" | "yearly";
+  enforceTwoFactor?: boolean; // Require TOTP 2FA for every member
   admin: Schema.Types.ObjectId; // Company admin who can manage users
   createdBy: Schema.Types.ObjectId; // Superadmin who created the company
   createdAt?: Date;
@@ -32,6 +33,7 @@ const companySchema = new Schema<ICompany>({
   subscriptionPlan: { type: String, enum: ["free", "pro", "enterprise"], default: "free" },
   subscriptionStatus: { type: String, enum: ["active", "canceled", "trial"], default: "trial" },
   billingCycle: { type: String, enum: ["monthly", "yearly"], default: "monthly" },
+  enforceTwoFactor: { type: Boolean, default: false },
   admin: { type: Schema.Types.ObjectId, ref: "User", required: true },
   createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
 }, { timestamps: true });
@@ -0,0 +1,27 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface ICompanyDomain extends Document {
+  company: Types.ObjectId;
+  domain: string; // lowercase, e.g. "acme.com"
+  verificationToken: string; // published as a DNS TXT record to prove ownership
+  verifiedAt?: Date;
+  joinPolicy: "auto" | "approval"; // what happens when someone signs up with this domain
+  createdBy: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const companyDomainSchema = new Schema<ICompanyDomain>({
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  domain: { type: String, required: true, lowercase: true, trim: true },
+  verificationToken: { type: String, required: true },
+  verifiedAt: { type: Date },
+  joinPolicy: { type: String, enum: ["auto", "approval"], default: "approval" },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+}, { timestamps: true });
+
+companyDomainSchema.index({ company: 1, domain: 1 }, { unique: true });
+// Several companies may claim a domain, but only one can verify it
+companyDomainSchema.index({ domain: 1 }, { unique: true, partialFilterExpression: { verifiedAt: { $exists: true } } });
+
+export default mongoose.model<ICompanyDomain>("CompanyDomain", companyDomainSchema);
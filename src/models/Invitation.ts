@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface IInvitation extends Document {
+  company: Types.ObjectId;
+  email: string;
+  role: "employee" | "member";
+  tokenHash: string; // sha256 of the emailed token, rotated on resend
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  status: "pending" | "accepted" | "revoked";
+  sendCount: number;
+  lastSentAt?: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  acceptedVia?: "password" | "google";
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>({
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  email: { type: String, required: true, lowercase: true, trim: true },
+  role: { type: String, enum: ["employee", "member"], default: "employee", required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  invitedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  expiresAt: { type: Date, required: true },
+  status: { type: String, enum: ["pending", "accepted", "revoked"], default: "pending", required: true },
+  sendCount: { type: Number, default: 1 },
+  lastSentAt: { type: Date },
+  acceptedAt: { type: Date },
+  acceptedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  acceptedVia: { type: String, enum: ["password", "google"] },
+  revokedAt: { type: Date },
+  revokedBy: { type: Schema.Types.ObjectId, ref: "User" },
+}, { timestamps: true });
+
+invitationSchema.index({ company: 1, status: 1 });
+invitationSchema.index({ company: 1, email: 1, status: 1 });
+
+export default mongoose.model<IInvitation>("Invitation", invitationSchema);
@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface IJoinRequest extends Document {
+  user: Types.ObjectId;
+  company: Types.ObjectId;
+  domain: string; // verified domain that matched the user's email
+  source: "password" | "google";
+  status: "pending" | "approved" | "rejected";
+  decidedBy?: Types.ObjectId;
+  decidedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const joinRequestSchema = new Schema<IJoinRequest>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  domain: { type: String, required: true },
+  source: { type: String, enum: ["password", "google"], required: true },
+  status: { type: String, enum: ["pending", "approved", "rejected"], default: "pending" },
+  decidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  decidedAt: { type: Date },
+}, { timestamps: true });
+
+joinRequestSchema.index({ company: 1, status: 1, createdAt: -1 });
+// One open request per user and company
+joinRequestSchema.index({ user: 1, company: 1 }, { unique: true, partialFilterExpression: { status: "pending" } });
+
+export default mongoose.model<IJoinRequest>("JoinRequest", joinRequestSchema);
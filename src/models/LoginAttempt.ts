@@ -0,0 +1,22 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ILoginAttempt extends Document {
+  key: string; // e.g. "account:jane@acme.com" or "ip:203.0.113.7"
+  failures: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+const loginAttemptSchema = new Schema<ILoginAttempt>({
+  key: { type: String, required: true, unique: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: { type: Date },
+  lockedUntil: { type: Date },
+  expiresAt: { type: Date, required: true },
+}, { timestamps: true });
+
+// Counters reset themselves once the tracking window passes
+loginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginAttempt>("LoginAttempt", loginAttemptSchema);
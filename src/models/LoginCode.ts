@@ -0,0 +1,27 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const LOGIN_CODE_PURPOSES = ["login", "two_factor"] as const;
+export type LoginCodePurpose = typeof LOGIN_CODE_PURPOSES[number];
+
+export interface ILoginCode extends Document {
+  user: Types.ObjectId;
+  codeHash: string; // sha256 of the code handed to the frontend in the OAuth/SSO redirect
+  purpose: LoginCodePurpose; // "two_factor" codes stand in for the 2FA challenge token
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const loginCodeSchema = new Schema<ILoginCode>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  codeHash: { type: String, required: true, unique: true },
+  purpose: { type: String, enum: LOGIN_CODE_PURPOSES, default: "login" },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date },
+}, { timestamps: true });
+
+// Expired codes are useless, let MongoDB remove them
+loginCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginCode>("LoginCode", loginCodeSchema);
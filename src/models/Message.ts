@@ -1,5 +1,14 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+// Security: Whitelist of MIME types accepted for file and image messages
+export const MESSAGE_FILE_MIME_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'application/pdf', 'text/plain', 'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
 export interface IMessage extends Document {
   content: string;
   senderId: mongoose.Types.ObjectId;
@@ -10,6 +19,7 @@ export interface IMessage extends Document {
   fileName?: string;
   fileSize?: number;
   fileMimeType?: string;
+  thumbnailUrl?: string; // image messages only
   isEdited: boolean;
   editedAt?: Date;
   replyTo?: mongoose.Types.ObjectId;
@@ -109,18 +119,18 @@ const messageSchema = new Schema<IMessage>({
     validate: {
       validator: function(v: string) {
         // Security: Whitelist allowed MIME types
-        const allowedTypes = [
-          'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-          'application/pdf', 'text/plain', 'application/msword',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/vnd.ms-excel',
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-        ];
-        return !v || allowedTypes.includes(v);
+        return !v || MESSAGE_FILE_MIME_TYPES.includes(v);
       },
       message: "File type not allowed"
     }
   },
+  thumbnailUrl: {
+    type: String,
+    validate: {
+      validator: (v: string) => !v || /^https?:\/\/.+/.test(v),
+      message: "Invalid thumbnail URL format"
+    }
+  },
   isEdited: { 
     type: Boolean, 
     default: false 
@@ -187,6 +197,12 @@ messageSchema.index({ senderId: 1, companyId: 1 });
 messageSchema.index({ companyId: 1, isDeleted: 1 });
 messageSchema.index({ channelId: 1, isDeleted: 1, createdAt: -1 });
 
+// Full-text search over message text and attachment names (GET /api/chat/search)
+messageSchema.index(
+  { content: "text", fileName: "text" },
+  { name: "message_text", weights: { content: 10, fileName: 3 } }
+);
+
 // Security: Compound index for efficient and secure queries
 messageSchema.index({ 
   channelId: 1, 
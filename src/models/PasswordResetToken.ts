@@ -0,0 +1,25 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface IPasswordResetToken extends Document {
+  user: Types.ObjectId;
+  tokenHash: string; // sha256 of the emailed token
+  expiresAt: Date;
+  usedAt?: Date;
+  requestedIp?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const passwordResetTokenSchema = new Schema<IPasswordResetToken>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date },
+  requestedIp: { type: String },
+}, { timestamps: true });
+
+passwordResetTokenSchema.index({ user: 1, usedAt: 1 });
+// Expired tokens are useless, let MongoDB remove them
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPasswordResetToken>("PasswordResetToken", passwordResetTokenSchema);
@@ -1,13 +1,44 @@
 import mongoose, { Document, Schema, Types } from "mongoose";
 import { IUser } from "./User";
 
+export const PROJECT_ROLES = ["owner", "maintainer", "contributor", "viewer"] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+// Every workflow status maps onto one of these so analytics and roll-ups stay comparable
+export const STATUS_CATEGORIES = ["todo", "in_progress", "done"] as const;
+export type StatusCategory = typeof STATUS_CATEGORIES[number];
+
+export interface IWorkflowStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color?: string;
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+}
+
+export interface IWorkflow {
+  statuses: IWorkflowStatus[]; // ordered; the first one is the initial status
+  transitions: IWorkflowTransition[]; // empty means any move is allowed
+}
+
+export interface IProjectMemberRole {
+  user: Types.ObjectId;
+  role: ProjectRole;
+}
+
 export interface IProject extends Document {
   name: string;
   description?: string;
   progress: number; // 0-100
   dueDate: Date;
   members: IUser[];
+  memberRoles: IProjectMemberRole[]; // per-project rights; members without an entry are contributors
   tasks: Types.ObjectId[]; // Task IDs
+  workflow?: IWorkflow; // custom task statuses; utils/workflow falls back to todo/in_progress/done
   status: "active" | "completed" | "on_hold" | "cancelled";
   createdBy: Types.ObjectId; // user ID
   company: Types.ObjectId; // company ID for multi-tenancy
@@ -27,7 +58,30 @@ const projectSchema = new Schema<IProject>({
   },
   dueDate: { type: Date, required: true },
   members: [{ type: Schema.Types.ObjectId, ref: "User" }],
+  memberRoles: [{
+    _id: false,
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    role: { type: String, enum: PROJECT_ROLES, required: true }
+  }],
   tasks: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+  workflow: {
+    type: {
+      _id: false,
+      statuses: [{
+        _id: false,
+        key: { type: String, required: true },
+        name: { type: String, required: true, trim: true },
+        category: { type: String, enum: STATUS_CATEGORIES, required: true },
+        color: { type: String }
+      }],
+      transitions: [{
+        _id: false,
+        from: { type: String, required: true },
+        to: { type: String, required: true }
+      }]
+    },
+    default: undefined
+  },
   status: {
     type: String,
     enum: ["active", "completed", "on_hold", "cancelled"],
@@ -48,11 +102,18 @@ projectSchema.index({ status: 1 });
 projectSchema.index({ dueDate: 1 });
 projectSchema.index({ createdBy: 1 });
 projectSchema.index({ members: 1 });
+projectSchema.index({ "memberRoles.user": 1 });
 
 // Compound indexes for common queries
 projectSchema.index({ company: 1, status: 1 });
 projectSchema.index({ company: 1, members: 1 });
 
+// Full-text search (GET /api/search)
+projectSchema.index(
+  { name: "text", description: "text" },
+  { name: "project_text", weights: { name: 10, description: 2 } }
+);
+
 // Virtual for calculating progress based on tasks
 projectSchema.virtual('calculatedProgress').get(function() {
   // This will be calculated in the controller when tasks are populated
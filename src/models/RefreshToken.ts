@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface IRefreshToken extends Document {
+  user: Types.ObjectId;
+  tokenHash: string; // sha256 of the opaque token, the raw value is never stored
+  family: string; // id of the Session every token rotated from the same login belongs to
+  expiresAt: Date;
+  rotatedAt?: Date;
+  replacedBy?: Types.ObjectId;
+  revokedAt?: Date;
+  revokedReason?: "logout" | "reuse_detected" | "revoked";
+  ip?: string;
+  userAgent?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  family: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  rotatedAt: { type: Date },
+  replacedBy: { type: Schema.Types.ObjectId, ref: "RefreshToken" },
+  revokedAt: { type: Date },
+  revokedReason: { type: String, enum: ["logout", "reuse_detected", "revoked"] },
+  ip: { type: String },
+  userAgent: { type: String },
+}, { timestamps: true });
+
+refreshTokenSchema.index({ family: 1, revokedAt: 1 });
+refreshTokenSchema.index({ user: 1 });
+// Let MongoDB purge expired tokens on its own
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRefreshToken>("RefreshToken", refreshTokenSchema);
@@ -0,0 +1,24 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { PERMISSIONS, Permission } from "../utils/permissions";
+
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  company: Types.ObjectId; // custom roles are always company-scoped
+  createdBy: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const roleSchema = new Schema<IRole>({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, trim: true, maxlength: 500 },
+  permissions: [{ type: String, enum: PERMISSIONS }],
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+}, { timestamps: true });
+
+roleSchema.index({ company: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IRole>("Role", roleSchema);
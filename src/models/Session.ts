@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface ISession extends Document {
+  user: Types.ObjectId;
+  device?: string; // human readable device, derived from the user agent
+  ip?: string;
+  userAgent?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  socketIds: string[]; // Socket.IO connections opened with this session's tokens
+  revokedAt?: Date;
+  revokedReason?: "logout" | "reuse_detected" | "revoked";
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  device: { type: String },
+  ip: { type: String },
+  userAgent: { type: String },
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  socketIds: [{ type: String }],
+  revokedAt: { type: Date },
+  revokedReason: { type: String, enum: ["logout", "reuse_detected", "revoked"] },
+}, { timestamps: true });
+
+sessionSchema.index({ user: 1, revokedAt: 1, expiresAt: 1 });
+// Keep revoked/expired sessions around for a week for auditing, then purge
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export default mongoose.model<ISession>("Session", sessionSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface ISsoConnection extends Document {
+  company: Types.ObjectId; // one connection per company
+  protocol: "oidc";
+  issuer: string; // discovery document lives at <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string;
+  domains: string[]; // email domains bound to this connection (lowercase)
+  scopes: string[];
+  defaultRole: "employee" | "member"; // role given to just-in-time provisioned users
+  enabled: boolean;
+  disablePasswordLogin: boolean; // members must sign in through the IdP
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ssoConnectionSchema = new Schema<ISsoConnection>({
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true, unique: true },
+  protocol: { type: String, enum: ["oidc"], default: "oidc", required: true },
+  issuer: { type: String, required: true, trim: true },
+  clientId: { type: String, required: true },
+  clientSecret: { type: String, required: true, select: false },
+  domains: [{ type: String, lowercase: true, trim: true }],
+  scopes: { type: [String], default: ["openid", "email", "profile"] },
+  defaultRole: { type: String, enum: ["employee", "member"], default: "employee" },
+  enabled: { type: Boolean, default: true },
+  disablePasswordLogin: { type: Boolean, default: false },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  updatedBy: { type: Schema.Types.ObjectId, ref: "User" },
+}, { timestamps: true });
+
+// A domain can only route to one company
+ssoConnectionSchema.index({ domains: 1 }, { unique: true, partialFilterExpression: { "domains.0": { $exists: true } } });
+
+export default mongoose.model<ISsoConnection>("SsoConnection", ssoConnectionSchema);
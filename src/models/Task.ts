@@ -1,21 +1,61 @@
 import mongoose, { Document, Schema, Types } from "mongoose";
+import { STATUS_CATEGORIES, StatusCategory } from "./Project";
+import { RECURRENCE_FREQUENCIES, IRecurrenceRule } from "../utils/recurrence";
+
+export interface IChecklistItem {
+  _id: Types.ObjectId;
+  text: string;
+  done: boolean;
+  doneAt?: Date;
+  doneBy?: Types.ObjectId;
+}
+
+export interface ITaskAttachment {
+  _id: Types.ObjectId;
+  filename: string; // original name, for display and downloads
+  mimetype: string;
+  size: number; // bytes
+  url: string;
+  storageKey: string; // see utils/fileStorage
+  provider: "cloudinary" | "local";
+  resourceType?: "image" | "raw"; // Cloudinary only
+  uploadedBy: Types.ObjectId;
+  uploadedAt: Date;
+}
+
+export interface ITaskAssignee {
+  id: Types.ObjectId;
+  name: string; // snapshot, refreshed by utils/taskAssignees syncUserTaskSnapshots()
+  avatarUrl?: string;
+}
 
 export interface ITask extends Document {
   title: string;
   description: string;
-  assignee: {
-    id: Types.ObjectId;
-    name: string;
-    avatarUrl?: string;
-  };
+  assignees: ITaskAssignee[]; // at least one; replaces the legacy single `assignee`
+  watchers: Types.ObjectId[]; // users following the task without working on it
   dueDate: Date;
   priority: "high" | "medium" | "low";
-  status: "todo" | "in_progress" | "done";
+  status: string; // key of a status in the project's workflow (see utils/workflow)
+  statusCategory: StatusCategory; // category of that status, used by analytics, roll-ups and blockers
   project?: {
     id: Types.ObjectId;
     name: string;
   };
   tags?: string[];
+  parentTask?: Types.ObjectId; // set on subtasks
+  position: number; // order among the parent's subtasks
+  rank?: string; // order within its board column (utils/rank), unset on legacy tasks
+  subtaskStats: { total: number; done: number }; // maintained by utils/subtasks rollUpParent()
+  checklist: Types.DocumentArray<IChecklistItem & Types.Subdocument>; // ordered
+  blockedBy: Types.ObjectId[]; // tasks that must be done before this one can start
+  attachments: Types.DocumentArray<ITaskAttachment & Types.Subdocument>;
+  estimateMinutes?: number;
+  timeSpentMinutes: number; // sum of finished time entries, maintained by utils/timeTracking
+  seriesId?: Types.ObjectId; // shared by all occurrences of a recurring task (ID of the first one)
+  occurrence?: number; // 1-based position in the series
+  recurrence?: IRecurrenceRule; // only on the latest occurrence; moves on when the next one is generated
+  progress: number; // virtual, 0-100 over subtasks and checklist items
   createdBy: Types.ObjectId; // user ID
   company: Types.ObjectId; // company ID for multi-tenancy
   createdAt?: Date;
@@ -25,11 +65,13 @@ export interface ITask extends Document {
 const taskSchema = new Schema<ITask>({
   title: { type: String, required: true, trim: true },
   description: { type: String, required: true, trim: true },
-  assignee: {
+  assignees: [{
+    _id: false,
     id: { type: Schema.Types.ObjectId, ref: "User", required: true },
     name: { type: String, required: true },
     avatarUrl: { type: String }
-  },
+  }],
+  watchers: [{ type: Schema.Types.ObjectId, ref: "User" }],
   dueDate: { type: Date, required: true },
   priority: {
     type: String,
@@ -39,7 +81,12 @@ const taskSchema = new Schema<ITask>({
   },
   status: {
     type: String,
-    enum: ["todo", "in_progress", "done"],
+    default: "todo",
+    required: true
+  },
+  statusCategory: {
+    type: String,
+    enum: STATUS_CATEGORIES,
     default: "todo",
     required: true
   },
@@ -48,6 +95,48 @@ const taskSchema = new Schema<ITask>({
     name: { type: String }
   },
   tags: [{ type: String, trim: true }],
+  parentTask: { type: Schema.Types.ObjectId, ref: "Task" },
+  position: { type: Number, default: 0 },
+  rank: { type: String },
+  subtaskStats: {
+    total: { type: Number, default: 0 },
+    done: { type: Number, default: 0 }
+  },
+  checklist: [{
+    text: { type: String, required: true, trim: true, maxlength: 500 },
+    done: { type: Boolean, default: false },
+    doneAt: { type: Date },
+    doneBy: { type: Schema.Types.ObjectId, ref: "User" }
+  }],
+  blockedBy: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+  attachments: [{
+    filename: { type: String, required: true, trim: true },
+    mimetype: { type: String, required: true },
+    size: { type: Number, required: true },
+    url: { type: String, required: true },
+    storageKey: { type: String, required: true },
+    provider: { type: String, enum: ["cloudinary", "local"], required: true },
+    resourceType: { type: String, enum: ["image", "raw"] },
+    uploadedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    uploadedAt: { type: Date, default: Date.now }
+  }],
+  estimateMinutes: { type: Number, min: 0 },
+  timeSpentMinutes: { type: Number, min: 0, default: 0 },
+  seriesId: { type: Schema.Types.ObjectId, ref: "Task" },
+  occurrence: { type: Number },
+  recurrence: {
+    type: {
+      _id: false,
+      frequency: { type: String, enum: RECURRENCE_FREQUENCIES, required: true },
+      interval: { type: Number, min: 1, default: 1 },
+      byWeekday: [{ type: Number, min: 0, max: 6 }],
+      byMonthDay: { type: Number, min: 1, max: 31 },
+      until: { type: Date },
+      count: { type: Number, min: 1 },
+      anchor: { type: Date, required: true }
+    },
+    default: undefined
+  },
   createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
   company: { type: Schema.Types.ObjectId, ref: "Company", required: true }
 }, { 
@@ -57,7 +146,6 @@ const taskSchema = new Schema<ITask>({
 });
 
 // Indexes for performance
-taskSchema.index({ assignee: 1 });
 taskSchema.index({ status: 1 });
 taskSchema.index({ priority: 1 });
 taskSchema.index({ dueDate: 1 });
@@ -67,7 +155,29 @@ taskSchema.index({ createdBy: 1 });
 
 // Compound indexes for common queries
 taskSchema.index({ company: 1, status: 1 });
-taskSchema.index({ company: 1, "assignee.id": 1 });
+taskSchema.index({ company: 1, statusCategory: 1 });
+taskSchema.index({ company: 1, "assignees.id": 1 });
+taskSchema.index({ company: 1, watchers: 1 });
 taskSchema.index({ company: 1, "project.id": 1 });
+taskSchema.index({ parentTask: 1, position: 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ company: 1, "project.id": 1, status: 1, rank: 1 });
+taskSchema.index({ seriesId: 1, occurrence: 1 });
+taskSchema.index({ "recurrence.frequency": 1, dueDate: 1 }, { partialFilterExpression: { "recurrence.frequency": { $exists: true } } });
+
+// Full-text search (GET /api/search)
+taskSchema.index(
+  { title: "text", tags: "text", description: "text" },
+  { name: "task_text", weights: { title: 10, tags: 5, description: 2 } }
+);
+
+// Completion over subtasks and checklist items; a task with neither counts by its own status
+taskSchema.virtual("progress").get(function() {
+  const checklist = this.checklist ?? [];
+  const total = (this.subtaskStats?.total ?? 0) + checklist.length;
+  if (total === 0) return this.statusCategory === "done" ? 100 : 0;
+  const done = (this.subtaskStats?.done ?? 0) + checklist.filter((item) => item.done).length;
+  return Math.round((done / total) * 100);
+});
 
 export default mongoose.model<ITask>("Task", taskSchema);
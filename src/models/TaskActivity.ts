@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const TASK_ACTIVITY_ACTIONS = ["created", "updated", "deleted"] as const;
+export type TaskActivityAction = typeof TASK_ACTIVITY_ACTIONS[number];
+
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "assignee", // first assignee, as recorded before tasks had several
+  "assignees",
+  "dueDate",
+  "priority",
+  "estimateMinutes",
+  "project",
+  "parentTask",
+  "blockedBy",
+  "tags"
+] as const;
+export type TrackedTaskField = typeof TRACKED_TASK_FIELDS[number];
+
+export interface ITaskFieldChange {
+  field: TrackedTaskField;
+  from: any;
+  to: any;
+}
+
+export interface ITaskActivity extends Document {
+  task: Types.ObjectId;
+  taskTitle: string; // kept so the feed still reads well after the task is deleted
+  projects: Types.ObjectId[]; // projects whose feed shows this entry (old and new one on a move)
+  company: Types.ObjectId; // company ID for multi-tenancy
+  actor?: Types.ObjectId;
+  action: TaskActivityAction;
+  changes: ITaskFieldChange[];
+  createdAt?: Date;
+}
+
+const taskActivitySchema = new Schema<ITaskActivity>({
+  task: { type: Schema.Types.ObjectId, ref: "Task", required: true },
+  taskTitle: { type: String, required: true },
+  projects: [{ type: Schema.Types.ObjectId, ref: "Project" }],
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  actor: { type: Schema.Types.ObjectId, ref: "User" },
+  action: { type: String, enum: TASK_ACTIVITY_ACTIONS, required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, enum: TRACKED_TASK_FIELDS, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed }
+  }]
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for the task timeline and the project feed
+taskActivitySchema.index({ task: 1, createdAt: -1 });
+taskActivitySchema.index({ projects: 1, createdAt: -1 });
+taskActivitySchema.index({ company: 1, createdAt: -1 });
+
+export default mongoose.model<ITaskActivity>("TaskActivity", taskActivitySchema);
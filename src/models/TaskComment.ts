@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export interface ITaskCommentEdit {
+  content: string;
+  editedAt: Date;
+}
+
+export interface ITaskComment extends Document {
+  task: Types.ObjectId;
+  company: Types.ObjectId; // company ID for multi-tenancy
+  author: Types.ObjectId;
+  content: string;
+  mentions: Types.ObjectId[]; // resolved company users
+  history: ITaskCommentEdit[]; // previous versions, oldest first
+  isEdited: boolean;
+  editedAt?: Date;
+  isDeleted: boolean;
+  deletedAt?: Date;
+  deletedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const taskCommentSchema = new Schema<ITaskComment>({
+  task: { type: Schema.Types.ObjectId, ref: "Task", required: true },
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  content: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [5000, "Comment cannot exceed 5000 characters"]
+  },
+  mentions: [{ type: Schema.Types.ObjectId, ref: "User" }],
+  history: [{
+    _id: false,
+    content: { type: String, required: true },
+    editedAt: { type: Date, required: true }
+  }],
+  isEdited: { type: Boolean, default: false },
+  editedAt: { type: Date },
+  isDeleted: { type: Boolean, default: false },
+  deletedAt: { type: Date },
+  deletedBy: { type: Schema.Types.ObjectId, ref: "User" }
+}, {
+  timestamps: true
+});
+
+// Indexes for performance
+taskCommentSchema.index({ task: 1, createdAt: 1 });
+taskCommentSchema.index({ company: 1, mentions: 1 });
+
+export default mongoose.model<ITaskComment>("TaskComment", taskCommentSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const TIME_ENTRY_SOURCES = ["manual", "timer"] as const;
+export type TimeEntrySource = typeof TIME_ENTRY_SOURCES[number];
+
+export interface ITimeEntry extends Document {
+  task: Types.ObjectId;
+  taskTitle: string; // kept so timesheets still read well after the task is deleted
+  project?: Types.ObjectId; // project of the task, for per-project reports
+  company: Types.ObjectId; // company ID for multi-tenancy
+  user: Types.ObjectId; // who did the work
+  source: TimeEntrySource;
+  startedAt: Date;
+  endedAt?: Date; // unset while the timer is running
+  minutes: number; // 0 while the timer is running
+  isRunning: boolean;
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const timeEntrySchema = new Schema<ITimeEntry>({
+  task: { type: Schema.Types.ObjectId, ref: "Task", required: true },
+  taskTitle: { type: String, required: true },
+  project: { type: Schema.Types.ObjectId, ref: "Project" },
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  source: { type: String, enum: TIME_ENTRY_SOURCES, required: true },
+  startedAt: { type: Date, required: true },
+  endedAt: { type: Date },
+  minutes: { type: Number, min: 0, default: 0 },
+  isRunning: { type: Boolean, default: false },
+  note: { type: String, trim: true, maxlength: [500, "Note cannot exceed 500 characters"] }
+}, {
+  timestamps: true
+});
+
+// One running timer per user
+timeEntrySchema.index({ user: 1 }, { unique: true, partialFilterExpression: { isRunning: true } });
+
+// Indexes for task lists, timesheets and company reports
+timeEntrySchema.index({ task: 1, startedAt: -1 });
+timeEntrySchema.index({ user: 1, startedAt: 1 });
+timeEntrySchema.index({ company: 1, startedAt: 1 });
+timeEntrySchema.index({ company: 1, project: 1, startedAt: 1 });
+
+export default mongoose.model<ITimeEntry>("TimeEntry", timeEntrySchema);
@@ -9,10 +9,13 @@ export interface IUser extends Document {
   email: string;
   password: string;
   role: "superadmin" | "company_admin" | "employee" | "member";
+  accountType?: "user" | "service"; // service accounts are company-owned and only use API tokens
   avatar?: string; // legacy avatar field
   avatarUrl?: string; // new avatar URL field
   avatarPublicId?: string; // Cloudinary public id for cleanup
   googleId?: string;
+  ssoConnection?: Schema.Types.ObjectId; // company OIDC connection the account signs in through
+  ssoSubject?: string; // "sub" claim issued by that connection's IdP
   phone?: string;
   jobTitle?: string;
   timezone?: string;
@@ -21,8 +24,15 @@ export interface IUser extends Document {
   country?: string;
   address?: string;
   company?: string; // company id reference
+  customRole?: Schema.Types.ObjectId; // company-defined role overriding the default permissions
   // Security fields
   requirePasswordChange?: boolean; // Force password change on first login
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string; // base32 TOTP secret, only set once enrollment is verified
+  twoFactorPendingSecret?: string; // secret awaiting first code during enrollment
+  twoFactorRecoveryCodes?: string[]; // sha256 hashes of unused recovery codes
+  twoFactorLastUsedStep?: number; // last accepted TOTP step, prevents code replay
+  twoFactorEnabledAt?: Date;
   // Chat-related fields
   chatStatus?: "online" | "offline" | "away" | "busy";
   lastSeen?: Date;
@@ -43,10 +53,13 @@ const userSchema = new Schema<IUser>({
     enum: ["superadmin", "company_admin", "employee", "member"],
     default: "employee",
   },
+  accountType: { type: String, enum: ["user", "service"], default: "user" },
   avatar: { type: String },
   avatarUrl: { type: String },
   avatarPublicId: { type: String },
   googleId: { type: String },
+  ssoConnection: { type: Schema.Types.ObjectId, ref: "SsoConnection" },
+  ssoSubject: { type: String },
   phone: { type: String },
   jobTitle: { type: String },
   timezone: { type: String },
@@ -55,8 +68,15 @@ const userSchema = new Schema<IUser>({
   country: { type: String },
   address: { type: String },
   company: { type: Schema.Types.ObjectId, ref: "Company", required: false },
+  customRole: { type: Schema.Types.ObjectId, ref: "Role" },
   // Security fields
   requirePasswordChange: { type: Boolean, default: false },
+  twoFactorEnabled: { type: Boolean, default: false },
+  twoFactorSecret: { type: String, select: false },
+  twoFactorPendingSecret: { type: String, select: false },
+  twoFactorRecoveryCodes: { type: [String], select: false },
+  twoFactorLastUsedStep: { type: Number, select: false },
+  twoFactorEnabledAt: { type: Date },
   // Chat-related fields
   chatStatus: { 
     type: String, 
@@ -67,4 +87,11 @@ const userSchema = new Schema<IUser>({
   socketIds: [{ type: String }], // Array of socket IDs for multi-device support
 }, { timestamps: true });
 
+userSchema.index({ ssoConnection: 1, ssoSubject: 1 }, { sparse: true });
+// Full-text search over the company directory (GET /api/search)
+userSchema.index(
+  { name: "text", email: "text", jobTitle: "text" },
+  { name: "user_text", weights: { name: 10, email: 5, jobTitle: 3 } }
+);
+
 export default mongoose.model<IUser>("User", userSchema);
@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.status_changed",
+  "project.completed",
+  "message.created",
+  "member.added",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface IWebhook extends Document {
+  company: Types.ObjectId;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string; // HMAC-SHA256 signing secret, shown to the creator once
+  active: boolean;
+  createdBy: Types.ObjectId;
+  lastDeliveryAt?: Date;
+  lastDeliveryStatus?: "succeeded" | "failed";
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>({
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  url: { type: String, required: true, trim: true },
+  description: { type: String, trim: true, maxlength: 500 },
+  events: [{ type: String, enum: WEBHOOK_EVENTS, required: true }],
+  secret: { type: String, required: true, select: false },
+  active: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  lastDeliveryAt: { type: Date },
+  lastDeliveryStatus: { type: String, enum: ["succeeded", "failed"] },
+}, { timestamps: true });
+
+webhookSchema.index({ company: 1, active: 1, events: 1 });
+
+export default mongoose.model<IWebhook>("Webhook", webhookSchema);
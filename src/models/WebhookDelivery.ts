@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { WEBHOOK_EVENTS, WebhookEvent } from "./Webhook";
+
+export interface IWebhookDelivery extends Document {
+  webhook: Types.ObjectId;
+  company: Types.ObjectId;
+  event: WebhookEvent;
+  eventId: string; // same for every delivery (and redelivery) of one event
+  payload: Record<string, any>;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt?: Date; // unset once the delivery is finished
+  lockedUntil?: Date; // claimed by a dispatcher run
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string; // truncated
+  error?: string;
+  durationMs?: number;
+  redeliveryOf?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  webhook: { type: Schema.Types.ObjectId, ref: "Webhook", required: true },
+  company: { type: Schema.Types.ObjectId, ref: "Company", required: true },
+  event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+  eventId: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: { type: String, enum: ["pending", "succeeded", "failed"], default: "pending" },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date },
+  lockedUntil: { type: Date },
+  lastAttemptAt: { type: Date },
+  responseStatus: { type: Number },
+  responseBody: { type: String },
+  error: { type: String },
+  durationMs: { type: Number },
+  redeliveryOf: { type: Schema.Types.ObjectId, ref: "WebhookDelivery" },
+}, { timestamps: true });
+
+// Dispatcher picks due deliveries in order
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+// Keep delivery logs for 30 days
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default mongoose.model<IWebhookDelivery>("WebhookDelivery", webhookDeliverySchema);
@@ -1,13 +1,68 @@
 import express from "express";
-import { register, login, createCompany, addUserToCompany, getCompanyUsers, getAllCompanies, changePassword } from "../controllers/authController";
+import rateLimit from "express-rate-limit";
+import { register, login, refreshToken, exchangeLoginCode, logout, forgotPassword, resetPassword, createCompany, addUserToCompany, unlockUser, getCompanyUsers, getAllCompanies, changePassword } from "../controllers/authController";
+import { getInvitationByToken, acceptInvitation } from "../controllers/invitationController";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyTwoFactorLogin
+} from "../controllers/twoFactorController";
 import { authMiddleware } from "../middleware/authMiddleware";
-import { requireSuperAdmin, requireCompanyAdmin, requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requireSuperAdmin, requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { validate } from "../middleware/validate";
+import {
+  refreshTokenSchema,
+  loginCodeSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  acceptInvitationSchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  twoFactorLoginSchema
+} from "../utils/validationSchemas";
 
 const router = express.Router();
 
+const passwordResetLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // Limit each IP to 5 reset requests per windowMs
+  message: {
+    message: "Too many password reset requests, please try again later"
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // Public routes
 router.post("/register", register);
 router.post("/login", login);
+router.post("/refresh", validate(refreshTokenSchema), refreshToken);
+router.post("/exchange", validate(loginCodeSchema), exchangeLoginCode);
+router.post("/logout", validate(refreshTokenSchema), logout);
+router.post("/forgot-password", passwordResetLimit, validate(forgotPasswordSchema), forgotPassword);
+router.post("/reset-password", passwordResetLimit, validate(resetPasswordSchema), resetPassword);
+router.post("/invitations/accept", validate(acceptInvitationSchema), acceptInvitation);
+router.get("/invitations/:token", getInvitationByToken);
+
+const twoFactorLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 code attempts per windowMs
+  message: {
+    message: "Too many verification attempts, please try again later"
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Two-factor authentication
+router.post("/2fa/verify", twoFactorLimit, validate(twoFactorLoginSchema), verifyTwoFactorLogin);
+router.post("/2fa/setup", authMiddleware, setupTwoFactor);
+router.post("/2fa/enable", authMiddleware, twoFactorLimit, validate(twoFactorCodeSchema), enableTwoFactor);
+router.post("/2fa/disable", authMiddleware, twoFactorLimit, validate(twoFactorDisableSchema), disableTwoFactor);
+router.post("/2fa/recovery-codes", authMiddleware, twoFactorLimit, validate(twoFactorCodeSchema), regenerateRecoveryCodes);
 
 // Authenticated user routes
 router.post("/change-password", authMiddleware, changePassword);
@@ -16,8 +71,9 @@ router.post("/change-password", authMiddleware, changePassword);
 router.post("/companies", authMiddleware, requireSuperAdmin, createCompany);
 router.get("/companies", authMiddleware, requireSuperAdmin, getAllCompanies);
 
-// Company admin routes (can also be accessed by superadmin)
-router.post("/companies/:companyId/users", authMiddleware, requireCompanyAdmin, addUserToCompany);
+// Company user management (company admins, superadmin, or custom roles with company:manage_users)
+router.post("/companies/:companyId/users", authMiddleware, requirePermission("company:manage_users"), addUserToCompany);
 router.get("/companies/:companyId/users", authMiddleware, requireCompanyAccess, getCompanyUsers);
+router.post("/companies/:companyId/users/:userId/unlock", authMiddleware, requirePermission("company:manage_users"), unlockUser);
 
 export default router;
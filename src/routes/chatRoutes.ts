@@ -2,6 +2,9 @@ import express from "express";
 import rateLimit from "express-rate-limit";
 import { authMiddleware } from "../middleware/authMiddleware";
 import { validate } from "../middleware/validate";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import { chatUpload, handleUpload } from "../middleware/upload";
 import {
   createChannelSchema,
   sendMessageSchema,
@@ -9,7 +12,9 @@ import {
   getMessagesSchema,
   updateChannelSchema,
   searchUsersSchema,
-  markAsReadSchema
+  searchMessagesSchema,
+  markAsReadSchema,
+  fileUploadSchema
 } from "../utils/chatValidation";
 import {
   getChannels,
@@ -19,7 +24,9 @@ import {
   editMessage,
   deleteMessage,
   markAsRead,
-  searchUsers
+  searchUsers,
+  searchMessages,
+  uploadChatFile
 } from "../controllers/chatController";
 
 const router = express.Router();
@@ -58,7 +65,8 @@ const channelCreationLimit = rateLimit({
 // Apply rate limiting to all chat routes
 router.use(chatRateLimit);
 
-// Apply authentication to all routes
+// Apply authentication to all routes (API tokens need the chat scope)
+router.use(requireScope("chat"));
 router.use(authMiddleware);
 
 /**
@@ -76,6 +84,7 @@ router.get("/channels", getChannels);
 router.post(
   "/channels",
   channelCreationLimit,
+  requirePermission("channel:create"),
   validate(createChannelSchema),
   createChannel
 );
@@ -139,6 +148,29 @@ router.delete("/messages/:messageId", deleteMessage);
  */
 router.post("/channels/:channelId/read", markAsRead);
 
+/**
+ * @route   GET /api/chat/search
+ * @desc    Full-text search over messages in the user's channels
+ *          (?q=&channelId=&senderId=&from=&to=&has=file|image&cursor=&limit=)
+ * @access  Private
+ */
+router.get(
+  "/search",
+  // Validate query parameters
+  (req, res, next) => {
+    const result = searchMessagesSchema.safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ 
+        message: "Invalid search query", 
+        errors: result.error.flatten() 
+      });
+    }
+    req.query = result.data as any;
+    next();
+  },
+  searchMessages
+);
+
 /**
  * @route   GET /api/chat/users/search
  * @desc    Search users for channel invitations
@@ -325,18 +357,15 @@ router.get("/channels/:channelId/users", async (req, res) => {
 
 /**
  * @route   POST /api/chat/upload
- * @desc    Upload file for chat
+ * @desc    Upload a file or image to a channel (multipart: file, channelId, optional content/replyTo)
  * @access  Private
  */
-router.post("/upload", async (req, res) => {
-  try {
-    // TODO: Implement file upload using existing Cloudinary setup
-    // This should integrate with your existing file upload middleware
-    res.status(501).json({ message: "File upload not implemented yet" });
-  } catch (error) {
-    console.error("File upload error:", error);
-    res.status(500).json({ message: "Failed to upload file" });
-  }
-});
+router.post(
+  "/upload",
+  messageRateLimit,
+  handleUpload(chatUpload.single("file")),
+  validate(fileUploadSchema),
+  uploadChatFile
+);
 
 export default router;
@@ -1,6 +1,7 @@
 import express, { Response, RequestHandler } from "express";
 import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
-import { authorizeRoles, requireSuperAdmin, requireCompanyAdmin, requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
 import Company from "../models/Company";
 import User from "../models/User";
 import { z } from "zod";
@@ -8,9 +9,56 @@ import validate from "../middleware/validate";
 import AuditLog from "../models/AuditLog";
 import upload from "../middleware/upload";
 import { uploadBufferToCloudinary, destroyByPublicId } from "../utils/cloudinaryUpload";
+import { createInvitationSchema, createRoleSchema, updateRoleSchema, assignRoleSchema, ssoConnectionSchema, addCompanyDomainSchema, updateCompanyDomainSchema, createApiTokenSchema, createServiceAccountSchema, createWebhookSchema, updateWebhookSchema } from "../utils/validationSchemas";
+import {
+  createInvitation,
+  listInvitations,
+  resendInvitation,
+  revokeInvitation
+} from "../controllers/invitationController";
+import {
+  listPermissions,
+  listRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+  assignRole
+} from "../controllers/roleController";
+import {
+  listServiceAccounts,
+  createServiceAccount,
+  deleteServiceAccount,
+  createServiceAccountToken,
+  revokeServiceAccountToken
+} from "../controllers/apiTokenController";
+import {
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  listDeliveries,
+  getDelivery,
+  redeliverDelivery
+} from "../controllers/webhookController";
+import { getSsoConnection, upsertSsoConnection, deleteSsoConnection } from "../controllers/ssoController";
+import { getCompanyTimesheetReport } from "../controllers/timesheetController";
+import {
+  listDomains,
+  addDomain,
+  verifyDomain,
+  updateDomain,
+  removeDomain,
+  listJoinRequests,
+  approveJoinRequest,
+  rejectJoinRequest
+} from "../controllers/companyDomainController";
 
 const router = express.Router();
 
+// API tokens need the company scope
+router.use(requireScope("company"));
+
 // Define body types (removed CreateCompanyBody and LinkUserBody as they're no longer needed)
 
 // Get companies based on user role - consolidated endpoint
@@ -56,6 +104,11 @@ const getCompanyHandler: RequestHandler = async (req, res: Response) => {
 
 router.get("/", authMiddleware, getCompanyHandler);
 
+// A company admin may only change the company they administer; custom roles granting
+// company:update act on the user's own company
+const administersCompany = (user: { id: string; role?: string }, company: any): boolean =>
+  user.role !== "company_admin" || company.admin?.toString() === user.id;
+
 // Update company profile (admin or owner)
 const updateCompanySchema = z.object({
   name: z.string().min(1).max(200).optional(),
@@ -69,6 +122,7 @@ const updateCompanySchema = z.object({
   subscriptionPlan: z.enum(["free", "pro", "enterprise"]).optional(),
   subscriptionStatus: z.enum(["active", "canceled", "trial"]).optional(),
   billingCycle: z.enum(["monthly", "yearly"]).optional(),
+  enforceTwoFactor: z.boolean().optional(),
 });
 
 const updateCompanyHandler: RequestHandler<any, any, any> = async (req, res: Response) => {
@@ -86,24 +140,19 @@ const updateCompanyHandler: RequestHandler<any, any, any> = async (req, res: Res
       if (companyId) {
         company = await Company.findById(companyId);
       }
-    } else if (user.role === "company_admin") {
-      // Company admin can only update their assigned company
-      if (currentUser?.company) {
-        company = await Company.findById(currentUser.company);
-        // Verify this user is actually the admin of this company
-        if (company && company.admin.toString() !== user.id) {
-          return res.status(403).json({ message: "Forbidden: Not authorized to update this company" });
-        }
-      }
-    } else {
-      return res.status(403).json({ message: "Forbidden: Insufficient permissions to update company" });
+    } else if (currentUser?.company) {
+      // Users granted company:update can only update their own company
+      company = await Company.findById(currentUser.company);
     }
     
     if (!company) return res.status(404).json({ message: "Company not found" });
+    if (!administersCompany(user, company)) {
+      return res.status(403).json({ message: "Forbidden: Not authorized to update this company" });
+    }
 
     const updatableFields: (keyof z.infer<typeof updateCompanySchema>)[] = [
       "name", "logoUrl", "industry", "address", "phone", "website", "email", "country",
-      "subscriptionPlan", "subscriptionStatus", "billingCycle"
+      "subscriptionPlan", "subscriptionStatus", "billingCycle", "enforceTwoFactor"
     ];
     updatableFields.forEach((field) => {
       if (typeof (req.body as any)[field] !== "undefined") {
@@ -126,7 +175,7 @@ const updateCompanyHandler: RequestHandler<any, any, any> = async (req, res: Res
         entityId: company._id as any,
         action: "update",
         changes,
-        ip: (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress || undefined,
+        ip: req.ip,
         userAgent: req.headers["user-agent"] as string,
       });
     } catch {
@@ -138,8 +187,8 @@ const updateCompanyHandler: RequestHandler<any, any, any> = async (req, res: Res
   }
 };
 
-router.put("/update", authMiddleware, authorizeRoles("superadmin", "company_admin"), validate(updateCompanySchema), updateCompanyHandler);
-router.put("/:companyId/update", authMiddleware, authorizeRoles("superadmin", "company_admin"), validate(updateCompanySchema), updateCompanyHandler);
+router.put("/update", authMiddleware, requirePermission("company:update"), validate(updateCompanySchema), updateCompanyHandler);
+router.put("/:companyId/update", authMiddleware, requirePermission("company:update"), validate(updateCompanySchema), updateCompanyHandler);
 
 // PATCH /api/companies/logo - upload and update company logo (superadmin or company_admin)
 const uploadLogoHandler: RequestHandler = async (req, res: Response) => {
@@ -162,20 +211,15 @@ const uploadLogoHandler: RequestHandler = async (req, res: Response) => {
       if (companyId) {
         company = await Company.findById(companyId);
       }
-    } else if (user.role === "company_admin") {
-      // Company admin can only update their assigned company logo
-      if (currentUser?.company) {
-        company = await Company.findById(currentUser.company);
-        // Verify this user is actually the admin of this company
-        if (company && company.admin.toString() !== user.id) {
-          return res.status(403).json({ message: "Forbidden: Not authorized to update this company" });
-        }
-      }
-    } else {
-      return res.status(403).json({ message: "Forbidden: Insufficient permissions to update company logo" });
+    } else if (currentUser?.company) {
+      // Users granted company:update can only update their own company logo
+      company = await Company.findById(currentUser.company);
     }
     
     if (!company) return res.status(404).json({ message: "Company not found" });
+    if (!administersCompany(user, company)) {
+      return res.status(403).json({ message: "Forbidden: Not authorized to update this company" });
+    }
 
     const folder = `remoteoffice/companies/${company._id}`;
     const result = await uploadBufferToCloudinary(file.buffer, folder);
@@ -196,7 +240,7 @@ const uploadLogoHandler: RequestHandler = async (req, res: Response) => {
         entityId: company._id as any,
         action: "update_logo",
         changes: { logoUrl: company.logoUrl },
-        ip: (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress || undefined,
+        ip: req.ip,
         userAgent: req.headers["user-agent"] as string,
       });
     } catch {}
@@ -208,7 +252,56 @@ const uploadLogoHandler: RequestHandler = async (req, res: Response) => {
   }
 };
 
-router.patch("/logo", authMiddleware, authorizeRoles("superadmin", "company_admin"), upload.single("logo"), uploadLogoHandler);
-router.patch("/:companyId/logo", authMiddleware, authorizeRoles("superadmin", "company_admin"), upload.single("logo"), uploadLogoHandler);
+router.patch("/logo", authMiddleware, requirePermission("company:update"), upload.single("logo"), uploadLogoHandler);
+router.patch("/:companyId/logo", authMiddleware, requirePermission("company:update"), upload.single("logo"), uploadLogoHandler);
+
+// Invitations - company admins invite users instead of setting their passwords
+router.post("/:companyId/invitations", authMiddleware, requirePermission("company:manage_users"), validate(createInvitationSchema), createInvitation);
+router.get("/:companyId/invitations", authMiddleware, requirePermission("company:manage_users"), listInvitations);
+router.post("/:companyId/invitations/:invitationId/resend", authMiddleware, requirePermission("company:manage_users"), resendInvitation);
+router.delete("/:companyId/invitations/:invitationId", authMiddleware, requirePermission("company:manage_users"), revokeInvitation);
+
+// Service accounts - company-owned identities that authenticate with scoped API tokens
+router.get("/service-accounts", authMiddleware, requirePermission("company:manage_users"), listServiceAccounts);
+router.post("/service-accounts", authMiddleware, requirePermission("company:manage_users"), validate(createServiceAccountSchema), createServiceAccount);
+router.delete("/service-accounts/:accountId", authMiddleware, requirePermission("company:manage_users"), deleteServiceAccount);
+router.post("/service-accounts/:accountId/tokens", authMiddleware, requirePermission("company:manage_users"), validate(createApiTokenSchema), createServiceAccountToken);
+router.delete("/service-accounts/:accountId/tokens/:tokenId", authMiddleware, requirePermission("company:manage_users"), revokeServiceAccountToken);
+
+// Outgoing webhooks for the caller's company
+router.get("/webhooks", authMiddleware, requirePermission("company:update"), listWebhooks);
+router.post("/webhooks", authMiddleware, requirePermission("company:update"), validate(createWebhookSchema), createWebhook);
+router.patch("/webhooks/:webhookId", authMiddleware, requirePermission("company:update"), validate(updateWebhookSchema), updateWebhook);
+router.delete("/webhooks/:webhookId", authMiddleware, requirePermission("company:update"), deleteWebhook);
+router.post("/webhooks/:webhookId/rotate-secret", authMiddleware, requirePermission("company:update"), rotateWebhookSecret);
+router.get("/webhooks/:webhookId/deliveries", authMiddleware, requirePermission("company:update"), listDeliveries);
+router.get("/webhooks/:webhookId/deliveries/:deliveryId", authMiddleware, requirePermission("company:update"), getDelivery);
+router.post("/webhooks/:webhookId/deliveries/:deliveryId/redeliver", authMiddleware, requirePermission("company:update"), redeliverDelivery);
+
+// Time logged on tasks, per user and project
+router.get("/timesheets", authMiddleware, requirePermission("company:manage_users"), getCompanyTimesheetReport);
+
+// Custom roles - named permission sets assigned to employees and members
+router.get("/permissions", authMiddleware, listPermissions);
+router.get("/:companyId/roles", authMiddleware, requirePermission("company:manage_roles"), listRoles);
+router.post("/:companyId/roles", authMiddleware, requirePermission("company:manage_roles"), validate(createRoleSchema), createRole);
+router.put("/:companyId/roles/:roleId", authMiddleware, requirePermission("company:manage_roles"), validate(updateRoleSchema), updateRole);
+router.delete("/:companyId/roles/:roleId", authMiddleware, requirePermission("company:manage_roles"), deleteRole);
+router.put("/:companyId/users/:userId/role", authMiddleware, requirePermission("company:manage_roles"), validate(assignRoleSchema), assignRole);
+
+// Single sign-on (OIDC) connection - enterprise plan only
+router.get("/:companyId/sso", authMiddleware, requirePermission("company:update"), getSsoConnection);
+router.put("/:companyId/sso", authMiddleware, requirePermission("company:update"), validate(ssoConnectionSchema), upsertSsoConnection);
+router.delete("/:companyId/sso", authMiddleware, requirePermission("company:update"), deleteSsoConnection);
+
+// Verified email domains - matching sign-ups auto-join or wait for approval
+router.get("/:companyId/domains", authMiddleware, requirePermission("company:manage_users"), listDomains);
+router.post("/:companyId/domains", authMiddleware, requirePermission("company:manage_users"), validate(addCompanyDomainSchema), addDomain);
+router.post("/:companyId/domains/:domainId/verify", authMiddleware, requirePermission("company:manage_users"), verifyDomain);
+router.patch("/:companyId/domains/:domainId", authMiddleware, requirePermission("company:manage_users"), validate(updateCompanyDomainSchema), updateDomain);
+router.delete("/:companyId/domains/:domainId", authMiddleware, requirePermission("company:manage_users"), removeDomain);
+router.get("/:companyId/join-requests", authMiddleware, requirePermission("company:manage_users"), listJoinRequests);
+router.post("/:companyId/join-requests/:requestId/approve", authMiddleware, requirePermission("company:manage_users"), approveJoinRequest);
+router.post("/:companyId/join-requests/:requestId/reject", authMiddleware, requirePermission("company:manage_users"), rejectJoinRequest);
 
 export default router;
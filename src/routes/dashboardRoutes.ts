@@ -8,10 +8,12 @@ import {
 } from "../controllers/dashboardController";
 import { requireAuth } from "../middleware/authMiddleware";
 import { requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
 
 const router = express.Router();
 
 // All routes require authentication and company access
+router.use(requireScope("dashboard"));
 router.use(requireAuth);
 router.use(requireCompanyAccess);
 
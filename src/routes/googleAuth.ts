@@ -1,7 +1,8 @@
 import { Router } from "express";
 import passport from "passport";
-import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
+import { createLoginCode, matchesGoogleLinkRequest } from "../utils/authTokens";
+import { resolveRedirectUri, withQuery } from "../utils/authRedirect";
 
 dotenv.config();
 
@@ -9,20 +10,33 @@ const router = Router();
 
 // Step 1: Redirect user to Google login with redirectUri support
 router.get("/google", (req, res, next) => {
-  // Store redirectUri in session or pass it through state
+  // Store redirectUri in session; targets outside the frontend allowlist are ignored
   const redirectUri = req.query.redirectUri as string;
   if (redirectUri) {
     req.session = req.session || {};
-    (req.session as any).redirectUri = redirectUri;
+    (req.session as any).redirectUri = resolveRedirectUri(redirectUri, "/auth/google-handler");
   }
-  passport.authenticate("google", { scope: ["profile", "email"] })(req, res, next);
+  // Accepting a company invitation with Google
+  const invitation = req.query.invitation as string;
+  if (invitation) {
+    req.session = req.session || {};
+    (req.session as any).invitationToken = invitation;
+  }
+  // Linking Google to the signed-in account: the nonce must match the one POST /api/users/me/google/link
+  // stored in this browser's session, and goes to Google as the OAuth state
+  const link = req.query.link as string;
+  if (link && !matchesGoogleLinkRequest((req.session as any)?.googleLink, link)) {
+    const errorRedirectUri = process.env.FRONTEND_URL || 'https://remote-office-frontend.vercel.app' || 'http://localhost:3000';
+    return res.redirect(`${errorRedirectUri}/auth/error?error=link_expired`);
+  }
+  passport.authenticate("google", { scope: ["profile", "email"], ...(link ? { state: link } : {}) })(req, res, next);
 });
 
 // Step 2: Handle callback after Google login
 router.get(
   "/google/callback",
   passport.authenticate("google", { session: false }),
-  (req: any, res) => {
+  async (req: any, res) => {
     try {
       const user = req.user;
 
@@ -31,32 +45,28 @@ router.get(
         return res.redirect(`${errorRedirectUri}/auth/error?error=authentication_failed`);
       }
 
-      // Generate our own JWT for frontend use
-      const token = jwt.sign({ id: user._id, role: user.role }, process.env.JWT_SECRET as string, {
-        expiresIn: "7d",
-      });
-
-      const userData = {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-      };
-
-      // Get redirectUri from session or use default
-      const redirectUri = (req.session as any)?.redirectUri || 
-                         process.env.FRONTEND_URL + '/auth/google-handler' || 
-                         'https://remote-office-frontend.vercel.app/auth/google-handler' ||
-                         'http://localhost:3000/auth/google-handler';
+      // Get redirectUri from session (re-checked against the allowlist) or use default
+      const redirectUri = resolveRedirectUri((req.session as any)?.redirectUri, "/auth/google-handler");
 
       // Clear the redirectUri from session
       if (req.session) {
         delete (req.session as any).redirectUri;
       }
 
-      // Redirect to frontend with token and user data
-      const redirectUrl = `${redirectUri}?token=${token}&user=${encodeURIComponent(JSON.stringify(userData))}`;
-      res.redirect(redirectUrl);
+      // Account linking finishes without starting a new session
+      if (req.authInfo?.linked) {
+        return res.redirect(withQuery(redirectUri, { linked: "google" }));
+      }
+
+      // 2FA users still need to submit a TOTP code via POST /api/auth/2fa/verify
+      if (user.twoFactorEnabled) {
+        const challengeCode = await createLoginCode(user._id, "two_factor");
+        return res.redirect(withQuery(redirectUri, { twoFactorRequired: "true", challengeCode }));
+      }
+
+      // Redirect to frontend with a one-time code; it gets the session tokens from POST /api/auth/exchange
+      const code = await createLoginCode(user._id);
+      res.redirect(withQuery(redirectUri, { code }));
       
     } catch (error) {
       console.error('Google OAuth callback error:', error);
@@ -0,0 +1,123 @@
+import express, { Request } from "express";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+/**
+ * Local OpenID Connect provider for development and tests (never mounted in production).
+ * Enable with OIDC_MOCK_IDP=true, then configure a company connection with
+ * issuer http://localhost:<PORT>/mock-idp, client id "mock-client" and secret "mock-secret".
+ * /authorize signs in whoever is passed as login_hint without prompting.
+ */
+
+const router = express.Router();
+router.use(express.urlencoded({ extended: false }));
+
+const CLIENT_ID = process.env.OIDC_MOCK_CLIENT_ID || "mock-client";
+const CLIENT_SECRET = process.env.OIDC_MOCK_CLIENT_SECRET || "mock-secret";
+const DEFAULT_EMAIL = "mock.user@example.com";
+const CODE_TTL_MS = 60 * 1000;
+
+// Signing key is generated on first use and lives for the process lifetime
+let signingKey: { publicKey: crypto.KeyObject; privateKey: crypto.KeyObject; kid: string } | null = null;
+const getSigningKey = () => {
+  if (!signingKey) {
+    const pair = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+    signingKey = { ...pair, kid: crypto.randomBytes(8).toString("hex") };
+  }
+  return signingKey;
+};
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const issuerFor = (req: Request) =>
+  process.env.OIDC_MOCK_ISSUER || `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+
+router.get("/.well-known/openid-configuration", (req, res) => {
+  const issuer = issuerFor(req);
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+router.get("/jwks", (_req, res) => {
+  const { publicKey, kid } = getSigningKey();
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+});
+
+router.get("/authorize", (req, res) => {
+  const { client_id, redirect_uri, response_type, state, nonce, code_challenge, login_hint } = req.query as Record<string, string>;
+  if (client_id !== CLIENT_ID || response_type !== "code" || !redirect_uri) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    email: (login_hint || DEFAULT_EMAIL).toLowerCase(),
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const params = new URLSearchParams({ code, ...(state ? { state } : {}) });
+  res.redirect(`${redirect_uri}?${params.toString()}`);
+});
+
+router.post("/token", (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body;
+  if (client_id !== CLIENT_ID || client_secret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: "invalid_client" });
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+  if (pending.codeChallenge) {
+    const expected = crypto.createHash("sha256").update(String(code_verifier || "")).digest("base64url");
+    if (expected !== pending.codeChallenge) {
+      return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+  }
+
+  const { privateKey, kid } = getSigningKey();
+  const localPart = pending.email.split("@")[0];
+  const idToken = jwt.sign(
+    {
+      sub: crypto.createHash("sha256").update(pending.email).digest("hex").slice(0, 24),
+      email: pending.email,
+      email_verified: true,
+      name: localPart.replace(/[._-]+/g, " "),
+      nonce: pending.nonce,
+    },
+    privateKey,
+    { algorithm: "RS256", keyid: kid, issuer: issuerFor(req), audience: client_id, expiresIn: 300 }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString("hex"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+export default router;
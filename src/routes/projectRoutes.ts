@@ -7,17 +7,28 @@ import {
   deleteProject,
   getProjectTasks,
   addProjectMembers,
-  removeProjectMember
+  removeProjectMember,
+  updateProjectMemberRole,
+  getProjectActivity,
+  getProjectWorkflow,
+  updateProjectWorkflow,
+  getProjectBoard
 } from "../controllers/projectController";
 import { requireAuth } from "../middleware/authMiddleware";
 import { requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
 import { validate } from "../middleware/validate";
 import {
   createProjectSchema,
   updateProjectSchema,
   addProjectMembersSchema,
+  updateProjectMemberRoleSchema,
   projectQuerySchema,
-  projectTaskQuerySchema
+  projectTaskQuerySchema,
+  paginationQuerySchema,
+  updateProjectWorkflowSchema,
+  boardQuerySchema
 } from "../utils/validationSchemas";
 import { ZodSchema } from "zod";
 
@@ -38,6 +49,7 @@ const validateQuery = (schema: ZodSchema) => (req: Request, res: Response, next:
 };
 
 // All routes require authentication and company access
+router.use(requireScope("projects"));
 router.use(requireAuth);
 router.use(requireCompanyAccess);
 
@@ -48,7 +60,7 @@ router.get("/", validateQuery(projectQuerySchema), getAllProjects as RequestHand
 router.get("/:id", getProjectById as RequestHandler);
 
 // POST /api/projects - Create a new project
-router.post("/", validate(createProjectSchema), createProject as RequestHandler);
+router.post("/", requirePermission("project:create"), validate(createProjectSchema), createProject as RequestHandler);
 
 // PUT /api/projects/:id - Update a project
 router.put("/:id", validate(updateProjectSchema), updateProject as RequestHandler);
@@ -59,10 +71,25 @@ router.delete("/:id", deleteProject as RequestHandler);
 // GET /api/projects/:id/tasks - Get all tasks for a specific project
 router.get("/:id/tasks", validateQuery(projectTaskQuerySchema), getProjectTasks as RequestHandler);
 
+// GET /api/projects/:id/board - Kanban columns with ordered tasks
+router.get("/:id/board", validateQuery(boardQuerySchema), getProjectBoard as RequestHandler);
+
+// GET /api/projects/:id/workflow - Task statuses and transitions of the project
+router.get("/:id/workflow", getProjectWorkflow as RequestHandler);
+
+// PUT /api/projects/:id/workflow - Replace the project's task workflow
+router.put("/:id/workflow", validate(updateProjectWorkflowSchema), updateProjectWorkflow as RequestHandler);
+
+// GET /api/projects/:id/activity - Activity feed of the project's tasks
+router.get("/:id/activity", validateQuery(paginationQuerySchema), getProjectActivity as RequestHandler);
+
 // POST /api/projects/:id/members - Add members to a project
 router.post("/:id/members", validate(addProjectMembersSchema), addProjectMembers as RequestHandler);
 
 // DELETE /api/projects/:id/members/:userId - Remove a member from a project
 router.delete("/:id/members/:userId", removeProjectMember as RequestHandler);
 
+// PATCH /api/projects/:id/members/:userId/role - Change a member's project role
+router.patch("/:id/members/:userId/role", validate(updateProjectMemberRoleSchema), updateProjectMemberRole as RequestHandler);
+
 export default router;
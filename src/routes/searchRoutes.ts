@@ -0,0 +1,32 @@
+import express, { Request, Response, NextFunction, RequestHandler } from "express";
+import { globalSearch } from "../controllers/searchController";
+import { requireAuth } from "../middleware/authMiddleware";
+import { requireCompanyAccess } from "../middleware/roleMiddleware";
+import { globalSearchQuerySchema } from "../utils/validationSchemas";
+import { ZodSchema } from "zod";
+
+const router = express.Router();
+
+// Middleware to validate query parameters
+const validateQuery = (schema: ZodSchema) => (req: Request, res: Response, next: NextFunction) => {
+  const result = schema.safeParse(req.query);
+  if (!result.success) {
+    return res.status(400).json({ 
+      message: "Invalid query parameters", 
+      errors: result.error.flatten() 
+    });
+  }
+  // Type assertion is safe here since we've validated the data
+  (req as any).query = result.data;
+  next();
+};
+
+// Search spans several API scopes, so no scope is declared and API tokens are rejected;
+// tokens can use the per-area endpoints (e.g. GET /api/chat/search) instead
+router.use(requireAuth);
+router.use(requireCompanyAccess);
+
+// GET /api/search - Search tasks, projects, users and chat messages
+router.get("/", validateQuery(globalSearchQuerySchema), globalSearch as RequestHandler);
+
+export default router;
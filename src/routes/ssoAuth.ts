@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { discoverSso, startSsoLogin, ssoCallback } from "../controllers/ssoController";
+import { validate } from "../middleware/validate";
+import { ssoDiscoverSchema } from "../utils/validationSchemas";
+
+const router = Router();
+
+// Company single sign-on (OIDC) - login form asks whether an email should use SSO
+router.post("/discover", validate(ssoDiscoverSchema), discoverSso);
+
+// Step 1: Redirect to the company's IdP
+router.get("/login", startSsoLogin);
+
+// Step 2: IdP redirects back with an authorization code
+router.get("/callback", ssoCallback);
+
+export default router;
@@ -6,17 +6,71 @@ import {
   updateTask,
   updateTaskStatus,
   deleteTask,
-  getMyTasks
+  getMyTasks,
+  getTaskActivity,
+  moveTask,
+  watchTask,
+  unwatchTask
 } from "../controllers/taskController";
+import {
+  getTaskComments,
+  createTaskComment,
+  updateTaskComment,
+  deleteTaskComment
+} from "../controllers/taskCommentController";
+import {
+  getSubtasks,
+  reorderSubtasks,
+  addChecklistItem,
+  updateChecklistItem,
+  deleteChecklistItem,
+  reorderChecklist
+} from "../controllers/subtaskController";
+import {
+  getTaskDependencies,
+  addTaskDependency,
+  removeTaskDependency
+} from "../controllers/dependencyController";
+import {
+  getTaskRecurrence,
+  setTaskRecurrence,
+  stopTaskRecurrence
+} from "../controllers/recurrenceController";
+import {
+  getTaskTimeEntries,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  startTimer,
+  stopTimer
+} from "../controllers/timeEntryController";
+import {
+  getTaskAttachments,
+  uploadTaskAttachment,
+  deleteTaskAttachment
+} from "../controllers/attachmentController";
 import { requireAuth } from "../middleware/authMiddleware";
 import { requireCompanyAccess } from "../middleware/roleMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
 import { validate } from "../middleware/validate";
+import { attachmentUpload, handleUpload } from "../middleware/upload";
 import {
   createTaskSchema,
   updateTaskSchema,
   updateTaskStatusSchema,
   taskQuerySchema,
-  myTasksQuerySchema
+  myTasksQuerySchema,
+  taskCommentSchema,
+  paginationQuerySchema,
+  checklistItemSchema,
+  updateChecklistItemSchema,
+  reorderSchema,
+  addTaskDependencySchema,
+  moveTaskSchema,
+  recurrenceRuleSchema,
+  timeEntrySchema,
+  updateTimeEntrySchema,
+  startTimerSchema
 } from "../utils/validationSchemas";
 import { ZodSchema } from "zod";
 
@@ -37,6 +91,7 @@ const validateQuery = (schema: ZodSchema) => (req: Request, res: Response, next:
 };
 
 // All routes require authentication and company access
+router.use(requireScope("tasks"));
 router.use(requireAuth);
 router.use(requireCompanyAccess);
 
@@ -58,7 +113,94 @@ router.put("/:id", validate(updateTaskSchema), updateTask as RequestHandler);
 // PATCH /api/tasks/:id/status - Update only the task status
 router.patch("/:id/status", validate(updateTaskStatusSchema), updateTaskStatus as RequestHandler);
 
+// PATCH /api/tasks/:id/move - Change status and board position in one step
+router.patch("/:id/move", validate(moveTaskSchema), moveTask as RequestHandler);
+
 // DELETE /api/tasks/:id - Delete a task
 router.delete("/:id", deleteTask as RequestHandler);
 
+// POST /api/tasks/:id/watch - Watch a task
+router.post("/:id/watch", watchTask as RequestHandler);
+
+// DELETE /api/tasks/:id/watch - Stop watching a task
+router.delete("/:id/watch", unwatchTask as RequestHandler);
+
+// GET /api/tasks/:id/subtasks - List subtasks in order
+router.get("/:id/subtasks", getSubtasks as RequestHandler);
+
+// PUT /api/tasks/:id/subtasks/order - Reorder subtasks
+router.put("/:id/subtasks/order", validate(reorderSchema), reorderSubtasks as RequestHandler);
+
+// POST /api/tasks/:id/checklist - Add a checklist item
+router.post("/:id/checklist", validate(checklistItemSchema), addChecklistItem as RequestHandler);
+
+// PUT /api/tasks/:id/checklist/order - Reorder checklist items
+router.put("/:id/checklist/order", validate(reorderSchema), reorderChecklist as RequestHandler);
+
+// PATCH /api/tasks/:id/checklist/:itemId - Rename or toggle a checklist item
+router.patch("/:id/checklist/:itemId", validate(updateChecklistItemSchema), updateChecklistItem as RequestHandler);
+
+// DELETE /api/tasks/:id/checklist/:itemId - Remove a checklist item
+router.delete("/:id/checklist/:itemId", deleteChecklistItem as RequestHandler);
+
+// GET /api/tasks/:id/dependencies - Tasks blocking / blocked by this one
+router.get("/:id/dependencies", getTaskDependencies as RequestHandler);
+
+// POST /api/tasks/:id/dependencies - Mark this task as blocked by another
+router.post("/:id/dependencies", validate(addTaskDependencySchema), addTaskDependency as RequestHandler);
+
+// DELETE /api/tasks/:id/dependencies/:blockerId - Remove a blocker
+router.delete("/:id/dependencies/:blockerId", removeTaskDependency as RequestHandler);
+
+// GET /api/tasks/:id/recurrence - Rule and occurrences of a recurring task's series
+router.get("/:id/recurrence", getTaskRecurrence as RequestHandler);
+
+// PUT /api/tasks/:id/recurrence - Start a series or change its rule
+router.put("/:id/recurrence", validate(recurrenceRuleSchema), setTaskRecurrence as RequestHandler);
+
+// DELETE /api/tasks/:id/recurrence - Stop generating occurrences
+router.delete("/:id/recurrence", stopTaskRecurrence as RequestHandler);
+
+// GET /api/tasks/:id/attachments - Files attached to a task
+router.get("/:id/attachments", getTaskAttachments as RequestHandler);
+
+// POST /api/tasks/:id/attachments - Attach a file (multipart field "file")
+router.post("/:id/attachments", handleUpload(attachmentUpload.single("file")), uploadTaskAttachment as RequestHandler);
+
+// DELETE /api/tasks/:id/attachments/:attachmentId - Remove an attachment
+router.delete("/:id/attachments/:attachmentId", deleteTaskAttachment as RequestHandler);
+
+// GET /api/tasks/:id/time-entries - Time logged on a task
+router.get("/:id/time-entries", getTaskTimeEntries as RequestHandler);
+
+// POST /api/tasks/:id/time-entries - Log time by hand
+router.post("/:id/time-entries", validate(timeEntrySchema), createTimeEntry as RequestHandler);
+
+// PATCH /api/tasks/:id/time-entries/:entryId - Correct a time entry
+router.patch("/:id/time-entries/:entryId", validate(updateTimeEntrySchema), updateTimeEntry as RequestHandler);
+
+// DELETE /api/tasks/:id/time-entries/:entryId - Delete a time entry
+router.delete("/:id/time-entries/:entryId", deleteTimeEntry as RequestHandler);
+
+// POST /api/tasks/:id/timer/start - Start the current user's timer on a task
+router.post("/:id/timer/start", validate(startTimerSchema), startTimer as RequestHandler);
+
+// POST /api/tasks/:id/timer/stop - Stop it and log the time
+router.post("/:id/timer/stop", stopTimer as RequestHandler);
+
+// GET /api/tasks/:id/activity - Change timeline of a task
+router.get("/:id/activity", validateQuery(paginationQuerySchema), getTaskActivity as RequestHandler);
+
+// GET /api/tasks/:id/comments - List comments on a task
+router.get("/:id/comments", validateQuery(paginationQuerySchema), getTaskComments as RequestHandler);
+
+// POST /api/tasks/:id/comments - Comment on a task
+router.post("/:id/comments", validate(taskCommentSchema), createTaskComment as RequestHandler);
+
+// PUT /api/tasks/:id/comments/:commentId - Edit a comment
+router.put("/:id/comments/:commentId", validate(taskCommentSchema), updateTaskComment as RequestHandler);
+
+// DELETE /api/tasks/:id/comments/:commentId - Delete a comment
+router.delete("/:id/comments/:commentId", deleteTaskComment as RequestHandler);
+
 export default router;
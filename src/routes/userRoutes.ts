@@ -1,5 +1,7 @@
 import express, { RequestHandler, Response } from "express";
 import { authMiddleware, AuthRequest } from "../middleware/authMiddleware";
+import { requireScope } from "../middleware/scopeMiddleware";
+import mongoose from "mongoose";
 import User from "../models/User";
 import { z } from "zod";
 import validate from "../middleware/validate";
@@ -7,9 +9,21 @@ import serializeUser from "../utils/serializeUser";
 import AuditLog from "../models/AuditLog";
 import upload from "../middleware/upload";
 import { uploadBufferToCloudinary, destroyByPublicId } from "../utils/cloudinaryUpload";
+import Session from "../models/Session";
+import bcrypt from "bcryptjs";
+import { revokeSession, createGoogleLinkRequest, GOOGLE_LINK_TTL_SECONDS } from "../utils/authTokens";
+import { credentialedCors } from "../utils/authRedirect";
+import { recordAudit } from "../utils/auditLog";
+import { unlinkGoogleSchema, createApiTokenSchema } from "../utils/validationSchemas";
+import { listMyTokens, createMyToken, revokeMyToken } from "../controllers/apiTokenController";
+import { syncUserTaskSnapshots } from "../utils/taskAssignees";
+import { getMyTimesheet } from "../controllers/timesheetController";
 
 const router = express.Router();
 
+// API tokens need the users scope
+router.use(requireScope("users"));
+
 // GET /api/users/me - get logged-in user's data
 const getMeHandler: RequestHandler = async (req, res: Response) => {
   try {
@@ -69,6 +83,11 @@ const updateMeHandler: RequestHandler<any, any, any> = async (req, res: Response
     const updated = await User.findByIdAndUpdate(user.id, { $set: toUpdate }, { new: true }).select("-password");
     if (!updated) return res.status(404).json({ message: "User not found" });
 
+    // Tasks keep a copy of the assignee's name and avatar
+    if (toUpdate.firstName !== undefined || toUpdate.lastName !== undefined || toUpdate.avatarUrl !== undefined) {
+      await syncUserTaskSnapshots(updated);
+    }
+
     // Audit log
     try {
       await AuditLog.create({
@@ -77,7 +96,7 @@ const updateMeHandler: RequestHandler<any, any, any> = async (req, res: Response
         entityId: updated._id as any,
         action: "update",
         changes: toUpdate,
-        ip: (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress || undefined,
+        ip: req.ip,
         userAgent: req.headers["user-agent"] as string,
       });
     } catch {
@@ -117,6 +136,7 @@ const uploadAvatarHandler: RequestHandler = async (req, res: Response) => {
     current.avatarUrl = result.secure_url;
     current.avatarPublicId = result.public_id;
     await current.save();
+    await syncUserTaskSnapshots(current);
 
     // audit log (best-effort)
     try {
@@ -126,7 +146,7 @@ const uploadAvatarHandler: RequestHandler = async (req, res: Response) => {
         entityId: current._id as any,
         action: "update_avatar",
         changes: { avatarUrl: current.avatarUrl },
-        ip: (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress || undefined,
+        ip: req.ip,
         userAgent: req.headers["user-agent"] as string,
       });
     } catch {}
@@ -140,4 +160,127 @@ const uploadAvatarHandler: RequestHandler = async (req, res: Response) => {
 
 router.patch("/avatar", authMiddleware, upload.single("avatar"), uploadAvatarHandler);
 
+// GET /api/users/me/sessions - list the logged-in user's active sessions/devices
+const listSessionsHandler: RequestHandler = async (req, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.id) return res.status(401).json({ message: "Unauthorized" });
+
+    const sessions = await Session.find({
+      user: user.id,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    res.json({
+      sessions: sessions.map((s) => ({
+        id: String(s._id),
+        device: s.device ?? null,
+        ip: s.ip ?? null,
+        userAgent: s.userAgent ?? null,
+        lastUsedAt: s.lastUsedAt,
+        createdAt: s.createdAt ?? null,
+        expiresAt: s.expiresAt,
+        connectedSockets: s.socketIds?.length ?? 0,
+        current: String(s._id) === user.sessionId,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+router.get("/me/sessions", authMiddleware, listSessionsHandler);
+
+// DELETE /api/users/me/sessions/:id - revoke one of the logged-in user's sessions
+const revokeSessionHandler: RequestHandler = async (req, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.id) return res.status(401).json({ message: "Unauthorized" });
+
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    const session = await Session.findOne({ _id: id, user: user.id, revokedAt: { $exists: false } });
+    if (!session) return res.status(404).json({ message: "Session not found" });
+
+    // Revokes refresh tokens and disconnects sockets opened with this session
+    await revokeSession(String(session._id), "revoked");
+
+    res.json({ message: "Session revoked successfully", current: id === user.sessionId });
+  } catch (error) {
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+router.delete("/me/sessions/:id", authMiddleware, revokeSessionHandler);
+
+// POST /api/users/me/google/link - start linking a Google account to the logged-in user
+const startGoogleLinkHandler: RequestHandler = async (req, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.id) return res.status(401).json({ message: "Unauthorized" });
+
+    // Sent with credentials so the nonce lands in this browser's session; the same browser must then
+    // navigate to linkUrl, and the OAuth callback redirects back with ?linked=google
+    const linkRequest = createGoogleLinkRequest(user.id);
+    (req.session as any).googleLink = linkRequest;
+    res.json({
+      linkUrl: `/api/auth/google?link=${linkRequest.nonce}`,
+      expiresIn: GOOGLE_LINK_TTL_SECONDS,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+router.post("/me/google/link", credentialedCors, authMiddleware, startGoogleLinkHandler);
+
+// DELETE /api/users/me/google - unlink the Google account (password required so the account stays reachable)
+const unlinkGoogleHandler: RequestHandler = async (req, res: Response) => {
+  try {
+    const { user } = req as AuthRequest;
+    if (!user?.id) return res.status(401).json({ message: "Unauthorized" });
+
+    const found = await User.findById(user.id);
+    if (!found) return res.status(404).json({ message: "User not found" });
+    if (!found.googleId) return res.status(400).json({ message: "No Google account is linked" });
+
+    const isMatch = await bcrypt.compare(req.body.password, found.password);
+    if (!isMatch) {
+      return res.status(400).json({ message: "Invalid password. Set a password with forgot-password first if you only used Google." });
+    }
+
+    found.googleId = undefined;
+    await found.save();
+
+    await recordAudit({
+      actorId: user.id,
+      entityType: "user",
+      entityId: found._id,
+      action: "unlink_google",
+      changes: { googleLinked: false },
+      req,
+    });
+
+    res.json({ message: "Google account unlinked successfully", user: serializeUser(found) });
+  } catch (error) {
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+router.delete("/me/google", authMiddleware, validate(unlinkGoogleSchema), unlinkGoogleHandler);
+
+// Personal access tokens for automation
+router.get("/me/tokens", authMiddleware, listMyTokens);
+router.post("/me/tokens", authMiddleware, validate(createApiTokenSchema), createMyToken);
+router.delete("/me/tokens/:tokenId", authMiddleware, revokeMyToken);
+
+// Weekly timesheet of logged task time
+router.get("/me/timesheet", authMiddleware, getMyTimesheet);
+
 export default router;
@@ -8,28 +8,46 @@ import connectDB, { getMongoUri } from "./config/db";
 import passport from "./config/googleAuth";
 import authRoutes from "./routes/authRoutes";
 import googleAuthRoutes from "./routes/googleAuth";
+import ssoAuthRoutes from "./routes/ssoAuth";
+import mockIdpRoutes from "./routes/mockIdp";
 import companyRoutes from "./routes/companyRoutes";
 import userRoutes from "./routes/userRoutes";
 import taskRoutes from "./routes/taskRoutes";
 import projectRoutes from "./routes/projectRoutes";
 import dashboardRoutes from "./routes/dashboardRoutes";
 import chatRoutes from "./routes/chatRoutes";
+import searchRoutes from "./routes/searchRoutes";
 import { authMiddleware } from "./middleware/authMiddleware";
 import { socketAuthMiddleware } from "./middleware/socketAuth";
 import { initializeSocketEvents } from "./utils/socketEvents";
+import { setIO } from "./utils/socketServer";
+import { startWebhookDispatcher } from "./utils/webhooks";
+import { backfillStatusCategories } from "./utils/workflow";
+import { startRecurrenceScheduler } from "./utils/recurringTasks";
+import { backfillTaskAssignees } from "./utils/taskAssignees";
+import { getFileStorage, getUploadDir } from "./utils/fileStorage";
+import { getMailTransport, setMailTransport, createSmtpTransportFromEnv } from "./utils/mailer";
+import { credentialedCors } from "./utils/authRedirect";
 import MongoStore from "connect-mongo";
 
 // Load environment variables and connect DB
 dotenv.config();
-connectDB();
+connectDB().then(async () => {
+  await backfillStatusCategories();
+  await backfillTaskAssignees();
+});
 
 const app = express();
 app.use(express.json());
-// enable CORS so browser preflight (OPTIONS) is handled
+// enable CORS so browser preflight (OPTIONS) is handled; starting a Google link is sent with the
+// session cookie, so its preflight must allow credentials for the frontend origins
+app.options("/api/users/me/google/link", credentialedCors);
 app.use(cors());
-// trust proxy when deployed behind a proxy (e.g., Render) so secure cookies work
-if (process.env.NODE_ENV === "production") {
-  app.set("trust proxy", 1);
+// trust proxy when deployed behind a proxy (e.g., Render) so secure cookies work and req.ip is the
+// client address; TRUST_PROXY sets the number of proxy hops (default 1 in production, none otherwise)
+const trustProxy = process.env.TRUST_PROXY ?? (process.env.NODE_ENV === "production" ? "1" : "");
+if (trustProxy) {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
 }
 
 // Session configuration for OAuth state management (use Mongo-backed store in production)
@@ -50,7 +68,8 @@ app.use(
     cookie: {
       secure: isProd, // requires HTTPS when in production
       httpOnly: true,
-      sameSite: isProd ? "lax" : "lax",
+      // the frontend is on another site in production and sets the Google link nonce with a credentialed request
+      sameSite: isProd ? "none" : "lax",
       maxAge: 10 * 60 * 1000, // 10 minutes
     },
     proxy: isProd, // if behind a proxy (e.g., Render), trust proxy + secure cookies
@@ -60,15 +79,34 @@ app.use(
 // initialize passport
 app.use(passport.initialize());
 
+// files stored by the local storage driver (dev/tests only, /uploads is unauthenticated); never rendered inline as pages
+if (!isProd && getFileStorage().provider === "local") {
+  app.use("/uploads", express.static(getUploadDir(), {
+    dotfiles: "deny",
+    index: false,
+    setHeaders: (res) => {
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+    }
+  }));
+}
+
 // routes
 app.use("/api/auth", authRoutes);
 app.use("/api/auth", googleAuthRoutes);
+app.use("/api/auth/sso", ssoAuthRoutes);
 app.use("/api/company", companyRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/tasks", taskRoutes);
 app.use("/api/projects", projectRoutes);
 app.use("/api/dashboard", dashboardRoutes);
 app.use("/api/chat", chatRoutes);
+app.use("/api/search", searchRoutes);
+
+// local OIDC provider for SSO development/tests
+if (!isProd && process.env.OIDC_MOCK_IDP === "true") {
+  app.use("/mock-idp", mockIdpRoutes);
+}
 
 // health/root route
 app.get("/", (_req, res) => {
@@ -111,12 +149,29 @@ io.use(socketAuthMiddleware);
 
 // Initialize Socket.IO event handlers
 initializeSocketEvents(io);
+// Expose the instance to HTTP handlers (session revocation, realtime updates)
+setIO(io);
 
 // Security: Handle Socket.IO errors
 io.engine.on("connection_error", (err) => {
   console.error("Socket.IO connection error:", err);
 });
 
+// Retry queued webhook deliveries in the background
+startWebhookDispatcher();
+
+// Generate the next occurrence of recurring tasks that are past due
+startRecurrenceScheduler();
+
+// Send mail through SMTP when configured (required in production)
+if (process.env.MAIL_TRANSPORT === "smtp") {
+  setMailTransport(createSmtpTransportFromEnv());
+}
+
+// Fail at startup rather than on the first password reset or upload when production has no mail or file storage provider
+getMailTransport();
+getFileStorage();
+
 const PORT = process.env.PORT || 5000;
 
 server.listen(PORT, () => {
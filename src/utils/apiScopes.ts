@@ -0,0 +1,15 @@
+/**
+ * Scopes limit which API areas a personal access token or service account token can reach.
+ * Each router declares its resource with requireScope(); GET/HEAD need `<resource>:read`,
+ * every other method `<resource>:write`. User JWTs are not scoped.
+ */
+export const API_SCOPE_RESOURCES = ["tasks", "projects", "chat", "dashboard", "users", "company"] as const;
+
+export type ApiScopeResource = typeof API_SCOPE_RESOURCES[number];
+
+export const API_SCOPES = API_SCOPE_RESOURCES.flatMap((resource) => [`${resource}:read`, `${resource}:write`]);
+
+export type ApiScope = `${ApiScopeResource}:${"read" | "write"}`;
+
+export const requiredScopeFor = (resource: ApiScopeResource, method: string): ApiScope =>
+  ["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase()) ? `${resource}:read` : `${resource}:write`;
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import ApiToken, { IApiToken } from "../models/ApiToken";
+import { hashToken } from "./authTokens";
+
+/**
+ * Long-lived API tokens ("rop_" + random). Only the sha256 hash is stored.
+ */
+
+export const API_TOKEN_PREFIX = "rop_";
+// Avoid a write on every request: only record usage once per minute
+const USAGE_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export const isApiToken = (token: string): boolean => token.startsWith(API_TOKEN_PREFIX);
+
+export const generateApiToken = () => {
+  const raw = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { raw, hash: hashToken(raw), prefix: raw.slice(0, API_TOKEN_PREFIX.length + 6) };
+};
+
+export const tokenExpiry = (expiresInDays?: number): Date | undefined =>
+  expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : undefined;
+
+/**
+ * Find the live token for a raw value (not revoked, not expired)
+ */
+export const findActiveApiToken = async (raw: string): Promise<IApiToken | null> => {
+  const token = await ApiToken.findOne({ tokenHash: hashToken(raw), revokedAt: { $exists: false } });
+  if (!token) return null;
+  if (token.expiresAt && token.expiresAt.getTime() <= Date.now()) return null;
+  return token;
+};
+
+/**
+ * Record token usage (best-effort, throttled)
+ */
+export const touchApiToken = async (tokenId: any, ip?: string): Promise<void> => {
+  try {
+    const now = new Date();
+    await ApiToken.updateOne(
+      {
+        _id: tokenId,
+        $or: [{ lastUsedAt: { $exists: false } }, { lastUsedAt: { $lt: new Date(now.getTime() - USAGE_TOUCH_INTERVAL_MS) } }],
+      },
+      { $set: { lastUsedAt: now, ...(ip ? { lastUsedIp: ip } : {}) } }
+    );
+  } catch {
+    // usage tracking must never fail a request
+  }
+};
+
+/**
+ * Revoke every live personal token of a user (e.g. after a password reset)
+ */
+export const revokeUserApiTokens = async (userId: any): Promise<number> => {
+  const result = await ApiToken.updateMany(
+    { user: userId, kind: "personal", revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+export const serializeApiToken = (token: any) => ({
+  id: String(token._id),
+  name: token.name,
+  kind: token.kind,
+  prefix: token.prefix,
+  scopes: token.scopes,
+  expiresAt: token.expiresAt ?? null,
+  lastUsedAt: token.lastUsedAt ?? null,
+  revokedAt: token.revokedAt ?? null,
+  createdAt: token.createdAt,
+});
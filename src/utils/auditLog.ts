@@ -0,0 +1,31 @@
+import AuditLog, { AuditAction, AuditEntityType } from "../models/AuditLog";
+
+interface AuditEntry {
+  actorId: any;
+  entityType: AuditEntityType;
+  entityId: any;
+  action: AuditAction;
+  changes: Record<string, any>;
+  req?: { headers: any; ip?: string };
+}
+
+/**
+ * Best-effort audit logging: never fails the surrounding request
+ */
+export async function recordAudit({ actorId, entityType, entityId, action, changes, req }: AuditEntry): Promise<void> {
+  try {
+    await AuditLog.create({
+      actorId,
+      entityType,
+      entityId,
+      action,
+      changes,
+      ip: req?.ip,
+      userAgent: req ? (req.headers["user-agent"] as string) : undefined,
+    });
+  } catch {
+    // swallow audit errors
+  }
+}
+
+export default recordAudit;
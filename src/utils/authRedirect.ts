@@ -0,0 +1,49 @@
+import cors from "cors";
+import { getFrontendUrl } from "./mailer";
+
+/**
+ * Where browser sign-in flows (Google, company SSO) may send the user back to.
+ * Only origins derived from FRONTEND_URL, plus the optional REDIRECT_ALLOWED_ORIGINS
+ * list, are accepted; anything else falls back to the default frontend page.
+ */
+
+const originOf = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    return ["http:", "https:"].includes(parsed.protocol) ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getAllowedRedirectOrigins = (): string[] => {
+  const extra = (process.env.REDIRECT_ALLOWED_ORIGINS || "").split(",").map((value) => value.trim()).filter(Boolean);
+  return [getFrontendUrl(), ...extra].map(originOf).filter((origin): origin is string => !!origin);
+};
+
+export const isAllowedRedirect = (url: string): boolean => {
+  const origin = originOf(url);
+  return !!origin && getAllowedRedirectOrigins().includes(origin);
+};
+
+/**
+ * The requested redirect target when it is on the allowlist, otherwise `${FRONTEND_URL}${fallbackPath}`
+ */
+export const resolveRedirectUri = (requested: unknown, fallbackPath: string): string =>
+  typeof requested === "string" && isAllowedRedirect(requested) ? requested : `${getFrontendUrl()}${fallbackPath}`;
+
+// Append query parameters to a redirect target that may already carry some
+export const withQuery = (url: string, params: Record<string, string>): string => {
+  const target = new URL(url);
+  for (const [key, value] of Object.entries(params)) {
+    target.searchParams.set(key, value);
+  }
+  return target.toString();
+};
+
+// CORS for the few requests the frontend sends with the session cookie (starting a Google link);
+// credentials are only allowed from the same origins that sign-in flows may redirect to
+export const credentialedCors = cors({
+  origin: (origin, callback) => callback(null, !origin || isAllowedRedirect(origin)),
+  credentials: true,
+});
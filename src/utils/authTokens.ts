@@ -0,0 +1,338 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { isValidObjectId } from "mongoose";
+import RefreshToken from "../models/RefreshToken";
+import LoginCode, { LoginCodePurpose } from "../models/LoginCode";
+import Session from "../models/Session";
+import { disconnectSessionSockets } from "./socketServer";
+
+const JWT_SECRET = process.env.JWT_SECRET || "supersecret";
+
+// Access tokens are short lived, refresh tokens carry the session
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 60 * 60; // 1 hour
+export const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 30 * 24 * 60 * 60; // 30 days
+// Avoid a write on every request: only bump lastUsedAt once per minute
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+type RevokeReason = "logout" | "reuse_detected" | "revoked";
+
+export interface TokenSubject {
+  _id: any;
+  email: string;
+  role?: string;
+  company?: any;
+}
+
+export interface RequestMeta {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  refreshExpiresIn: number;
+  sessionId: string;
+}
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefreshTokenError";
+  }
+}
+
+export const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const generateOpaqueToken = (): string => crypto.randomBytes(48).toString("hex");
+
+/**
+ * Derive a short "Browser on OS" label from a user agent string
+ */
+export const describeDevice = (userAgent?: string): string => {
+  if (!userAgent) return "Unknown device";
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Chrome\//, "Chrome"],
+    [/Firefox\//, "Firefox"],
+    [/Safari\//, "Safari"],
+    [/PostmanRuntime/, "Postman"],
+    [/okhttp|Dart|CFNetwork/, "Mobile app"],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, "Windows"],
+    [/Android/, "Android"],
+    [/iPhone|iPad|iOS/, "iOS"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/Linux/, "Linux"],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+};
+
+/**
+ * Extract client ip/user agent the same way audit logging does. req.ip only honours
+ * X-Forwarded-For from trusted proxies ("trust proxy"), so clients cannot spoof it.
+ */
+export const getRequestMeta = (req: { headers: any; ip?: string }): RequestMeta => ({
+  ip: req.ip,
+  userAgent: req.headers["user-agent"] as string,
+});
+
+export const signAccessToken = (user: TokenSubject, sessionId: string): string =>
+  jwt.sign(
+    { id: user._id, email: user.email, role: user.role, company: user.company, sid: sessionId },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+// Short-lived token proving the password step of a two-step (2FA) login
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export const signTwoFactorChallenge = (userId: any): string =>
+  jwt.sign({ id: userId, purpose: "2fa_challenge" }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+
+export const verifyTwoFactorChallenge = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as { id?: string; purpose?: string };
+    return decoded.purpose === "2fa_challenge" && decoded.id ? decoded.id : null;
+  } catch {
+    return null;
+  }
+};
+
+// Pending Google link, kept in the browser session by POST /api/users/me/google/link. Its one-time nonce
+// rides through the OAuth round trip as `state`, so a link URL is useless outside the session that requested it
+export const GOOGLE_LINK_TTL_SECONDS = 5 * 60;
+
+export interface GoogleLinkRequest {
+  userId: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+export const createGoogleLinkRequest = (userId: any): GoogleLinkRequest => ({
+  userId: String(userId),
+  nonce: crypto.randomBytes(32).toString("hex"),
+  expiresAt: Date.now() + GOOGLE_LINK_TTL_SECONDS * 1000,
+});
+
+export const matchesGoogleLinkRequest = (request: GoogleLinkRequest | undefined, nonce: unknown): request is GoogleLinkRequest =>
+  !!request && typeof nonce === "string" && request.expiresAt > Date.now() && hashToken(nonce) === hashToken(request.nonce);
+
+// One-time code handed to the frontend at the end of a browser sign-in (Google, SSO), so no token
+// travels in a URL: "login" codes are traded for a token pair with POST /api/auth/exchange,
+// "two_factor" codes replace the challenge token in POST /api/auth/2fa/verify
+export const LOGIN_CODE_TTL_SECONDS = 60;
+
+const LOGIN_CODE_TTLS: Record<LoginCodePurpose, number> = {
+  login: LOGIN_CODE_TTL_SECONDS,
+  two_factor: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+};
+
+export const createLoginCode = async (userId: any, purpose: LoginCodePurpose = "login"): Promise<string> => {
+  const raw = generateOpaqueToken();
+  await LoginCode.create({
+    user: userId,
+    codeHash: hashToken(raw),
+    purpose,
+    expiresAt: new Date(Date.now() + LOGIN_CODE_TTLS[purpose] * 1000),
+  });
+  return raw;
+};
+
+const liveLoginCode = (rawCode: string, purpose: LoginCodePurpose) => ({
+  codeHash: hashToken(rawCode),
+  purpose,
+  usedAt: { $exists: false },
+  expiresAt: { $gt: new Date() },
+});
+
+/**
+ * Redeem a login code; null when it is unknown, expired or already used
+ */
+export const consumeLoginCode = async (rawCode: string, purpose: LoginCodePurpose = "login"): Promise<string | null> => {
+  const code = await LoginCode.findOneAndUpdate(liveLoginCode(rawCode, purpose), { $set: { usedAt: new Date() } }, { new: true });
+  return code ? String(code.user) : null;
+};
+
+/**
+ * User of a live code without using it up (a mistyped 2FA code can be retried with the same challenge)
+ */
+export const peekLoginCode = async (rawCode: string, purpose: LoginCodePurpose): Promise<string | null> => {
+  const code = await LoginCode.findOne(liveLoginCode(rawCode, purpose)).select("user").lean();
+  return code ? String(code.user) : null;
+};
+
+const createRefreshToken = async (userId: any, family: string, meta: RequestMeta) => {
+  const raw = generateOpaqueToken();
+  const doc = await RefreshToken.create({
+    user: userId,
+    tokenHash: hashToken(raw),
+    family,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+  });
+  return { raw, doc };
+};
+
+/**
+ * Start a new session (token family) for a user and return its first token pair
+ */
+export const issueAuthTokens = async (user: TokenSubject, meta: RequestMeta = {}): Promise<IssuedTokens> => {
+  const session = await Session.create({
+    user: user._id,
+    device: describeDevice(meta.userAgent),
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+  });
+  const family = String(session._id);
+  const { raw } = await createRefreshToken(user._id, family, meta);
+
+  return {
+    accessToken: signAccessToken(user, family),
+    refreshToken: raw,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresIn: REFRESH_TOKEN_TTL_SECONDS,
+    sessionId: family,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new pair. Each refresh token can be used once;
+ * presenting an already rotated token means it leaked, so the whole family is revoked.
+ */
+export const rotateRefreshToken = async (
+  rawToken: string,
+  loadUser: (userId: string) => Promise<TokenSubject | null>,
+  meta: RequestMeta = {}
+): Promise<IssuedTokens> => {
+  const current = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) });
+  if (!current) {
+    throw new RefreshTokenError("Invalid refresh token");
+  }
+
+  if (current.revokedAt || !(await isSessionActive(current.family))) {
+    throw new RefreshTokenError("Session has been revoked");
+  }
+
+  if (current.rotatedAt) {
+    await revokeSession(current.family, "reuse_detected");
+    throw new RefreshTokenError("Refresh token reuse detected, session revoked");
+  }
+
+  if (current.expiresAt.getTime() <= Date.now()) {
+    throw new RefreshTokenError("Refresh token expired");
+  }
+
+  // Claim the token atomically so two concurrent refreshes cannot both succeed
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { _id: current._id, rotatedAt: { $exists: false }, revokedAt: { $exists: false } },
+    { $set: { rotatedAt: new Date() } },
+    { new: true }
+  );
+  if (!claimed) {
+    await revokeSession(current.family, "reuse_detected");
+    throw new RefreshTokenError("Refresh token reuse detected, session revoked");
+  }
+
+  const user = await loadUser(String(current.user));
+  if (!user) {
+    await revokeSession(current.family, "revoked");
+    throw new RefreshTokenError("User not found");
+  }
+
+  const { raw, doc } = await createRefreshToken(current.user, current.family, meta);
+  claimed.replacedBy = doc._id as any;
+  await claimed.save();
+
+  // Sliding expiry: the session lives as long as its newest refresh token
+  await Session.updateOne(
+    { _id: current.family },
+    {
+      $set: {
+        lastUsedAt: new Date(),
+        expiresAt: doc.expiresAt,
+        ...(meta.ip ? { ip: meta.ip } : {}),
+      },
+    }
+  );
+
+  return {
+    accessToken: signAccessToken(user, current.family),
+    refreshToken: raw,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresIn: REFRESH_TOKEN_TTL_SECONDS,
+    sessionId: current.family,
+  };
+};
+
+/**
+ * Revoke a session and all of its refresh tokens, and drop its live sockets
+ */
+export const revokeSession = async (family: string, reason: RevokeReason = "revoked"): Promise<void> => {
+  if (isValidObjectId(family)) {
+    await Session.updateOne(
+      { _id: family, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason, socketIds: [] } }
+    );
+  }
+  await RefreshToken.updateMany(
+    { family, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  disconnectSessionSockets(family);
+};
+
+export const revokeSessionByRefreshToken = async (rawToken: string): Promise<string | null> => {
+  const token = await RefreshToken.findOne({ tokenHash: hashToken(rawToken) }).select("family").lean();
+  if (!token) return null;
+  await revokeSession(token.family, "logout");
+  return token.family;
+};
+
+export const revokeAllUserSessions = async (userId: any): Promise<void> => {
+  const sessions = await Session.find({ user: userId, revokedAt: { $exists: false } }).select("_id").lean();
+  for (const session of sessions) {
+    await revokeSession(String(session._id), "revoked");
+  }
+};
+
+/**
+ * A session is valid until it is revoked or its last refresh token expires
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  if (!isValidObjectId(sessionId)) return false;
+  const active = await Session.exists({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+  return !!active;
+};
+
+/**
+ * Record session activity (best-effort, throttled)
+ */
+export const touchSession = async (sessionId: string): Promise<void> => {
+  try {
+    const now = new Date();
+    await Session.updateOne(
+      { _id: sessionId, lastUsedAt: { $lt: new Date(now.getTime() - SESSION_TOUCH_INTERVAL_MS) } },
+      { $set: { lastUsedAt: now } }
+    );
+  } catch {
+    // activity tracking must never fail a request
+  }
+};
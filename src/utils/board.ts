@@ -0,0 +1,49 @@
+import Task from "../models/Task";
+import { getIO, projectRoom } from "./socketServer";
+import { rankBetween, spreadRanks } from "./rank";
+
+/**
+ * Kanban columns: tasks of one project (or of no project) sharing a status,
+ * ordered by rank
+ */
+export const columnFilter = (companyId: any, projectId: any, status: string) => ({
+  company: companyId,
+  "project.id": projectId ?? null,
+  status
+});
+
+/**
+ * Rank placing a task at the bottom of its column
+ */
+export const appendRank = async (companyId: any, projectId: any, status: string, excludeId?: any): Promise<string> => {
+  const last = await Task.findOne({
+    ...columnFilter(companyId, projectId, status),
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    rank: { $type: "string" }
+  }).sort({ rank: -1 }).select("rank").lean();
+  return rankBetween(last?.rank, null);
+};
+
+/**
+ * Give every task of a column a fresh, evenly spaced rank, keeping the current order
+ * (unranked legacy tasks first, by creation date)
+ */
+export const rebalanceColumn = async (companyId: any, projectId: any, status: string): Promise<void> => {
+  const tasks = await Task.find(columnFilter(companyId, projectId, status))
+    .sort({ rank: 1, createdAt: 1 })
+    .select("_id")
+    .lean();
+  if (tasks.length === 0) return;
+  const ranks = spreadRanks(tasks.length);
+  await Task.bulkWrite(tasks.map((task, i) => ({
+    updateOne: { filter: { _id: task._id }, update: { $set: { rank: ranks[i] } } }
+  })));
+};
+
+/**
+ * Push a board change to everyone viewing the project's board
+ */
+export const emitBoardEvent = (projectId: any, event: string, payload: any) => {
+  if (!projectId) return;
+  getIO()?.to(projectRoom(String(projectId._id ?? projectId))).emit(event, payload);
+};
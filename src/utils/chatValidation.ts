@@ -120,6 +120,31 @@ export const searchUsersSchema = z.object({
     .trim()
 });
 
+const objectId = (label: string) => z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID`);
+const isoDate = z.string().refine((value) => !isNaN(Date.parse(value)), { message: "Invalid date" });
+
+export const searchMessagesSchema = z.object({
+  q: z.string()
+    .trim()
+    .min(1, "Search query is required")
+    .max(200, "Search query cannot exceed 200 characters"),
+  channelId: objectId("channel").optional(),
+  senderId: objectId("sender").optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  has: z.enum(["file", "image"]).optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.preprocess(
+    (val) => val || "20",
+    z.string()
+      .regex(/^\d+$/, "Limit must be a number")
+      .transform(Number)
+      .refine((num) => num >= 1 && num <= 50, {
+        message: "Limit must be between 1 and 50"
+      })
+  )
+});
+
 export const updateChannelSchema = z.object({
   name: z.string()
     .min(1, "Channel name is required")
@@ -132,9 +157,23 @@ export const updateChannelSchema = z.object({
     .optional()
 });
 
+// Multipart text fields sent along with the file
 export const fileUploadSchema = z.object({
   channelId: z.string()
-    .regex(/^[0-9a-fA-F]{24}$/, "Invalid channel ID")
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid channel ID"),
+  content: z.string()
+    .max(4000, "Message content cannot exceed 4000 characters")
+    .refine((content) => {
+      // Security: Basic XSS prevention
+      return !/<script|<iframe|javascript:|data:/i.test(content);
+    }, {
+      message: "Message content contains potentially harmful content"
+    })
+    .trim()
+    .optional(),
+  replyTo: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid reply message ID")
+    .optional()
 });
 
 // Socket event validation schemas
@@ -166,6 +205,16 @@ export const socketTypingSchema = z.object({
     .regex(/^[0-9a-fA-F]{24}$/, "Invalid channel ID")
 });
 
+export const socketViewTaskSchema = z.object({
+  taskId: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid task ID")
+});
+
+export const socketViewProjectSchema = z.object({
+  projectId: z.string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid project ID")
+});
+
 // Rate limiting schemas
 export const rateLimitSchema = z.object({
   action: z.enum(["message", "typing", "join", "create"]),
@@ -181,8 +230,11 @@ export type JoinChannelInput = z.infer<typeof joinChannelSchema>;
 export type LeaveChannelInput = z.infer<typeof leaveChannelSchema>;
 export type MarkAsReadInput = z.infer<typeof markAsReadSchema>;
 export type SearchUsersInput = z.infer<typeof searchUsersSchema>;
+export type SearchMessagesInput = z.infer<typeof searchMessagesSchema>;
 export type UpdateChannelInput = z.infer<typeof updateChannelSchema>;
 export type FileUploadInput = z.infer<typeof fileUploadSchema>;
 export type SocketJoinChannelInput = z.infer<typeof socketJoinChannelSchema>;
 export type SocketSendMessageInput = z.infer<typeof socketSendMessageSchema>;
 export type SocketTypingInput = z.infer<typeof socketTypingSchema>;
+export type SocketViewTaskInput = z.infer<typeof socketViewTaskSchema>;
+export type SocketViewProjectInput = z.infer<typeof socketViewProjectSchema>;
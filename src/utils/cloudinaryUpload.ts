@@ -1,10 +1,17 @@
 import cloudinary from "../config/cloudinary";
 import { UploadApiResponse } from "cloudinary";
 
-export async function uploadBufferToCloudinary(buffer: Buffer, folder: string): Promise<UploadApiResponse> {
+// "raw" holds documents and other non-image files
+export type CloudinaryResourceType = "image" | "raw";
+
+export async function uploadBufferToCloudinary(
+  buffer: Buffer,
+  folder: string,
+  resourceType: CloudinaryResourceType = "image"
+): Promise<UploadApiResponse> {
   return new Promise((resolve, reject) => {
     const stream = cloudinary.uploader.upload_stream(
-      { folder, resource_type: "image" },
+      { folder, resource_type: resourceType },
       (error, result) => {
         if (error || !result) return reject(error);
         resolve(result);
@@ -14,9 +21,9 @@ export async function uploadBufferToCloudinary(buffer: Buffer, folder: string):
   });
 }
 
-export async function destroyByPublicId(publicId: string): Promise<void> {
+export async function destroyByPublicId(publicId: string, resourceType: CloudinaryResourceType = "image"): Promise<void> {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
   } catch {
     // swallow cleanup errors
   }
@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import { promises as dns } from "dns";
+import CompanyDomain from "../models/CompanyDomain";
+import JoinRequest from "../models/JoinRequest";
+import { emailDomain } from "./oidc";
+import { recordAudit } from "./auditLog";
+import { emitCompanyMemberAdded } from "./webhooks";
+
+/**
+ * Verified company email domains: sign-ups with a matching address either join the
+ * company directly or wait in its approval queue, depending on the domain's join policy.
+ */
+
+export const DOMAIN_TXT_PREFIX = "remoteoffice-verification=";
+
+export type TxtResolver = (domain: string) => Promise<string[][]>;
+
+let txtResolver: TxtResolver = (domain) => dns.resolveTxt(domain);
+
+// Tests and local setups can stub DNS lookups
+export const setTxtResolver = (resolver: TxtResolver) => {
+  txtResolver = resolver;
+};
+
+export const generateDomainToken = (): string => crypto.randomBytes(16).toString("hex");
+
+export const domainTxtRecord = (token: string): string => `${DOMAIN_TXT_PREFIX}${token}`;
+
+/**
+ * Whether the domain publishes the expected TXT record
+ */
+export const hasVerificationRecord = async (domain: string, token: string): Promise<boolean> => {
+  try {
+    const records = await txtResolver(domain);
+    return records.some((chunks) => chunks.join("") === domainTxtRecord(token));
+  } catch {
+    return false; // NXDOMAIN, no TXT records, resolver failure
+  }
+};
+
+export type DomainJoinSource = "password" | "google";
+
+export interface DomainJoinResult {
+  status: "joined" | "pending";
+  company: string;
+  domain: string;
+}
+
+/**
+ * Attach a company-less user to the company owning their verified email domain.
+ * Auto-join needs a proven email (Google); password sign-ups always go through approval.
+ * Mutates and saves the user when they join.
+ */
+export const applyDomainJoin = async (user: any, source: DomainJoinSource, req?: any): Promise<DomainJoinResult | null> => {
+  if (user.company || user.role === "superadmin" || !user.email) return null;
+
+  const domain = emailDomain(user.email);
+  const match = await CompanyDomain.findOne({ domain, verifiedAt: { $exists: true } }).lean();
+  if (!match) return null;
+
+  const company = String(match.company);
+
+  if (match.joinPolicy === "auto" && source === "google") {
+    user.company = company;
+    user.role = "employee";
+    await user.save();
+
+    await recordAudit({
+      actorId: user._id,
+      entityType: "user",
+      entityId: user._id,
+      action: "domain_auto_join",
+      changes: { company, domain, source },
+      req
+    });
+    await emitCompanyMemberAdded(company, user, "domain");
+    return { status: "joined", company, domain };
+  }
+
+  await JoinRequest.updateOne(
+    { user: user._id, company: match.company, status: "pending" },
+    { $setOnInsert: { domain, source } },
+    { upsert: true }
+  );
+  return { status: "pending", company, domain };
+};
+
+export const serializeCompanyDomain = (doc: any) => ({
+  id: String(doc._id),
+  domain: doc.domain,
+  verified: !!doc.verifiedAt,
+  verifiedAt: doc.verifiedAt ?? null,
+  joinPolicy: doc.joinPolicy,
+  // DNS record the company must publish to verify ownership
+  txtRecord: doc.verifiedAt ? null : domainTxtRecord(doc.verificationToken),
+  createdAt: doc.createdAt,
+});
+
+export const serializeJoinRequest = (doc: any) => ({
+  id: String(doc._id),
+  user: doc.user && doc.user.email
+    ? { id: String(doc.user._id), name: doc.user.name, email: doc.user.email }
+    : String(doc.user),
+  domain: doc.domain,
+  source: doc.source,
+  status: doc.status,
+  decidedBy: doc.decidedBy ? String(doc.decidedBy._id ?? doc.decidedBy) : null,
+  decidedAt: doc.decidedAt ?? null,
+  createdAt: doc.createdAt,
+});
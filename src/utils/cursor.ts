@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+/**
+ * Opaque cursors for newest-first lists ordered by (createdAt, _id). The tie-break on _id
+ * keeps pages stable when several documents share a timestamp.
+ */
+
+export interface ListCursor {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+}
+
+export const encodeCursor = (doc: { createdAt: Date; _id: any }): string =>
+  Buffer.from(JSON.stringify({ t: new Date(doc.createdAt).getTime(), id: String(doc._id) })).toString("base64url");
+
+// Null when the cursor was not produced by encodeCursor
+export const decodeCursor = (cursor: string): ListCursor | null => {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof t !== "number" || !Number.isFinite(t) || typeof id !== "string" || !mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return { createdAt: new Date(t), id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Filter selecting the documents after `cursor` in { createdAt: -1, _id: -1 } order
+ */
+export const olderThanCursor = (cursor: ListCursor) => ({
+  $or: [
+    { createdAt: { $lt: cursor.createdAt } },
+    { createdAt: cursor.createdAt, _id: { $lt: cursor.id } }
+  ]
+});
@@ -0,0 +1,86 @@
+import Task from "../models/Task";
+
+/**
+ * "Blocked by / blocks" relationships between tasks of one company.
+ * Only `blockedBy` is stored; "blocks" is the reverse lookup.
+ */
+
+// A blocker is satisfied once its status is in the done category
+const isOpen = (task: { statusCategory?: string }) => task.statusCategory !== "done";
+
+// Status categories that need every blocker to be done first
+export const BLOCKED_CATEGORIES = ["in_progress", "done"];
+
+/**
+ * Would making `blockerId` a blocker of `taskId` close a loop?
+ * True when `taskId` is already (transitively) blocking `blockerId`.
+ */
+export const wouldCreateCycle = async (taskId: any, blockerId: any, companyId: any): Promise<boolean> => {
+  const target = String(taskId);
+  const seen = new Set<string>();
+  let frontier = [String(blockerId)];
+
+  while (frontier.length > 0) {
+    if (frontier.includes(target)) return true;
+    frontier.forEach((id) => seen.add(id));
+    const tasks = await Task.find({ _id: { $in: frontier }, company: companyId }).select("blockedBy").lean();
+    frontier = [...new Set(tasks.flatMap((t) => (t.blockedBy ?? []).map(String)))].filter((id) => !seen.has(id));
+  }
+  return false;
+};
+
+/**
+ * Blockers of the task that are not done yet
+ */
+export const findOpenBlockers = async (task: { blockedBy?: any[]; company: any }) => {
+  if (!task.blockedBy?.length) return [];
+  const blockers = await Task.find({ _id: { $in: task.blockedBy }, company: task.company })
+    .select("title status statusCategory assignees")
+    .lean();
+  return blockers.filter(isOpen).map((b) => ({ id: String(b._id), title: b.title, status: b.status, statusCategory: b.statusCategory }));
+};
+
+/**
+ * Nodes and "blocks" edges for a set of tasks. Blockers outside the set (e.g. in
+ * another project) are included as external nodes so every edge resolves.
+ */
+export const buildDependencyGraph = async (tasks: any[], companyId: any) => {
+  const byId = new Map<string, any>(tasks.map((t) => [String(t._id), t]));
+  const ids = [...byId.keys()];
+
+  // Tasks outside the set that block, or are blocked by, tasks in the set
+  const referenced = new Set(tasks.flatMap((t) => (t.blockedBy ?? []).map(String)));
+  const [outsideBlockers, outsideBlocked] = await Promise.all([
+    Task.find({ _id: { $in: [...referenced].filter((id) => !byId.has(id)) }, company: companyId })
+      .select("title status statusCategory blockedBy project").lean(),
+    Task.find({ blockedBy: { $in: ids }, _id: { $nin: ids }, company: companyId })
+      .select("title status statusCategory blockedBy project").lean()
+  ]);
+
+  const all = new Map<string, any>(byId);
+  [...outsideBlockers, ...outsideBlocked].forEach((t) => all.set(String(t._id), t));
+
+  const edges: { from: string; to: string }[] = [];
+  all.forEach((task, id) => {
+    for (const blocker of task.blockedBy ?? []) {
+      const from = String(blocker);
+      // Keep only edges touching the requested set whose ends are both known
+      if (all.has(from) && (byId.has(from) || byId.has(id))) edges.push({ from, to: id });
+    }
+  });
+
+  const nodes = [...all.entries()].map(([id, task]) => ({
+    id,
+    title: task.title,
+    status: task.status,
+    statusCategory: task.statusCategory,
+    project: task.project?.id ? String(task.project.id._id ?? task.project.id) : null,
+    external: !byId.has(id),
+    blocked: (task.blockedBy ?? []).some((b: any) => {
+      const blocker = all.get(String(b));
+      return blocker ? isOpen(blocker) : false;
+    })
+  }));
+
+  return { nodes, edges };
+};
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import cloudinary from "../config/cloudinary";
+import fs from "fs/promises";
+import path from "path";
+import { uploadBufferToCloudinary, destroyByPublicId, CloudinaryResourceType } from "./cloudinaryUpload";
+
+export interface StoredFile {
+  url: string;
+  key: string; // Cloudinary public id, or path under the local upload directory
+  provider: "cloudinary" | "local";
+  resourceType?: CloudinaryResourceType;
+}
+
+export interface FileToStore {
+  buffer: Buffer;
+  mimetype: string;
+  extension: string; // derived from the accepted MIME type, never from the client's file name
+  folder: string;
+}
+
+/**
+ * Where uploaded files live. Cloudinary in deployments; the local driver writes under
+ * UPLOAD_DIR and is served at /uploads, for dev and tests only. Override with setFileStorage().
+ */
+export interface FileStorage {
+  readonly provider: StoredFile["provider"];
+  save(file: FileToStore): Promise<StoredFile>;
+  remove(file: Pick<StoredFile, "key" | "resourceType">): Promise<void>;
+  // URL of a preview fitting in size x size pixels (images only)
+  thumbnailUrl(file: StoredFile, size: number): string;
+}
+
+export class CloudinaryFileStorage implements FileStorage {
+  readonly provider = "cloudinary" as const;
+
+  async save(file: FileToStore): Promise<StoredFile> {
+    const resourceType: CloudinaryResourceType = file.mimetype.startsWith("image/") ? "image" : "raw";
+    const result = await uploadBufferToCloudinary(file.buffer, file.folder, resourceType);
+    return { url: result.secure_url, key: result.public_id, provider: this.provider, resourceType };
+  }
+
+  async remove(file: Pick<StoredFile, "key" | "resourceType">): Promise<void> {
+    await destroyByPublicId(file.key, file.resourceType ?? "image");
+  }
+
+  // Generated on first request by Cloudinary's delivery transformations
+  thumbnailUrl(file: StoredFile, size: number): string {
+    return cloudinary.url(file.key, {
+      secure: true,
+      resource_type: "image",
+      transformation: [{ width: size, height: size, crop: "limit" }, { fetch_format: "auto", quality: "auto" }]
+    });
+  }
+}
+
+export class LocalFileStorage implements FileStorage {
+  readonly provider = "local" as const;
+
+  constructor(private readonly directory: string, private readonly baseUrl: string) {}
+
+  async save(file: FileToStore): Promise<StoredFile> {
+    const key = path.posix.join(file.folder, `${crypto.randomBytes(16).toString("hex")}.${file.extension}`);
+    const target = path.join(this.directory, key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.buffer);
+    return { url: `${this.baseUrl}/${key}`, key, provider: this.provider };
+  }
+
+  async remove(file: Pick<StoredFile, "key">): Promise<void> {
+    const target = path.resolve(this.directory, file.key);
+    // Never follow a key outside the upload directory
+    if (!target.startsWith(path.resolve(this.directory) + path.sep)) return;
+    await fs.rm(target, { force: true });
+  }
+
+  // No image processing locally; clients scale the original
+  thumbnailUrl(file: StoredFile): string {
+    return file.url;
+  }
+}
+
+export const getUploadDir = (): string => process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads");
+
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConfigError";
+  }
+}
+
+// Local files are served without authentication at /uploads, so production always stores them in Cloudinary
+const createDefaultStorage = (): FileStorage => {
+  if (process.env.NODE_ENV === "production") {
+    if (process.env.FILE_STORAGE === "local") {
+      throw new StorageConfigError("FILE_STORAGE=local is not allowed in production");
+    }
+    if (!process.env.CLOUDINARY_CLOUD_NAME) {
+      throw new StorageConfigError("No file storage configured: set the Cloudinary credentials in production");
+    }
+    return new CloudinaryFileStorage();
+  }
+
+  const useLocal = process.env.FILE_STORAGE
+    ? process.env.FILE_STORAGE === "local"
+    : !process.env.CLOUDINARY_CLOUD_NAME;
+  if (useLocal) {
+    const apiUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}`;
+    return new LocalFileStorage(getUploadDir(), `${apiUrl}/uploads`);
+  }
+  return new CloudinaryFileStorage();
+};
+
+let storage: FileStorage | null = null;
+
+export const setFileStorage = (custom: FileStorage) => {
+  storage = custom;
+};
+
+export const getFileStorage = (): FileStorage => {
+  if (!storage) storage = createDefaultStorage();
+  return storage;
+};
+
+/**
+ * Delete stored files, ignoring failures (the owning records are already gone)
+ */
+export const removeStoredFiles = async (files: Pick<StoredFile, "key" | "resourceType" | "provider">[]): Promise<void> => {
+  for (const file of files) {
+    try {
+      const driver = getFileStorage();
+      if (file.provider === driver.provider) {
+        await driver.remove(file);
+      } else if (file.provider === "cloudinary") {
+        await new CloudinaryFileStorage().remove(file);
+      } else {
+        await new LocalFileStorage(getUploadDir(), "").remove(file);
+      }
+    } catch (error) {
+      console.error("Error removing stored file:", error);
+    }
+  }
+};
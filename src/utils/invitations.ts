@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import Invitation, { IInvitation } from "../models/Invitation";
+import { hashToken } from "./authTokens";
+import { sendMail, getFrontendUrl, escapeHtml } from "./mailer";
+import { recordAudit } from "./auditLog";
+
+export const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS) || 7;
+
+export const generateInvitationToken = () => {
+  const raw = crypto.randomBytes(32).toString("hex");
+  return {
+    raw,
+    hash: hashToken(raw),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+};
+
+/**
+ * Look up a pending, unexpired invitation from the raw token in the invite link
+ */
+export const findPendingInvitation = async (rawToken: string): Promise<IInvitation | null> => {
+  if (!rawToken) return null;
+  return Invitation.findOne({
+    tokenHash: hashToken(rawToken),
+    status: "pending",
+    expiresAt: { $gt: new Date() },
+  });
+};
+
+export const sendInvitationEmail = async (
+  invitation: IInvitation,
+  rawToken: string,
+  companyName: string,
+  inviterName?: string
+) => {
+  const acceptUrl = `${getFrontendUrl()}/auth/accept-invitation?token=${rawToken}`;
+  const inviter = inviterName ? `${inviterName} has` : "You have been";
+  const intro = inviterName
+    ? `${inviter} invited you to join ${companyName} on RemoteOffice as ${invitation.role === "member" ? "a member" : "an employee"}.`
+    : `You have been invited to join ${companyName} on RemoteOffice.`;
+
+  await sendMail({
+    to: invitation.email,
+    subject: `You're invited to join ${companyName} on RemoteOffice`,
+    text: `${intro}\n\nAccept the invitation and set up your account within ${INVITATION_TTL_DAYS} days:\n\n${acceptUrl}`,
+    html: `<p>${escapeHtml(intro)}</p><p>Accept the invitation and set up your account within ${INVITATION_TTL_DAYS} days:</p><p><a href="${acceptUrl}">Accept invitation</a></p>`,
+  });
+};
+
+export const serializeInvitation = (invitation: any) => ({
+  id: String(invitation._id),
+  email: invitation.email,
+  role: invitation.role,
+  status: invitation.status === "pending" && invitation.expiresAt <= new Date() ? "expired" : invitation.status,
+  company: invitation.company,
+  invitedBy: invitation.invitedBy,
+  expiresAt: invitation.expiresAt,
+  sendCount: invitation.sendCount,
+  lastSentAt: invitation.lastSentAt ?? null,
+  acceptedAt: invitation.acceptedAt ?? null,
+  acceptedVia: invitation.acceptedVia ?? null,
+  revokedAt: invitation.revokedAt ?? null,
+  createdAt: invitation.createdAt ?? null,
+});
+
+/**
+ * Atomically mark an invitation accepted and record it in the audit log.
+ * Returns false when the invitation was accepted or revoked in the meantime.
+ */
+export const completeInvitation = async (
+  invitation: IInvitation,
+  userId: any,
+  via: "password" | "google",
+  req?: { headers: any; socket?: any }
+): Promise<boolean> => {
+  const accepted = await Invitation.findOneAndUpdate(
+    { _id: invitation._id, status: "pending" },
+    { $set: { status: "accepted", acceptedAt: new Date(), acceptedBy: userId, acceptedVia: via } },
+    { new: true }
+  );
+  if (!accepted) return false;
+
+  await recordAudit({
+    actorId: userId,
+    entityType: "invitation",
+    entityId: accepted._id,
+    action: "accept_invitation",
+    changes: { email: accepted.email, role: accepted.role, company: accepted.company, via },
+    req,
+  });
+  return true;
+};
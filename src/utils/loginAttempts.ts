@@ -0,0 +1,222 @@
+import LoginAttempt from "../models/LoginAttempt";
+import { recordAudit } from "./auditLog";
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+}
+
+/**
+ * Persistence for failed-attempt counters. Writes are atomic so concurrent failures are
+ * all counted; records expire `ttlMs` after their last write (never earlier than before).
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<AttemptRecord | null>;
+  // Count one failure; returns the record after the increment, with the lock as it was before it
+  increment(key: string, ttlMs: number): Promise<AttemptRecord>;
+  // Lock until at least `lockedUntil`; true when no lock was active before this call
+  lock(key: string, lockedUntil: Date, ttlMs: number): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process store for tests and single-instance development
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<AttemptRecord | null> {
+    const entry = this.records.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return { ...entry.record };
+  }
+
+  async increment(key: string, ttlMs: number): Promise<AttemptRecord> {
+    const now = Date.now();
+    const entry = this.records.get(key);
+    const current = entry && entry.expiresAt > now ? entry : { record: { failures: 0 } as AttemptRecord, expiresAt: 0 };
+    const record = { ...current.record, failures: current.record.failures + 1, lastFailureAt: new Date(now) };
+    this.records.set(key, { record, expiresAt: Math.max(current.expiresAt, now + ttlMs) });
+    return { ...record };
+  }
+
+  async lock(key: string, lockedUntil: Date, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const entry = this.records.get(key);
+    if (!entry) return false;
+    const active = !!entry.record.lockedUntil && entry.record.lockedUntil.getTime() > now;
+    if (!active || entry.record.lockedUntil!.getTime() < lockedUntil.getTime()) {
+      entry.record.lockedUntil = lockedUntil;
+    }
+    entry.expiresAt = Math.max(entry.expiresAt, now + ttlMs);
+    return !active;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+/**
+ * MongoDB-backed store shared by every API instance
+ */
+export class MongoLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<AttemptRecord | null> {
+    const doc = await LoginAttempt.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    if (!doc) return null;
+    return { failures: doc.failures, lastFailureAt: doc.lastFailureAt, lockedUntil: doc.lockedUntil };
+  }
+
+  async increment(key: string, ttlMs: number): Promise<AttemptRecord> {
+    const now = new Date();
+    // The TTL monitor runs about once a minute; an expired record starts a new count
+    await LoginAttempt.deleteOne({ key, expiresAt: { $lte: now } });
+
+    const update = {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now },
+      $max: { expiresAt: new Date(now.getTime() + ttlMs) },
+    };
+    let doc;
+    try {
+      doc = await LoginAttempt.findOneAndUpdate({ key }, update, { upsert: true, new: true }).lean();
+    } catch (error: any) {
+      // Two first failures raced to insert the record; the loser increments the winner's
+      if (error?.code !== 11000) throw error;
+      doc = await LoginAttempt.findOneAndUpdate({ key }, update, { new: true }).lean();
+    }
+    return { failures: doc!.failures, lastFailureAt: doc!.lastFailureAt, lockedUntil: doc!.lockedUntil };
+  }
+
+  async lock(key: string, lockedUntil: Date, ttlMs: number): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    const started = await LoginAttempt.updateOne(
+      { key, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: new Date() } }] },
+      { $set: { lockedUntil }, $max: { expiresAt } }
+    );
+    if (started.modifiedCount > 0) return true;
+    await LoginAttempt.updateOne({ key }, { $max: { lockedUntil, expiresAt } });
+    return false;
+  }
+
+  async delete(key: string): Promise<void> {
+    await LoginAttempt.deleteOne({ key });
+  }
+}
+
+interface ThrottlePolicy {
+  freeAttempts: number; // failures allowed before the first lockout
+  baseLockMs: number; // first lockout duration, doubled on every further failure
+  maxLockMs: number;
+  windowMs: number; // failures are forgotten after this long without a new one
+}
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  freeAttempts: Number(process.env.LOGIN_MAX_ACCOUNT_FAILURES) || 5,
+  baseLockMs: 30 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+  baseLockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+export const accountKey = (email: string) => `account:${String(email).trim().toLowerCase()}`;
+// Pass req.ip: it only trusts X-Forwarded-For for the proxy hops configured with "trust proxy"
+export const ipKey = (ip?: string, scope = "login") => `ip:${scope}:${ip || "unknown"}`;
+
+const policyFor = (key: string): ThrottlePolicy => (key.startsWith("ip:") ? IP_POLICY : ACCOUNT_POLICY);
+
+let store: LoginAttemptStore | null = null;
+
+export const setLoginAttemptStore = (custom: LoginAttemptStore) => {
+  store = custom;
+};
+
+export const getLoginAttemptStore = (): LoginAttemptStore => {
+  if (!store) {
+    store = process.env.LOGIN_ATTEMPT_STORE === "memory" ? new MemoryLoginAttemptStore() : new MongoLoginAttemptStore();
+  }
+  return store;
+};
+
+export interface LockStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+  key?: string;
+}
+
+/**
+ * Returns the longest active lock among the given keys
+ */
+export const checkLock = async (...keys: string[]): Promise<LockStatus> => {
+  let status: LockStatus = { locked: false, retryAfterSeconds: 0 };
+  for (const key of keys) {
+    const record = await getLoginAttemptStore().get(key);
+    const remainingMs = record?.lockedUntil ? new Date(record.lockedUntil).getTime() - Date.now() : 0;
+    if (remainingMs > 0 && Math.ceil(remainingMs / 1000) > status.retryAfterSeconds) {
+      status = { locked: true, retryAfterSeconds: Math.ceil(remainingMs / 1000), key };
+    }
+  }
+  return status;
+};
+
+/**
+ * Count a failure; once past the free attempts the key is locked with exponential backoff.
+ * The lock is decided from the atomically incremented count, so parallel failures all count.
+ * `newlyLocked` is true when this failure started a lockout.
+ */
+export const registerFailure = async (key: string) => {
+  const policy = policyFor(key);
+  const record = await getLoginAttemptStore().increment(key, policy.windowMs);
+  const { failures } = record;
+
+  let lockedUntil = record.lockedUntil;
+  let newlyLocked = false;
+  if (failures >= policy.freeAttempts) {
+    const lockMs = Math.min(policy.baseLockMs * 2 ** (failures - policy.freeAttempts), policy.maxLockMs);
+    lockedUntil = new Date(Date.now() + lockMs);
+    newlyLocked = await getLoginAttemptStore().lock(key, lockedUntil, lockMs + policy.windowMs);
+  }
+
+  return { failures, lockedUntil, newlyLocked };
+};
+
+/**
+ * Count a failed sign-in step (password or 2FA code) against the account and the client IP,
+ * auditing new account lockouts
+ */
+export const recordFailedLogin = async (req: any, email: string, userId?: any, step: "password" | "two_factor" = "password") => {
+  const ip = req.ip;
+  await registerFailure(ipKey(ip));
+  const result = await registerFailure(accountKey(email));
+
+  if (result.newlyLocked && userId) {
+    await recordAudit({
+      actorId: userId,
+      entityType: "user",
+      entityId: userId,
+      action: "account_locked",
+      changes: { failures: result.failures, lockedUntil: result.lockedUntil, ip, step },
+      req
+    });
+  }
+  return result;
+};
+
+export const resetAttempts = async (key: string): Promise<void> => {
+  await getLoginAttemptStore().delete(key);
+};
@@ -0,0 +1,115 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers a rendered message. Production sends through SMTP (registered at
+ * startup from the SMTP_* settings) or a provider plugged in with setMailTransport();
+ * console and file transports cover local dev and tests.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes every message as a JSON file so tests and developers can read the outbox
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Delivers through an SMTP server (any provider with an SMTP relay)
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }, private readonly from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export class MailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailConfigError";
+  }
+}
+
+/**
+ * SMTP transport from SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE, SMTP_USER, SMTP_PASS and MAIL_FROM
+ */
+export const createSmtpTransportFromEnv = (): SmtpMailTransport => {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, MAIL_FROM } = process.env;
+  if (!SMTP_HOST || !MAIL_FROM) {
+    throw new MailConfigError("SMTP mail needs SMTP_HOST and MAIL_FROM");
+  }
+  const port = Number(SMTP_PORT) || 587;
+  return new SmtpMailTransport(
+    { host: SMTP_HOST, port, secure: SMTP_SECURE ? SMTP_SECURE === "true" : port === 465, user: SMTP_USER, pass: SMTP_PASS },
+    MAIL_FROM
+  );
+};
+
+// Console and file transports write reset/invitation links to logs or disk, so production needs a real one
+const createDefaultTransport = (): MailTransport => {
+  if (process.env.NODE_ENV === "production") {
+    throw new MailConfigError("No mail transport configured: set MAIL_TRANSPORT=smtp and the SMTP_* settings in production");
+  }
+  if (process.env.MAIL_TRANSPORT === "file") {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "tmp", "mail"));
+  }
+  return new ConsoleMailTransport();
+};
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (custom: MailTransport) => {
+  transport = custom;
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) transport = createDefaultTransport();
+  return transport;
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => getMailTransport().send(message);
+
+export const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+export const getFrontendUrl = (): string => process.env.FRONTEND_URL || "http://localhost:3000";
+
+export default sendMail;
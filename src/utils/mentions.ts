@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+import User from "../models/User";
+
+/**
+ * @mentions in free text. Two forms are recognised:
+ *  - @[Display Name](userId)  inserted by the mention picker
+ *  - @jane@acme.com           typed by hand
+ */
+const TOKEN_MENTION = /@\[[^\]]{1,100}\]\(([0-9a-fA-F]{24})\)/g;
+const EMAIL_MENTION = /(?:^|[\s(])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+export const extractMentions = (content: string): { ids: string[]; emails: string[] } => {
+  const ids = new Set<string>();
+  const emails = new Set<string>();
+  for (const match of content.matchAll(TOKEN_MENTION)) ids.add(match[1].toLowerCase());
+  for (const match of content.matchAll(EMAIL_MENTION)) emails.add(match[1].replace(/\.$/, "").toLowerCase());
+  return { ids: [...ids], emails: [...emails] };
+};
+
+/**
+ * Resolve mentions to users of the company; anything else is left as plain text
+ */
+export const resolveMentions = async (companyId: any, content: string): Promise<mongoose.Types.ObjectId[]> => {
+  const { ids, emails } = extractMentions(content);
+  if (ids.length === 0 && emails.length === 0) return [];
+
+  const users = await User.find({
+    company: companyId,
+    $or: [{ _id: { $in: ids } }, { email: { $in: emails } }]
+  }).select("_id").lean();
+
+  return users.map((u) => u._id as mongoose.Types.ObjectId);
+};
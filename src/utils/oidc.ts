@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+/**
+ * Minimal OpenID Connect relying party: discovery, authorization code flow with PKCE,
+ * and id_token verification against the provider's JWKS.
+ */
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+// Discovery documents and key sets rarely change; refetch at most every 10 minutes
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512", "PS256"];
+
+const discoveryCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; fetchedAt: number }>();
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  } catch (error) {
+    throw new OidcError(`Could not reach ${url}`);
+  }
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new OidcError(body?.error_description || body?.error || `Request to ${url} failed with ${response.status}`);
+  }
+  return body;
+};
+
+export const discoverProvider = async (issuer: string, forceRefresh = false): Promise<OidcProviderMetadata> => {
+  const key = trimSlash(issuer);
+  const cached = discoveryCache.get(key);
+  if (cached && !forceRefresh && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${key}/.well-known/openid-configuration`);
+  if (!metadata?.authorization_endpoint || !metadata?.token_endpoint || !metadata?.jwks_uri) {
+    throw new OidcError("Discovery document is missing required endpoints");
+  }
+  if (trimSlash(metadata.issuer || "") !== key) {
+    throw new OidcError("Discovery document issuer does not match the configured issuer");
+  }
+
+  discoveryCache.set(key, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+export const generatePkce = () => {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+};
+
+export const randomState = (): string => crypto.randomBytes(24).toString("base64url");
+
+export const buildAuthorizationUrl = (
+  metadata: OidcProviderMetadata,
+  params: { clientId: string; redirectUri: string; scopes: string[]; state: string; nonce: string; codeChallenge: string; loginHint?: string }
+): string => {
+  const query = new URLSearchParams({
+    response_type: "code",
+    client_id: params.clientId,
+    redirect_uri: params.redirectUri,
+    scope: params.scopes.join(" "),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: "S256",
+  });
+  if (params.loginHint) query.set("login_hint", params.loginHint);
+  const separator = metadata.authorization_endpoint.includes("?") ? "&" : "?";
+  return `${metadata.authorization_endpoint}${separator}${query.toString()}`;
+};
+
+export const exchangeCode = async (
+  metadata: OidcProviderMetadata,
+  client: OidcClientConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<{ id_token: string; access_token?: string }> => {
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: client.clientId,
+      client_secret: client.clientSecret,
+      code_verifier: params.codeVerifier,
+    }).toString(),
+  });
+  if (!tokens?.id_token) {
+    throw new OidcError("Token response did not include an id_token");
+  }
+  return tokens;
+};
+
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = (keys: any[]) => keys.find((k) => (kid ? k.kid === kid : k.use !== "enc"));
+
+  let cached = jwksCache.get(jwksUri);
+  let jwk = cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS ? findKey(cached.keys) : undefined;
+
+  // Unknown kid usually means the provider rotated its keys
+  if (!jwk) {
+    const body = await fetchJson(jwksUri);
+    cached = { keys: Array.isArray(body?.keys) ? body.keys : [], fetchedAt: Date.now() };
+    jwksCache.set(jwksUri, cached);
+    jwk = findKey(cached.keys);
+  }
+  if (!jwk) {
+    throw new OidcError("No matching signing key found in the provider's JWKS");
+  }
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+};
+
+/**
+ * Verify signature, issuer, audience, expiry and nonce of an id_token
+ */
+export const verifyIdToken = async (
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  client: OidcClientConfig,
+  expectedNonce: string
+): Promise<IdTokenClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new OidcError("Malformed id_token");
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+
+  let claims: IdTokenClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: client.clientId,
+      clockTolerance: 60,
+    }) as IdTokenClaims;
+  } catch (error: any) {
+    throw new OidcError(`Invalid id_token: ${error?.message || "verification failed"}`);
+  }
+
+  if (!claims.nonce || claims.nonce !== expectedNonce) {
+    throw new OidcError("id_token nonce mismatch");
+  }
+  if (!claims.sub) {
+    throw new OidcError("id_token has no subject");
+  }
+  return claims;
+};
+
+export const emailDomain = (email: string): string => email.split("@").pop()!.trim().toLowerCase();
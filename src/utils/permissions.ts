@@ -0,0 +1,38 @@
+/**
+ * Named permissions checked by requirePermission() and controllers.
+ * Built-in roles map to default permission sets; companies can define custom roles
+ * (models/Role) that replace the defaults of employees and members.
+ */
+export const PERMISSIONS = [
+  "company:update",
+  "company:manage_users",
+  "company:manage_roles",
+  "project:create",
+  "project:update",
+  "project:delete",
+  "project:manage_members",
+  "task:create",
+  "task:update",
+  "task:delete",
+  "task:assign",
+  "channel:create",
+  "channel:create_group",
+  "channel:moderate",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type BuiltInRole = "superadmin" | "company_admin" | "employee" | "member";
+
+export const ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  superadmin: PERMISSIONS,
+  company_admin: PERMISSIONS,
+  employee: ["channel:create", "channel:create_group"],
+  member: ["channel:create"],
+};
+
+// Roles whose permissions cannot be narrowed by a custom role
+export const FULL_ACCESS_ROLES: BuiltInRole[] = ["superadmin", "company_admin"];
+
+export const isPermission = (value: string): value is Permission =>
+  (PERMISSIONS as readonly string[]).includes(value);
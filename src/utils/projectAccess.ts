@@ -0,0 +1,114 @@
+import { Request } from "express";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import Project, { IProject, IProjectMemberRole, ProjectRole } from "../models/Project";
+import { Permission } from "./permissions";
+
+/**
+ * Project-level rights. A member's project role decides what they can do inside
+ * that project; company-level permissions (utils/permissions) always override.
+ */
+export type ProjectAction =
+  | "update"
+  | "delete"
+  | "manage_members"
+  | "create_task"
+  | "assign_task";
+
+const PROJECT_ROLE_RIGHTS: Record<ProjectRole, readonly ProjectAction[]> = {
+  owner: ["update", "delete", "manage_members", "create_task", "assign_task"],
+  maintainer: ["update", "manage_members", "create_task", "assign_task"],
+  contributor: ["create_task"],
+  viewer: [],
+};
+
+// Company permission that grants the same right in every project of the company
+const COMPANY_OVERRIDES: Record<ProjectAction, Permission> = {
+  update: "project:update",
+  delete: "project:delete",
+  manage_members: "project:manage_members",
+  create_task: "task:create",
+  assign_task: "task:assign",
+};
+
+type ProjectLike = Pick<IProject, "createdBy" | "members"> & { memberRoles?: IProjectMemberRole[] };
+
+const idOf = (value: any): string => String(value?._id ?? value);
+
+/**
+ * Explicit role entries of a project. Projects created before project roles existed
+ * have none: their creator is treated as the owner.
+ */
+export const getMemberRoles = (project: ProjectLike): IProjectMemberRole[] =>
+  project.memberRoles && project.memberRoles.length > 0
+    ? project.memberRoles
+    : [{ user: project.createdBy, role: "owner" }];
+
+/**
+ * Resolve a user's role in a project; members without an explicit entry are contributors
+ */
+export const getProjectRole = (project: ProjectLike, userId: any): ProjectRole | null => {
+  const id = idOf(userId);
+  const entry = getMemberRoles(project).find((m) => idOf(m.user) === id);
+  if (entry) return entry.role;
+  if (project.members?.some((m: any) => idOf(m) === id)) return "contributor";
+  return null;
+};
+
+export const projectRoleAllows = (role: ProjectRole | null, action: ProjectAction): boolean =>
+  !!role && PROJECT_ROLE_RIGHTS[role].includes(action);
+
+/**
+ * Check whether the authenticated user may perform an action in a project
+ */
+export const canOnProject = async (req: Request, project: ProjectLike, action: ProjectAction): Promise<boolean> => {
+  const { user } = req as AuthRequest;
+  if (!user) return false;
+  if (await hasPermission(req, COMPANY_OVERRIDES[action])) return true;
+  return projectRoleAllows(getProjectRole(project, user._id), action);
+};
+
+/**
+ * Projects created before project roles existed store no entries; write the implicit owner
+ * entry once so member changes can update the array in place instead of rewriting it
+ */
+export const ensureMemberRoles = async (project: ProjectLike & { _id: any }): Promise<void> => {
+  await Project.updateOne(
+    { _id: project._id, "memberRoles.0": { $exists: false } },
+    { $set: { memberRoles: [{ user: project.createdBy, role: "owner" }] } }
+  );
+};
+
+// Add a role entry unless the user already has one (existing members keep their role)
+export const addMemberRole = (projectId: any, userId: any, role: ProjectRole) =>
+  Project.updateOne(
+    { _id: projectId, "memberRoles.user": { $ne: userId } },
+    { $push: { memberRoles: { user: userId, role } } }
+  );
+
+/**
+ * After replacing a project's member list: members who stay keep their role, newcomers get
+ * `defaultRole` and everyone else loses their entry. Owners are only dropped while one of the
+ * new members is an owner; returns false (and changes nothing) otherwise.
+ */
+export const syncMemberRoles = async (
+  project: ProjectLike & { _id: any },
+  memberIds: any[],
+  defaultRole: ProjectRole = "contributor"
+): Promise<boolean> => {
+  await ensureMemberRoles(project);
+  const synced = await Project.updateOne(
+    { _id: project._id, memberRoles: { $elemMatch: { role: "owner", user: { $in: memberIds } } } },
+    { $pull: { memberRoles: { user: { $nin: memberIds } } } }
+  );
+  if (synced.matchedCount === 0) return false;
+  for (const memberId of memberIds) {
+    await addMemberRole(project._id, memberId, defaultRole);
+  }
+  return true;
+};
+
+// Filter matching projects that keep an owner other than `userId`
+export const keepsAnotherOwner = (userId: any) => ({
+  memberRoles: { $elemMatch: { role: "owner", user: { $ne: userId } } }
+});
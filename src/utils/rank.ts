@@ -0,0 +1,63 @@
+/**
+ * Lexicographic ranks for ordering tasks inside a board column. A task moves by
+ * getting a rank between its new neighbours, so no other task is rewritten.
+ * Ranks use base-36 digits and never end in "0", which guarantees a rank strictly
+ * between any two distinct ranks always exists.
+ */
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+
+// Fixed-width space used for appends, prepends and rebalancing: 36^6 slots, STEP apart
+const WIDTH = 6;
+const SPACE = BASE ** WIDTH;
+const STEP = BASE ** 2;
+
+// Beyond this length a column should be rebalanced
+export const MAX_RANK_LENGTH = 24;
+
+const toRank = (value: number): string =>
+  value.toString(BASE).padStart(WIDTH, "0").replace(/0+$/, "");
+
+const toNumber = (rank: string): number =>
+  parseInt(rank.slice(0, WIDTH).padEnd(WIDTH, "0"), BASE);
+
+// Midpoint of two ranks, digit by digit
+const midpoint = (prev: string, next: string): string => {
+  let result = "";
+  let upperOpen = false;
+  for (let i = 0; ; i++) {
+    const lo = i < prev.length ? DIGITS.indexOf(prev[i]) : 0;
+    const hi = !upperOpen && i < next.length ? DIGITS.indexOf(next[i]) : BASE;
+    if (hi - lo > 1) return result + DIGITS[Math.floor((lo + hi) / 2)];
+    result += DIGITS[lo];
+    if (lo < hi) upperOpen = true;
+  }
+};
+
+/**
+ * A rank sorting strictly between `prev` and `next`; either side may be omitted
+ * for the start or end of the column
+ */
+export const rankBetween = (prev?: string | null, next?: string | null): string => {
+  if (prev && next) {
+    if (prev >= next) throw new Error(`Rank "${prev}" must sort before "${next}"`);
+    return midpoint(prev, next);
+  }
+  if (prev) {
+    const value = toNumber(prev) + STEP;
+    return value < SPACE ? toRank(value) : midpoint(prev, "");
+  }
+  if (next) {
+    const value = toNumber(next) - STEP;
+    return value > 0 ? toRank(value) : midpoint("", next);
+  }
+  return toRank(SPACE / 2);
+};
+
+/**
+ * `count` evenly spaced ranks, for (re)initialising a column
+ */
+export const spreadRanks = (count: number): string[] => {
+  const step = Math.max(1, Math.min(STEP, Math.floor(SPACE / (count + 1))));
+  return Array.from({ length: count }, (_, i) => toRank(step * (i + 1)));
+};
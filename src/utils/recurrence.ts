@@ -0,0 +1,79 @@
+/**
+ * RRULE-style recurrence rules for tasks: every `interval` days, weeks (optionally on
+ * given weekdays) or months (on a day of the month), ending at `until` or after `count`
+ * occurrences. All date math is done in UTC.
+ */
+export const RECURRENCE_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface IRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // >= 1
+  byWeekday?: number[]; // weekly only, 0 = Sunday
+  byMonthDay?: number; // monthly only, 1-31 (clamped to short months)
+  until?: Date; // no occurrence due after this
+  count?: number; // total occurrences in the series
+  anchor: Date; // due date of the first occurrence; weekly intervals count from its week
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return addDays(start, -start.getUTCDay());
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const nextWeekly = (rule: IRecurrenceRule, after: Date): Date => {
+  const weekdays = rule.byWeekday?.length ? rule.byWeekday : [new Date(rule.anchor).getUTCDay()];
+  const anchorWeek = startOfWeek(new Date(rule.anchor)).getTime();
+  // At most `interval` weeks plus one week ahead holds the next match
+  for (let i = 1; i <= 7 * (rule.interval + 1); i++) {
+    const candidate = addDays(after, i);
+    const weeks = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * DAY_MS));
+    if (weeks % rule.interval === 0 && weekdays.includes(candidate.getUTCDay())) return candidate;
+  }
+  return addDays(after, 7 * rule.interval);
+};
+
+const nextMonthly = (rule: IRecurrenceRule, after: Date): Date => {
+  const day = rule.byMonthDay ?? new Date(rule.anchor).getUTCDate();
+  const month = after.getUTCMonth() + rule.interval;
+  const year = after.getUTCFullYear() + Math.floor(month / 12);
+  const monthIndex = month % 12;
+  return new Date(Date.UTC(
+    year,
+    monthIndex,
+    Math.min(day, daysInMonth(year, monthIndex)),
+    after.getUTCHours(),
+    after.getUTCMinutes(),
+    after.getUTCSeconds()
+  ));
+};
+
+/**
+ * Due date of the occurrence following one due at `after`, or null once the series is over.
+ * `occurrence` is the 1-based number of the occurrence due at `after`.
+ */
+export const nextOccurrence = (rule: IRecurrenceRule, after: Date, occurrence: number): Date | null => {
+  if (rule.count && occurrence >= rule.count) return null;
+
+  let next: Date;
+  switch (rule.frequency) {
+    case "daily":
+      next = addDays(after, rule.interval);
+      break;
+    case "weekly":
+      next = nextWeekly(rule, after);
+      break;
+    case "monthly":
+      next = nextMonthly(rule, after);
+      break;
+  }
+
+  if (rule.until && next.getTime() > new Date(rule.until).getTime()) return null;
+  return next;
+};
@@ -0,0 +1,125 @@
+import Task, { ITask } from "../models/Task";
+import Project from "../models/Project";
+import { nextOccurrence, IRecurrenceRule } from "./recurrence";
+import { getTaskWorkflow, initialStatus } from "./workflow";
+import { appendRank, emitBoardEvent } from "./board";
+import { recordTaskEvent } from "./taskActivity";
+import { emitWebhookEvent, taskEventData } from "./webhooks";
+
+/**
+ * Generation of recurring task occurrences. The latest occurrence of a series carries
+ * the rule; the next one is created when it is completed or, failing that, once its
+ * due date has passed (scheduler below).
+ */
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.RECURRENCE_SCHEDULER_INTERVAL_MS) || 5 * 60 * 1000;
+const SCHEDULER_BATCH = 100;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Turn a validated request body into a stored rule anchored at the series' due date
+ */
+export const buildRecurrenceRule = (input: any, anchor: Date): IRecurrenceRule => ({
+  frequency: input.frequency,
+  interval: input.interval ?? 1,
+  ...(input.frequency === "weekly" && input.byWeekday?.length ? { byWeekday: [...new Set<number>(input.byWeekday)].sort() } : {}),
+  ...(input.frequency === "monthly" && input.byMonthDay ? { byMonthDay: input.byMonthDay } : {}),
+  ...(input.until ? { until: new Date(input.until) } : {}),
+  ...(input.count ? { count: input.count } : {}),
+  anchor
+});
+
+/**
+ * Create the occurrence following `task` and hand the rule over to it.
+ * Returns null when the task is not the head of a live series, the series has ended,
+ * or generation failed (logged; the rule stays on `task` so it can be retried).
+ */
+export const generateNextOccurrence = async (task: ITask, actorId?: any): Promise<ITask | null> => {
+  if (!task.recurrence) return null;
+
+  // Claim the rule so completion and the scheduler never both generate
+  const head = await Task.findOneAndUpdate(
+    { _id: task._id, "recurrence.frequency": { $exists: true } },
+    { $unset: { recurrence: 1 } }
+  );
+  if (!head?.recurrence) return null;
+  const rule = head.recurrence;
+
+  try {
+    const occurrence = head.occurrence ?? 1;
+    const dueDate = nextOccurrence(rule, head.dueDate, occurrence);
+    if (!dueDate) return null; // series finished
+
+    const workflow = await getTaskWorkflow(head);
+    const status = initialStatus(workflow);
+    const projectId = head.project?.id;
+
+    const next = new Task({
+      title: head.title,
+      description: head.description,
+      assignees: head.assignees,
+      watchers: head.watchers,
+      dueDate,
+      priority: head.priority,
+      estimateMinutes: head.estimateMinutes,
+      status: status.key,
+      statusCategory: status.category,
+      project: head.project?.id ? head.project : undefined,
+      tags: head.tags,
+      checklist: head.checklist.map((item) => ({ text: item.text, done: false })),
+      rank: await appendRank(head.company, projectId, status.key),
+      seriesId: head.seriesId ?? head._id,
+      occurrence: occurrence + 1,
+      recurrence: rule,
+      createdBy: head.createdBy,
+      company: head.company
+    });
+    await next.save();
+
+    if (projectId) {
+      await Project.findByIdAndUpdate(projectId, { $addToSet: { tasks: next._id } });
+    }
+    if (!head.seriesId) {
+      await Task.updateOne({ _id: head._id }, { $set: { seriesId: head._id, occurrence } });
+    }
+
+    await recordTaskEvent(next, "created", actorId);
+    await emitWebhookEvent(next.company, "task.created", { task: taskEventData(next) });
+    emitBoardEvent(projectId, "board_task_created", next);
+
+    return next;
+  } catch (error) {
+    // Give the rule back so the series is not silently lost
+    console.error(`Error generating next occurrence of task ${head._id}:`, error);
+    await Task.updateOne({ _id: head._id }, { $set: { recurrence: rule } }).catch(() => undefined);
+    return null;
+  }
+};
+
+/**
+ * Generate the next occurrence of every recurring task whose due date has passed
+ */
+export const processDueRecurrences = async (): Promise<void> => {
+  const due = await Task.find({
+    "recurrence.frequency": { $exists: true },
+    dueDate: { $lte: new Date() }
+  }).limit(SCHEDULER_BATCH);
+
+  for (const task of due) {
+    await generateNextOccurrence(task);
+  }
+};
+
+export const startRecurrenceScheduler = (): void => {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => {
+    processDueRecurrences().catch((error) => console.error("Recurrence scheduler error:", error));
+  }, SCHEDULER_INTERVAL_MS);
+  schedulerTimer.unref();
+};
+
+export const stopRecurrenceScheduler = (): void => {
+  if (schedulerTimer) clearInterval(schedulerTimer);
+  schedulerTimer = null;
+};
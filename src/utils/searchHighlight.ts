@@ -0,0 +1,44 @@
+import { escapeHtml } from "./mailer";
+
+/**
+ * Snippets for search results: a window of the text around the first hit, HTML-escaped,
+ * with matching words wrapped in <mark>. Words starting with a query term count as hits
+ * so stemmed matches ("deploy" -> "deployment") are highlighted too.
+ */
+
+const SNIPPET_RADIUS = 60;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Words of a search query, ignoring negated terms ("-draft") and quotes
+export const searchTerms = (query: string): string[] =>
+  [...new Set(
+    query
+      .split(/\s+/)
+      .filter((word) => word && !word.startsWith("-"))
+      .map((word) => word.replace(/["']/g, "").toLowerCase())
+      .filter((word) => word.length > 1)
+  )];
+
+export const highlightSnippet = (text: string, terms: string[], radius = SNIPPET_RADIUS): string => {
+  if (!text) return "";
+  if (terms.length === 0) return escapeHtml(text.slice(0, radius * 2));
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "giu");
+  const first = pattern.exec(text);
+  pattern.lastIndex = 0;
+
+  const start = first ? Math.max(0, first.index - radius) : 0;
+  const end = first ? Math.min(text.length, first.index + first[0].length + radius) : Math.min(text.length, radius * 2);
+  const window = text.slice(start, end);
+
+  let snippet = "";
+  let last = 0;
+  for (const match of window.matchAll(pattern)) {
+    snippet += escapeHtml(window.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+  snippet += escapeHtml(window.slice(last));
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+};
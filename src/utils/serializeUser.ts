@@ -16,6 +16,7 @@ export function serializeUser(u: any) {
     lastName,
     email: u.email,
     role: u.role,
+    accountType: u.accountType ?? "user",
     phone: u.phone ?? null,
     avatarUrl: u.avatarUrl ?? u.avatar ?? null,
     jobTitle: u.jobTitle ?? null,
@@ -25,6 +26,8 @@ export function serializeUser(u: any) {
     country: u.country ?? null,
     address: u.address ?? null,
     company: u.company ?? null,
+    twoFactorEnabled: u.twoFactorEnabled ?? false,
+    googleLinked: !!u.googleId,
     createdAt: u.createdAt ?? null,
     updatedAt: u.updatedAt ?? null,
   };
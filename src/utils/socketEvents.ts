@@ -8,13 +8,22 @@ import {
 import Channel from "../models/Channel";
 import Message from "../models/Message";
 import User from "../models/User";
+import Session from "../models/Session";
+import Task from "../models/Task";
+import Project from "../models/Project";
+import { sessionRoom, taskRoom, projectRoom } from "./socketServer";
+import { emitMessageCreated } from "./webhooks";
 import {
   socketJoinChannelSchema,
   socketSendMessageSchema,
   socketTypingSchema,
+  socketViewTaskSchema,
+  socketViewProjectSchema,
   SocketJoinChannelInput,
   SocketSendMessageInput,
-  SocketTypingInput
+  SocketTypingInput,
+  SocketViewTaskInput,
+  SocketViewProjectInput
 } from "./chatValidation";
 
 /**
@@ -34,6 +43,13 @@ export const initializeSocketEvents = (io: Server) => {
         $addToSet: { socketIds: authSocket.id }
       });
 
+      // Track the socket on its session so revoking the session can disconnect it
+      await Session.findByIdAndUpdate(authSocket.sessionId, {
+        lastUsedAt: new Date(),
+        $addToSet: { socketIds: authSocket.id }
+      });
+      authSocket.join(sessionRoom(authSocket.sessionId));
+
       // Join user to their company room for company-wide broadcasts
       authSocket.join(`company:${authSocket.companyId}`);
 
@@ -204,10 +220,10 @@ export const initializeSocketEvents = (io: Server) => {
         await message.save();
 
         // Update channel's last message and activity
-        await Channel.findByIdAndUpdate(channelId, {
+        const channel = await Channel.findByIdAndUpdate(channelId, {
           lastMessage: message._id,
           lastActivity: new Date()
-        });
+        }).lean();
 
         // Populate sender information
         await message.populate('senderId', 'firstName lastName email avatarUrl');
@@ -233,6 +249,8 @@ export const initializeSocketEvents = (io: Server) => {
         // Broadcast to all channel members
         io.to(channelId).emit('new_message', messageData);
 
+        await emitMessageCreated(channel, message, messageData.sender);
+
         // Send confirmation to sender
         authSocket.emit('message_sent', { 
           tempId: (data as any)?.tempId, // For frontend optimistic updates
@@ -245,6 +263,98 @@ export const initializeSocketEvents = (io: Server) => {
       }
     });
 
+    /**
+     * Follow a task's comment thread while it is open
+     */
+    authSocket.on('view_task', async (data: unknown) => {
+      try {
+        if (!SocketRateLimiter.checkLimit(authSocket.userId, 'join')) {
+          authSocket.emit('error', { message: 'Too many join requests. Please slow down.' });
+          return;
+        }
+
+        const validData = validateSocketData<SocketViewTaskInput>(
+          data,
+          (d): d is SocketViewTaskInput => socketViewTaskSchema.safeParse(d).success
+        );
+
+        if (!validData) {
+          authSocket.emit('error', { message: 'Invalid task data' });
+          return;
+        }
+
+        // Security: Only tasks of the user's company
+        const task = await Task.exists({ _id: validData.taskId, company: authSocket.companyId });
+        if (!task) {
+          authSocket.emit('error', { message: 'Access denied to task' });
+          return;
+        }
+
+        authSocket.join(taskRoom(validData.taskId));
+        authSocket.emit('viewing_task', { taskId: validData.taskId });
+
+      } catch (error) {
+        console.error("View task error:", error);
+        authSocket.emit('error', { message: 'Failed to view task' });
+      }
+    });
+
+    authSocket.on('leave_task', (data: unknown) => {
+      const validData = validateSocketData<SocketViewTaskInput>(
+        data,
+        (d): d is SocketViewTaskInput => socketViewTaskSchema.safeParse(d).success
+      );
+      if (validData) {
+        authSocket.leave(taskRoom(validData.taskId));
+      }
+    });
+
+    /**
+     * Follow a project's board while it is open
+     */
+    authSocket.on('view_project', async (data: unknown) => {
+      try {
+        if (!SocketRateLimiter.checkLimit(authSocket.userId, 'join')) {
+          authSocket.emit('error', { message: 'Too many join requests. Please slow down.' });
+          return;
+        }
+
+        const validData = validateSocketData<SocketViewProjectInput>(
+          data,
+          (d): d is SocketViewProjectInput => socketViewProjectSchema.safeParse(d).success
+        );
+
+        if (!validData) {
+          authSocket.emit('error', { message: 'Invalid project data' });
+          return;
+        }
+
+        // Security: Only projects of the user's company
+        const project = await Project.exists({ _id: validData.projectId, company: authSocket.companyId });
+        if (!project) {
+          authSocket.emit('error', { message: 'Access denied to project' });
+          return;
+        }
+
+        authSocket.join(projectRoom(validData.projectId));
+        authSocket.emit('viewing_project', { projectId: validData.projectId });
+
+      } catch (error) {
+        console.error("View project error:", error);
+        authSocket.emit('error', { message: 'Failed to view project' });
+      }
+    });
+
+    authSocket.on('leave_project', (data: unknown) => {
+      const validData = validateSocketData<SocketViewProjectInput>(
+        data,
+        (d): d is SocketViewProjectInput => socketViewProjectSchema.safeParse(d).success
+      );
+      if (validData) {
+        authSocket.leave(projectRoom(validData.projectId));
+      }
+    });
+
     /**
      * Handle typing indicators
      */
@@ -393,6 +503,9 @@ export const initializeSocketEvents = (io: Server) => {
           $pull: { socketIds: authSocket.id },
           lastSeen: new Date()
         });
+        await Session.findByIdAndUpdate(authSocket.sessionId, {
+          $pull: { socketIds: authSocket.id }
+        });
 
         // Check if user has other active connections
         const user = await User.findById(authSocket.userId).select('socketIds').lean();
@@ -0,0 +1,29 @@
+import { Server } from "socket.io";
+
+/**
+ * Holds the Socket.IO server so HTTP handlers can push realtime events
+ * without importing server.ts
+ */
+let io: Server | null = null;
+
+export const setIO = (server: Server) => {
+  io = server;
+};
+
+export const getIO = (): Server | null => io;
+
+export const sessionRoom = (sessionId: string) => `session:${sessionId}`;
+
+// Sockets of users currently viewing a task (joined via view_task)
+export const taskRoom = (taskId: string) => `task:${taskId}`;
+
+// Sockets of users looking at a project's board (joined via view_project)
+export const projectRoom = (projectId: string) => `project:${projectId}`;
+
+/**
+ * Forcibly disconnect every socket authenticated with the given session
+ */
+export const disconnectSessionSockets = (sessionId: string) => {
+  if (!io) return;
+  io.in(sessionRoom(sessionId)).disconnectSockets(true);
+};
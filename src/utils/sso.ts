@@ -0,0 +1,144 @@
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import User from "../models/User";
+import Company from "../models/Company";
+import SsoConnection, { ISsoConnection } from "../models/SsoConnection";
+import CompanyDomain from "../models/CompanyDomain";
+import { IdTokenClaims, OidcError, emailDomain } from "./oidc";
+import { recordAudit } from "./auditLog";
+import { emitCompanyMemberAdded } from "./webhooks";
+
+/**
+ * Company single sign-on (OIDC) helpers: connection lookup, password login policy
+ * and just-in-time provisioning of IdP users into the connection's company.
+ */
+
+export const SSO_REQUIRED_PLAN = "enterprise";
+
+export const isSsoPlan = (company?: { subscriptionPlan?: string } | null): boolean =>
+  company?.subscriptionPlan === SSO_REQUIRED_PLAN;
+
+/**
+ * Enabled connection bound to the email's domain, if its company is still on the enterprise plan
+ */
+export const findConnectionForEmail = async (email: string) => {
+  const connection = await SsoConnection.findOne({ domains: emailDomain(email), enabled: true }).select("+clientSecret");
+  if (!connection) return null;
+  const company = await Company.findById(connection.company).select("subscriptionPlan name");
+  return isSsoPlan(company) ? connection : null;
+};
+
+/**
+ * Whether a company only allows sign-in through its IdP
+ */
+export const isPasswordLoginDisabled = async (companyId?: any): Promise<boolean> => {
+  if (!companyId) return false;
+  const connection = await SsoConnection.findOne({ company: companyId, enabled: true }).select("disablePasswordLogin").lean();
+  if (!connection?.disablePasswordLogin) return false;
+  const company = await Company.findById(companyId).select("subscriptionPlan").lean();
+  return isSsoPlan(company);
+};
+
+/**
+ * Domains from the list that the company has not proven it owns (DNS-verified CompanyDomain)
+ */
+export const unverifiedDomains = async (companyId: any, domains: string[]): Promise<string[]> => {
+  const verified = await CompanyDomain.find({ company: companyId, domain: { $in: domains }, verifiedAt: { $exists: true } }).distinct("domain");
+  return domains.filter((domain) => !verified.includes(domain));
+};
+
+export const getSsoCallbackUrl = (req: { protocol: string; get(name: string): string | undefined }): string =>
+  process.env.SSO_CALLBACK_URL || `${req.protocol}://${req.get("host")}/api/auth/sso/callback`;
+
+/**
+ * Find or create the local account for an IdP identity.
+ * Accounts are matched by (connection, subject) first, then linked by email within the bound, verified domains.
+ */
+export const provisionSsoUser = async (connection: ISsoConnection, claims: IdTokenClaims, req?: any) => {
+  const linked = await User.findOne({ ssoConnection: connection._id, ssoSubject: claims.sub });
+  if (linked) {
+    if (String(linked.company) !== String(connection.company)) {
+      throw new OidcError("This account no longer belongs to the connection's company");
+    }
+    return linked;
+  }
+
+  const email = claims.email?.trim().toLowerCase();
+  if (!email || claims.email_verified === false) {
+    throw new OidcError("The identity provider did not return a verified email address");
+  }
+  if (!connection.domains.includes(emailDomain(email))) {
+    throw new OidcError("Email domain is not bound to this connection");
+  }
+  // Provisioning and linking by email are only trusted for domains the company has verified
+  if ((await unverifiedDomains(connection.company, [emailDomain(email)])).length > 0) {
+    throw new OidcError("Email domain is not verified for this company");
+  }
+
+  const existing = await User.findOne({ email });
+  if (existing) {
+    if (existing.role === "superadmin") {
+      throw new OidcError("Superadmin accounts cannot sign in with company SSO");
+    }
+    if (existing.company && String(existing.company) !== String(connection.company)) {
+      throw new OidcError("This account belongs to another company");
+    }
+    if (existing.ssoConnection && String(existing.ssoConnection) === String(connection._id) && existing.ssoSubject !== claims.sub) {
+      throw new OidcError("This account is linked to a different identity");
+    }
+
+    const joining = !existing.company;
+    if (joining) {
+      existing.company = String(connection.company);
+      existing.role = connection.defaultRole;
+    }
+    existing.ssoConnection = connection._id as any;
+    existing.ssoSubject = claims.sub;
+    await existing.save();
+    if (joining) {
+      await emitCompanyMemberAdded(connection.company, existing, "sso");
+    }
+    return existing;
+  }
+
+  const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(" ") || email.split("@")[0];
+  const user = await User.create({
+    name,
+    firstName: claims.given_name,
+    lastName: claims.family_name,
+    email,
+    password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10), // never used, sign-in goes through the IdP
+    role: connection.defaultRole,
+    company: connection.company,
+    avatar: claims.picture,
+    ssoConnection: connection._id,
+    ssoSubject: claims.sub,
+  });
+
+  await recordAudit({
+    actorId: user._id,
+    entityType: "user",
+    entityId: user._id,
+    action: "sso_provision",
+    changes: { email, company: String(connection.company), connection: String(connection._id) },
+    req,
+  });
+  await emitCompanyMemberAdded(connection.company, user, "sso");
+
+  return user;
+};
+
+export const serializeSsoConnection = (connection: any) => ({
+  id: String(connection._id),
+  company: String(connection.company),
+  protocol: connection.protocol,
+  issuer: connection.issuer,
+  clientId: connection.clientId,
+  domains: connection.domains,
+  scopes: connection.scopes,
+  defaultRole: connection.defaultRole,
+  enabled: connection.enabled,
+  disablePasswordLogin: connection.disablePasswordLogin,
+  createdAt: connection.createdAt,
+  updatedAt: connection.updatedAt,
+});
@@ -0,0 +1,113 @@
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import { snapshotTask, recordTaskChanges } from "./taskActivity";
+import { emitWebhookEvent, taskEventData } from "./webhooks";
+import { getTaskWorkflow, firstStatusIn } from "./workflow";
+import { StatusCategory } from "../models/Project";
+
+// Deeper trees are almost certainly a mistake and would make roll-ups expensive
+export const MAX_SUBTASK_DEPTH = 5;
+
+/**
+ * Check that `parentId` can become the parent of `taskId` (omit taskId for a new task).
+ * Returns the parent or an error message: parents must belong to the same company and
+ * must not be the task itself or one of its descendants.
+ */
+export const resolveParentTask = async (
+  parentId: string,
+  companyId: any,
+  taskId?: any
+): Promise<{ parent?: any; error?: string }> => {
+  if (!mongoose.Types.ObjectId.isValid(parentId)) {
+    return { error: "Parent task not found or not in the same company" };
+  }
+  const parent = await Task.findOne({ _id: parentId, company: companyId }).select("_id title parentTask company");
+  if (!parent) {
+    return { error: "Parent task not found or not in the same company" };
+  }
+
+  if (taskId && String(parent._id) === String(taskId)) {
+    return { error: "A task cannot be its own parent" };
+  }
+
+  // Levels of the resulting chain: the parent, the task, then ancestors and descendants
+  const tooDeep = { error: `Subtasks cannot be nested more than ${MAX_SUBTASK_DEPTH} levels deep` };
+  let levels = 2;
+
+  // Walk up from the new parent; meeting the task again would close a cycle
+  let ancestorId: any = parent.parentTask;
+  while (ancestorId) {
+    if (taskId && String(ancestorId) === String(taskId)) {
+      return { error: "A task cannot be moved under one of its own subtasks" };
+    }
+    if (++levels > MAX_SUBTASK_DEPTH) return tooDeep;
+    const ancestor = await Task.findOne({ _id: ancestorId, company: companyId }).select("parentTask").lean();
+    ancestorId = ancestor?.parentTask;
+  }
+
+  // A moved task brings its own subtree along
+  if (taskId) {
+    let level: any[] = [taskId];
+    while (level.length > 0) {
+      level = (await Task.find({ parentTask: { $in: level } }).select("_id").lean()).map((t) => t._id);
+      if (level.length > 0 && ++levels > MAX_SUBTASK_DEPTH) return tooDeep;
+    }
+  }
+
+  return { parent };
+};
+
+/**
+ * Position after the parent's last subtask
+ */
+export const nextSubtaskPosition = async (parentId: any): Promise<number> => {
+  const last = await Task.findOne({ parentTask: parentId }).sort({ position: -1 }).select("position").lean();
+  return last ? last.position + 1 : 0;
+};
+
+/**
+ * Recount a parent's subtasks and roll their completion up into its status category:
+ * all subtasks done completes the parent, reopening one reopens it, and starting
+ * one moves a parent still in "todo" to "in_progress". The parent takes the first
+ * status of that category in its own workflow. Continues up the tree.
+ */
+export const rollUpParent = async (parentId: any, actorId?: any): Promise<void> => {
+  if (!parentId) return;
+  const parent = await Task.findById(parentId);
+  if (!parent) return;
+
+  const children = await Task.find({ parentTask: parent._id }).select("statusCategory").lean();
+  const total = children.length;
+  const done = children.filter((child) => child.statusCategory === "done").length;
+
+  let category: StatusCategory = parent.statusCategory;
+  if (total > 0 && done === total) {
+    category = "done";
+  } else if (total > 0 && parent.statusCategory === "done") {
+    category = "in_progress";
+  } else if (parent.statusCategory === "todo" && children.some((child) => child.statusCategory !== "todo")) {
+    category = "in_progress";
+  }
+
+  const before = snapshotTask(parent);
+  const previousStatus = parent.status;
+  parent.subtaskStats = { total, done };
+  if (category !== parent.statusCategory) {
+    // Workflows without such a status keep the parent where it is
+    const target = firstStatusIn(await getTaskWorkflow(parent), category);
+    if (target) {
+      parent.status = target.key;
+      parent.statusCategory = category;
+    }
+  }
+  await parent.save();
+
+  if (parent.status !== previousStatus) {
+    await recordTaskChanges(before, parent, actorId);
+    await emitWebhookEvent(parent.company, "task.status_changed", {
+      task: taskEventData(parent),
+      previousStatus
+    });
+    await rollUpParent(parent.parentTask, actorId);
+  }
+};
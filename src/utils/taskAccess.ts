@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+import Task, { ITask } from "../models/Task";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { hasPermission } from "../middleware/permissionMiddleware";
+import { isAssignee } from "./taskAssignees";
+import { getIO, taskRoom } from "./socketServer";
+
+/**
+ * Access rules shared by task status updates and the task sub-resources
+ * (comments, subtasks, dependencies, recurrence, time entries, attachments)
+ */
+
+/**
+ * Whether the user may work on a task (change its status, checklist, files or logged time):
+ * task:update, the creator or an assignee
+ */
+export const canWorkOnTask = async (req: AuthRequest, task: Pick<ITask, "createdBy" | "assignees">): Promise<boolean> =>
+  (await hasPermission(req, "task:update")) ||
+  task.createdBy.toString() === req.user!._id.toString() ||
+  isAssignee(task, req.user!._id);
+
+/**
+ * The task in req.params.id, if it belongs to the user's company
+ */
+export const findCompanyTask = (req: AuthRequest) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  return Task.findOne({ _id: id, company: req.user!.company });
+};
+
+// Push an event to the clients viewing a task
+export const broadcastToTask = (taskId: any, event: string, payload: any) => {
+  getIO()?.to(taskRoom(String(taskId))).emit(event, payload);
+};
@@ -0,0 +1,110 @@
+import TaskActivity, { ITaskFieldChange, TRACKED_TASK_FIELDS, TrackedTaskField } from "../models/TaskActivity";
+
+/**
+ * Structured change log of tasks (GET /api/tasks/:id/activity and the project feed).
+ * Recording is best-effort: a failed write is logged and never fails the request.
+ */
+
+const refId = (value: any): string | null => (value ? String(value._id ?? value) : null);
+
+// Comparable, JSON-friendly value of a tracked field (works on populated documents too)
+const snapshotField = (task: any, field: TrackedTaskField): any => {
+  switch (field) {
+    case "assignee": {
+      const [first] = task.assignees ?? [];
+      return first ? { id: refId(first.id), name: first.name ?? null } : null;
+    }
+    case "assignees":
+      return (task.assignees ?? []).map((assignee: any) => ({ id: refId(assignee.id), name: assignee.name ?? null }));
+    case "project":
+      return task.project?.id ? { id: refId(task.project.id), name: task.project.name ?? null } : null;
+    case "parentTask":
+      return refId(task.parentTask);
+    case "blockedBy":
+      return (task.blockedBy ?? []).map(refId);
+    case "dueDate":
+      return task.dueDate ? new Date(task.dueDate).toISOString() : null;
+    case "tags":
+      return [...(task.tags ?? [])];
+    default:
+      return task[field] ?? null;
+  }
+};
+
+const sameValue = (field: TrackedTaskField, a: any, b: any): boolean => {
+  if (field === "project" || field === "assignee") return (a?.id ?? null) === (b?.id ?? null);
+  if (field === "assignees") return JSON.stringify(a.map((x: any) => x.id)) === JSON.stringify(b.map((x: any) => x.id));
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const uniqueIds = (...ids: (string | null | undefined)[]) => [...new Set(ids.filter((id): id is string => !!id))];
+
+/**
+ * Snapshot a task before it is modified, to diff against afterwards
+ */
+export const snapshotTask = (task: any) => {
+  const snapshot: Record<string, any> = {};
+  for (const field of TRACKED_TASK_FIELDS) snapshot[field] = snapshotField(task, field);
+  return snapshot;
+};
+
+/**
+ * Record one activity entry holding every tracked field that differs between the two versions
+ */
+export const recordTaskChanges = async (before: Record<string, any>, after: any, actorId?: any): Promise<void> => {
+  try {
+    const changes: ITaskFieldChange[] = [];
+    for (const field of TRACKED_TASK_FIELDS) {
+      const to = snapshotField(after, field);
+      if (!sameValue(field, before[field], to)) {
+        changes.push({ field, from: before[field], to });
+      }
+    }
+    if (changes.length === 0) return;
+
+    await TaskActivity.create({
+      task: after._id,
+      taskTitle: after.title,
+      projects: uniqueIds(refId(after.project?.id), before.project?.id),
+      company: after.company,
+      actor: actorId,
+      action: "updated",
+      changes
+    });
+  } catch (error) {
+    console.error("Error recording task activity:", error);
+  }
+};
+
+/**
+ * Record the creation or deletion of a task
+ */
+export const recordTaskEvent = async (task: any, action: "created" | "deleted", actorId?: any): Promise<void> => {
+  try {
+    await TaskActivity.create({
+      task: task._id,
+      taskTitle: task.title,
+      projects: uniqueIds(refId(task.project?.id)),
+      company: task.company,
+      actor: actorId,
+      action,
+      changes: []
+    });
+  } catch (error) {
+    console.error("Error recording task activity:", error);
+  }
+};
+
+export const serializeTaskActivity = (entry: any) => {
+  const actor = entry.actor;
+  return {
+    id: String(entry._id),
+    task: { id: String(entry.task), title: entry.taskTitle },
+    action: entry.action,
+    actor: actor?._id
+      ? { id: String(actor._id), name: actor.name ?? null, email: actor.email, avatarUrl: actor.avatarUrl ?? null }
+      : actor ? { id: String(actor) } : null,
+    changes: entry.changes,
+    createdAt: entry.createdAt
+  };
+};
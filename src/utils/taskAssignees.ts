@@ -0,0 +1,69 @@
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import User from "../models/User";
+import { serializeUser } from "./serializeUser";
+
+/**
+ * Assignees are stored on tasks as { id, name, avatarUrl } snapshots so lists render
+ * without a lookup; syncUserTaskSnapshots() refreshes them when a user edits their profile.
+ */
+
+export const assigneeSnapshot = (user: any) => {
+  const { name, avatarUrl } = serializeUser(user);
+  return { id: user._id, name: name || user.email, avatarUrl: avatarUrl ?? undefined };
+};
+
+const refId = (value: any): string => String(value?._id ?? value);
+
+export const isAssignee = (task: any, userId: any): boolean =>
+  (task.assignees ?? []).some((assignee: any) => refId(assignee.id) === String(userId));
+
+export const isWatcher = (task: any, userId: any): boolean =>
+  (task.watchers ?? []).some((watcher: any) => refId(watcher) === String(userId));
+
+/**
+ * Load the given users of the company, in request order and without duplicates.
+ * `error` is set when an ID is malformed or not a member of the company.
+ */
+export const resolveCompanyUsers = async (ids: string[], companyId: any) => {
+  const unique = [...new Set(ids.map(String))];
+  if (!unique.every((id) => mongoose.Types.ObjectId.isValid(id))) {
+    return { users: [], error: "Invalid user ID" };
+  }
+  const found = await User.find({ _id: { $in: unique }, company: companyId });
+  if (found.length !== unique.length) {
+    return { users: [], error: "Some users were not found or are not in the same company" };
+  }
+  const byId = new Map(found.map((user) => [String(user._id), user]));
+  return { users: unique.map((id) => byId.get(id)!), error: null };
+};
+
+/**
+ * Refresh the name/avatar snapshot of a user on every task they are assigned to (best-effort)
+ */
+export const syncUserTaskSnapshots = async (user: any): Promise<void> => {
+  try {
+    const { name, avatarUrl } = assigneeSnapshot(user);
+    await Task.updateMany(
+      { "assignees.id": user._id },
+      { $set: { "assignees.$[match].name": name, "assignees.$[match].avatarUrl": avatarUrl ?? null } },
+      { arrayFilters: [{ "match.id": user._id }] }
+    );
+  } catch (error) {
+    console.error("Error syncing task assignee snapshots:", error);
+  }
+};
+
+/**
+ * Move tasks written before multiple assignees from `assignee` to `assignees`
+ */
+export const backfillTaskAssignees = async (): Promise<void> => {
+  try {
+    await Task.collection.updateMany(
+      { assignee: { $exists: true }, assignees: { $exists: false } },
+      [{ $set: { assignees: ["$assignee"], watchers: [] } }, { $unset: "assignee" }]
+    );
+  } catch (error) {
+    console.error("Error backfilling task assignees:", error);
+  }
+};
@@ -0,0 +1,106 @@
+import mongoose from "mongoose";
+import Task from "../models/Task";
+import TimeEntry from "../models/TimeEntry";
+
+/**
+ * Time tracking helpers. Entries count towards totals once they have ended;
+ * Task.timeSpentMinutes is a cached sum refreshed after every change.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const minutesBetween = (start: Date, end: Date): number =>
+  Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+
+// A manual entry covers at most one day
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+/**
+ * Why a manually entered range cannot be logged, or null when it can
+ */
+export const invalidEntryRange = (start: Date, end: Date): string | null => {
+  if (end.getTime() <= start.getTime()) return "The entry must end after it starts";
+  if (end.getTime() > Date.now()) return "Time cannot be logged in the future";
+  if (end.getTime() - start.getTime() > MAX_ENTRY_MINUTES * 60000) return "An entry cannot be longer than 24 hours";
+  return null;
+};
+
+/**
+ * Recompute the cached time spent on a task from its finished entries
+ */
+export const refreshTaskTimeSpent = async (taskId: any): Promise<void> => {
+  const [total] = await TimeEntry.aggregate([
+    { $match: { task: new mongoose.Types.ObjectId(String(taskId)), isRunning: false } },
+    { $group: { _id: null, minutes: { $sum: "$minutes" } } }
+  ]);
+  await Task.updateOne({ _id: taskId }, { $set: { timeSpentMinutes: total?.minutes ?? 0 } });
+};
+
+/**
+ * Stop the running timers matching the filter (e.g. of a task being deleted) as of now
+ */
+export const stopRunningTimers = async (filter: Record<string, any>): Promise<void> => {
+  const now = new Date();
+  const running = await TimeEntry.find({ ...filter, isRunning: true });
+  for (const entry of running) {
+    entry.isRunning = false;
+    entry.endedAt = now;
+    entry.minutes = minutesBetween(entry.startedAt, now);
+    await entry.save();
+  }
+  const taskIds = new Set(running.map((entry) => String(entry.task)));
+  for (const taskId of taskIds) await refreshTaskTimeSpent(taskId);
+};
+
+/**
+ * Monday 00:00 UTC to the next Monday for `week`, given as an ISO week ("2026-W07")
+ * or any date inside the week; defaults to the current week. Null when unparseable.
+ */
+export const resolveWeek = (week?: string): { start: Date; end: Date; label: string } | null => {
+  let day: Date;
+  const isoWeek = week?.match(/^(\d{4})-W(\d{2})$/);
+  if (isoWeek) {
+    const year = Number(isoWeek[1]);
+    const number = Number(isoWeek[2]);
+    if (number < 1 || number > 53) return null;
+    // Week 1 is the week holding January 4th
+    const jan4 = new Date(Date.UTC(year, 0, 4));
+    const week1 = new Date(jan4.getTime() - ((jan4.getUTCDay() + 6) % 7) * DAY_MS);
+    day = new Date(week1.getTime() + (number - 1) * 7 * DAY_MS);
+  } else if (week) {
+    day = new Date(week);
+    if (isNaN(day.getTime())) return null;
+  } else {
+    day = new Date();
+  }
+
+  const midnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  const start = new Date(midnight - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  const end = new Date(start.getTime() + 7 * DAY_MS);
+
+  // ISO week label: the week belongs to the year of its Thursday
+  const thursday = new Date(start.getTime() + 3 * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const weekNumber = Math.floor((thursday.getTime() - yearStart) / (7 * DAY_MS)) + 1;
+  const label = `${thursday.getUTCFullYear()}-W${String(weekNumber).padStart(2, "0")}`;
+
+  return { start, end, label };
+};
+
+export const serializeTimeEntry = (entry: any) => ({
+  id: String(entry._id),
+  task: entry.task?.title
+    ? { id: String(entry.task._id), title: entry.task.title }
+    : { id: String(entry.task), title: entry.taskTitle },
+  project: entry.project ? String(entry.project._id ?? entry.project) : null,
+  user: entry.user?.email
+    ? { id: String(entry.user._id), name: entry.user.name, email: entry.user.email }
+    : { id: String(entry.user) },
+  source: entry.source,
+  startedAt: entry.startedAt,
+  endedAt: entry.endedAt ?? null,
+  minutes: entry.isRunning ? minutesBetween(entry.startedAt, new Date()) : entry.minutes,
+  isRunning: entry.isRunning,
+  note: entry.note ?? null,
+  createdAt: entry.createdAt
+});
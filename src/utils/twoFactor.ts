@@ -0,0 +1,18 @@
+import Company from "../models/Company";
+
+/**
+ * Whether the user's company requires 2FA for all members
+ */
+export const isTwoFactorEnforced = async (companyId?: any): Promise<boolean> => {
+  if (!companyId) return false;
+  const company = await Company.findById(companyId).select("enforceTwoFactor").lean();
+  return !!company?.enforceTwoFactor;
+};
+
+/**
+ * A user must enroll before using the API when their company enforces 2FA and they have not set it up
+ */
+export const isTwoFactorSetupRequired = async (user: { twoFactorEnabled?: boolean; company?: any }): Promise<boolean> => {
+  if (user.twoFactorEnabled) return false;
+  return isTwoFactorEnforced(user.company);
+};
@@ -1,38 +1,294 @@
 import { z } from "zod";
+import { PERMISSIONS } from "./permissions";
+import { API_SCOPES } from "./apiScopes";
+import { WEBHOOK_EVENTS } from "../models/Webhook";
+import { PROJECT_ROLES, STATUS_CATEGORIES } from "../models/Project";
+import { STATUS_KEY_PATTERN } from "./workflow";
+import { RECURRENCE_FREQUENCIES } from "./recurrence";
+
+// Auth validation schemas
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required")
+});
+
+export const loginCodeSchema = z.object({
+  code: z.string().min(1, "Login code is required").max(200)
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address")
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(8, "New password must be at least 8 characters long").max(128)
+});
+
+// Two-factor authentication validation schemas
+const totpCode = z.string().regex(/^\d{6}$/, "Code must be 6 digits");
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCode
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: totpCode.optional(),
+  recoveryCode: z.string().min(1).max(20).optional()
+}).refine((data) => data.code || data.recoveryCode, {
+  message: "A verification code or recovery code is required",
+  path: ["code"]
+});
+
+// Password logins send the challenge token, Google and SSO redirects a one-time challenge code
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+  challengeCode: z.string().min(1).max(200).optional(),
+  code: totpCode.optional(),
+  recoveryCode: z.string().min(1).max(20).optional()
+}).refine((data) => data.challengeToken || data.challengeCode, {
+  message: "Challenge token is required",
+  path: ["challengeToken"]
+}).refine((data) => data.code || data.recoveryCode, {
+  message: "A verification code or recovery code is required",
+  path: ["code"]
+});
+
+// Invitation validation schemas
+export const createInvitationSchema = z.object({
+  email: z.string().email("Invalid email address").max(200),
+  role: z.enum(["employee", "member"]).default("employee")
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+  name: z.string().min(1).max(200).optional(),
+  firstName: z.string().min(1).max(100).optional(),
+  lastName: z.string().min(1).max(100).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters long").max(128)
+}).refine((data) => data.name || data.firstName, {
+  message: "Name or first name is required",
+  path: ["name"]
+});
+
+// Single sign-on validation schemas
+const domainName = z.string().trim().toLowerCase().regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid domain");
+
+export const ssoDiscoverSchema = z.object({
+  email: z.string().email("Invalid email address")
+});
+
+export const ssoConnectionSchema = z.object({
+  issuer: z.string().url("Issuer must be a URL").max(2048),
+  clientId: z.string().min(1, "Client ID is required").max(500),
+  clientSecret: z.string().min(1).max(2000).optional(),
+  domains: z.array(domainName).min(1, "At least one email domain is required").max(20),
+  scopes: z.array(z.string().min(1).max(100)).max(20).optional(),
+  defaultRole: z.enum(["employee", "member"]).optional(),
+  enabled: z.boolean().optional(),
+  disablePasswordLogin: z.boolean().optional()
+});
+
+// Company domain validation schemas
+export const addCompanyDomainSchema = z.object({
+  domain: domainName,
+  joinPolicy: z.enum(["auto", "approval"]).default("approval")
+});
+
+export const updateCompanyDomainSchema = z.object({
+  joinPolicy: z.enum(["auto", "approval"])
+});
+
+export const unlinkGoogleSchema = z.object({
+  password: z.string().min(1, "Password is required")
+});
+
+// API token validation schemas
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1, "Token name is required").max(100),
+  scopes: z.array(z.enum(API_SCOPES as [string, ...string[]])).min(1, "At least one scope is required"),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
+
+export const createServiceAccountSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  customRoleId: z.string().min(1).optional()
+});
+
+// Webhook validation schemas
+const webhookUrl = z.string().url("Invalid URL").max(2048).refine(
+  (url) => /^https:\/\//i.test(url) || (process.env.NODE_ENV !== "production" && /^http:\/\//i.test(url)),
+  "Webhook URLs must use https"
+);
+const webhookEvents = z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Subscribe to at least one event");
+
+export const createWebhookSchema = z.object({
+  url: webhookUrl,
+  description: z.string().max(500).optional(),
+  events: webhookEvents,
+  active: z.boolean().optional()
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrl.optional(),
+  description: z.string().max(500).optional(),
+  events: webhookEvents.optional(),
+  active: z.boolean().optional()
+});
+
+// Custom role validation schemas
+const permissionList = z.array(z.enum(PERMISSIONS)).max(PERMISSIONS.length);
+
+export const createRoleSchema = z.object({
+  name: z.string().min(1, "Role name is required").max(100),
+  description: z.string().max(500).optional(),
+  permissions: permissionList
+});
+
+export const updateRoleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  permissions: permissionList.optional()
+});
+
+export const assignRoleSchema = z.object({
+  customRoleId: z.string().min(1).nullable()
+});
 
 // Task validation schemas
+// Statuses are keys of the project's workflow; controllers check them against it
+const taskStatus = z.string().regex(STATUS_KEY_PATTERN, "Invalid status");
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).max(365).default(1),
+  byWeekday: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(), // 0 = Sunday
+  byMonthDay: z.number().int().min(1).max(31).optional(),
+  until: z.string().datetime("Invalid date format").optional(),
+  count: z.number().int().min(2).max(1000).optional()
+})
+  .refine((data) => !data.byWeekday || data.frequency === "weekly", { message: "byWeekday only applies to weekly rules", path: ["byWeekday"] })
+  .refine((data) => !data.byMonthDay || data.frequency === "monthly", { message: "byMonthDay only applies to monthly rules", path: ["byMonthDay"] })
+  .refine((data) => !(data.until && data.count), { message: "Use either until or count, not both", path: ["count"] });
+
+const assigneeIdList = z.array(z.string().min(1)).min(1, "At least one assignee is required").max(20, "Maximum 20 assignees allowed");
+const watcherIdList = z.array(z.string().min(1)).max(50, "Maximum 50 watchers allowed");
+
 export const createTaskSchema = z.object({
   title: z.string().min(1, "Title is required").max(200, "Title must be less than 200 characters"),
   description: z.string().min(1, "Description is required").max(1000, "Description must be less than 1000 characters"),
-  assigneeId: z.string().min(1, "Assignee ID is required"),
+  assigneeIds: assigneeIdList.optional(),
+  assigneeId: z.string().min(1).optional(), // legacy single assignee
+  watcherIds: watcherIdList.optional(),
   dueDate: z.string().datetime("Invalid date format"),
   priority: z.enum(["high", "medium", "low"]).default("medium"),
-  status: z.enum(["todo", "in_progress", "done"]).default("todo").optional(),
+  status: taskStatus.optional(),
   projectId: z.string().optional(),
-  tags: z.array(z.string().max(50)).max(10, "Maximum 10 tags allowed").optional()
+  parentTaskId: z.string().optional(),
+  tags: z.array(z.string().max(50)).max(10, "Maximum 10 tags allowed").optional(),
+  estimateMinutes: z.number().int().min(0).max(100000).optional(),
+  recurrence: recurrenceRuleSchema.optional()
+}).refine((data) => data.assigneeIds || data.assigneeId, {
+  message: "At least one assignee is required",
+  path: ["assigneeIds"]
 });
 
 export const updateTaskSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   description: z.string().min(1).max(1000).optional(),
-  assigneeId: z.string().min(1).optional(),
+  assigneeIds: assigneeIdList.optional(),
+  assigneeId: z.string().min(1).optional(), // legacy single assignee
+  watcherIds: watcherIdList.optional(),
   dueDate: z.string().datetime().optional(),
   priority: z.enum(["high", "medium", "low"]).optional(),
-  status: z.enum(["todo", "in_progress", "done"]).optional(),
+  status: taskStatus.optional(),
   projectId: z.string().optional(),
-  tags: z.array(z.string().max(50)).max(10).optional()
+  parentTaskId: z.string().nullable().optional(),
+  tags: z.array(z.string().max(50)).max(10).optional(),
+  estimateMinutes: z.number().int().min(0).max(100000).nullable().optional(), // null clears the estimate
+  force: z.boolean().optional()
 });
 
 export const updateTaskStatusSchema = z.object({
-  status: z.enum(["todo", "in_progress", "done"])
+  status: taskStatus,
+  force: z.boolean().optional() // move on even though blockers are still open
+});
+
+export const moveTaskSchema = z.object({
+  status: taskStatus.optional(),
+  prevTaskId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid task ID").optional(),
+  nextTaskId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid task ID").optional(),
+  force: z.boolean().optional()
+}).refine((data) => !data.prevTaskId || data.prevTaskId !== data.nextTaskId, "prevTaskId and nextTaskId must differ");
+
+export const addTaskDependencySchema = z.object({
+  blockerId: z.string().min(1, "Blocking task ID is required")
+});
+
+export const checklistItemSchema = z.object({
+  text: z.string().trim().min(1, "Checklist item text is required").max(500, "Checklist item must be less than 500 characters")
+});
+
+export const updateChecklistItemSchema = z.object({
+  text: z.string().trim().min(1).max(500).optional(),
+  done: z.boolean().optional()
+}).refine((data) => data.text !== undefined || data.done !== undefined, "Nothing to update");
+
+export const reorderSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1, "At least one ID is required").max(200)
+});
+
+// Manual time entries give either a duration or an end time
+export const timeEntrySchema = z.object({
+  startedAt: z.string().datetime("Invalid date format"),
+  endedAt: z.string().datetime("Invalid date format").optional(),
+  minutes: z.number().int().min(1).max(24 * 60).optional(),
+  note: z.string().trim().max(500).optional()
+}).refine((data) => !!data.endedAt !== (data.minutes !== undefined), {
+  message: "Provide either minutes or endedAt",
+  path: ["minutes"]
+});
+
+export const updateTimeEntrySchema = z.object({
+  startedAt: z.string().datetime("Invalid date format").optional(),
+  endedAt: z.string().datetime("Invalid date format").optional(),
+  minutes: z.number().int().min(1).max(24 * 60).optional(),
+  note: z.string().trim().max(500).optional()
+}).refine((data) => !(data.endedAt && data.minutes !== undefined), {
+  message: "Provide either minutes or endedAt",
+  path: ["minutes"]
+});
+
+export const startTimerSchema = z.object({
+  note: z.string().trim().max(500).optional()
+});
+
+export const taskCommentSchema = z.object({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(5000, "Comment cannot exceed 5000 characters")
 });
 
 // Project validation schemas
+const workflowDefinitionSchema = z.object({
+  statuses: z.array(z.object({
+    key: taskStatus,
+    name: z.string().trim().min(1, "Status name is required").max(50),
+    category: z.enum(STATUS_CATEGORIES),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #1a2b3c").optional()
+  })).min(2, "A workflow needs at least two statuses").max(20, "Maximum 20 statuses allowed"),
+  transitions: z.array(z.object({ from: taskStatus, to: taskStatus })).max(400).default([])
+});
+
 export const createProjectSchema = z.object({
   name: z.string().min(1, "Project name is required").max(200, "Project name must be less than 200 characters"),
   description: z.string().max(1000, "Description must be less than 1000 characters").optional(),
   dueDate: z.string().datetime("Invalid date format"),
-  memberIds: z.array(z.string()).max(50, "Maximum 50 members allowed").optional()
+  memberIds: z.array(z.string()).max(50, "Maximum 50 members allowed").optional(),
+  workflow: workflowDefinitionSchema.optional()
+});
+
+export const updateProjectWorkflowSchema = workflowDefinitionSchema.extend({
+  // Where tasks in a removed status should go: { oldKey: newKey }
+  statusMap: z.record(z.string(), taskStatus).optional()
 });
 
 export const updateProjectSchema = z.object({
@@ -44,12 +300,18 @@ export const updateProjectSchema = z.object({
 });
 
 export const addProjectMembersSchema = z.object({
-  memberIds: z.array(z.string().min(1)).min(1, "At least one member ID is required").max(50, "Maximum 50 members can be added at once")
+  memberIds: z.array(z.string().min(1)).min(1, "At least one member ID is required").max(50, "Maximum 50 members can be added at once"),
+  role: z.enum(PROJECT_ROLES).optional()
+});
+
+export const updateProjectMemberRoleSchema = z.object({
+  role: z.enum(PROJECT_ROLES)
 });
 
 // Query parameter validation schemas
 export const taskQuerySchema = z.object({
-  status: z.enum(["todo", "in_progress", "done"]).optional(),
+  status: taskStatus.optional(),
+  statusCategory: z.enum(STATUS_CATEGORIES).optional(),
   priority: z.enum(["high", "medium", "low"]).optional(),
   assignee: z.string().optional(),
   project: z.string().optional(),
@@ -68,13 +330,39 @@ export const projectQuerySchema = z.object({
 });
 
 export const projectTaskQuerySchema = z.object({
-  status: z.enum(["todo", "in_progress", "done"]).optional(),
+  status: taskStatus.optional(),
+  statusCategory: z.enum(STATUS_CATEGORIES).optional(),
+  assignee: z.string().optional(),
+  priority: z.enum(["high", "medium", "low"]).optional(),
+  include: z.enum(["dependencies"]).optional()
+});
+
+export const boardQuerySchema = z.object({
   assignee: z.string().optional(),
   priority: z.enum(["high", "medium", "low"]).optional()
 });
 
+// ?page=&limit= for paginated feeds (task comments, task and project activity)
+export const paginationQuerySchema = z.object({
+  page: z.string().transform(val => parseInt(val)).pipe(z.number().int().min(1, "Page must be at least 1")).optional(),
+  limit: z.string().transform(val => Math.min(parseInt(val) || 50, 100)).optional()
+});
+
+export const SEARCH_TYPES = ["task", "project", "user", "message"] as const;
+
+export const globalSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200, "Search query cannot exceed 200 characters"),
+  // Comma-separated subset of SEARCH_TYPES, e.g. ?types=task,project
+  types: z.string()
+    .transform((val) => [...new Set(val.split(",").map((type) => type.trim()).filter(Boolean))])
+    .pipe(z.array(z.enum(SEARCH_TYPES)).min(1, "At least one type is required"))
+    .optional(),
+  limit: z.string().transform(val => Math.min(Math.max(parseInt(val) || 20, 1), 50)).optional()
+});
+
 export const myTasksQuerySchema = z.object({
-  status: z.enum(["todo", "in_progress", "done"]).optional(),
+  status: taskStatus.optional(),
+  statusCategory: z.enum(STATUS_CATEGORIES).optional(),
   priority: z.enum(["high", "medium", "low"]).optional(),
   page: z.string().transform(val => parseInt(val) || 1).optional(),
   limit: z.string().transform(val => Math.min(parseInt(val) || 10, 100)).optional()
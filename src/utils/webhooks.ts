@@ -0,0 +1,360 @@
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { Agent, fetch } from "undici";
+import Webhook, { WebhookEvent } from "../models/Webhook";
+import WebhookDelivery, { IWebhookDelivery } from "../models/WebhookDelivery";
+
+/**
+ * Outgoing webhooks. Events are written to a persistent delivery queue (WebhookDelivery)
+ * and POSTed by an in-process dispatcher with HMAC-SHA256 signatures and exponential backoff.
+ *
+ * Receivers verify `X-RemoteOffice-Signature: t=<unix seconds>,v1=<hex>` where
+ * v1 = HMAC_SHA256(secret, `${t}.${rawBody}`).
+ */
+
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const DISPATCH_INTERVAL_MS = Number(process.env.WEBHOOK_DISPATCH_INTERVAL_MS) || 15 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const LOCK_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const MAX_RESPONSE_BODY = 2000;
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), CGNAT, multicast and reserved ranges;
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 rules
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string, family: number | string): boolean =>
+  BLOCKED_ADDRESSES.check(address, family === 6 || family === "IPv6" ? "ipv6" : "ipv4");
+
+// Local receivers are only reachable when explicitly allowed outside production
+const allowPrivateTargets = () =>
+  process.env.NODE_ENV !== "production" && process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+
+/**
+ * Resolve the webhook host and reject internal addresses, so webhooks cannot be used to
+ * reach services behind the firewall. Checked when a URL is saved and before every delivery.
+ */
+export const assertPublicWebhookUrl = async (url: string): Promise<void> => {
+  if (allowPrivateTargets()) return;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string; family: number }[];
+  if (net.isIP(host)) {
+    addresses = [{ address: host, family: net.isIP(host) }];
+  } else {
+    try {
+      addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new WebhookTargetError(`Could not resolve ${host}`);
+    }
+  }
+
+  if (addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+    throw new WebhookTargetError("Webhook URLs must point to a public address");
+  }
+};
+
+// Deliveries resolve the host through this lookup, so the connection goes to the address that was
+// checked: a host re-resolving to an internal address (DNS rebinding) fails instead of being contacted
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address: any, family?: number) => {
+    if (err || allowPrivateTargets()) return (callback as any)(err, address, family);
+    const resolved: { address: string; family: number }[] = Array.isArray(address) ? address : [{ address, family: family! }];
+    if (resolved.some((entry) => isBlockedAddress(entry.address, entry.family))) {
+      return (callback as any)(new WebhookTargetError("Webhook URLs must point to a public address"));
+    }
+    (callback as any)(null, address, family);
+  });
+};
+
+const deliveryAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString("hex")}`;
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `t=${timestamp},v1=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// 30s, 1m, 2m, 4m ... capped at 6h, with up to 10% jitter so retries don't stampede
+export const nextBackoffMs = (attempts: number): number => {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+  return delay + Math.floor(Math.random() * delay * 0.1);
+};
+
+/**
+ * Queue an event for every active webhook of the company subscribed to it (best-effort)
+ */
+export const emitWebhookEvent = async (companyId: any, event: WebhookEvent, data: Record<string, any>): Promise<void> => {
+  try {
+    if (!companyId) return;
+    const webhooks = await Webhook.find({ company: companyId, active: true, events: event }).select("_id").lean();
+    if (webhooks.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    const payload = {
+      id: eventId,
+      event,
+      createdAt: new Date().toISOString(),
+      company: String(companyId),
+      data,
+    };
+
+    await WebhookDelivery.insertMany(webhooks.map((webhook) => ({
+      webhook: webhook._id,
+      company: companyId,
+      event,
+      eventId,
+      payload,
+      nextAttemptAt: new Date(),
+    })));
+
+    // Deliver right away instead of waiting for the next tick
+    setImmediate(() => {
+      processDueDeliveries().catch((error) => console.error("Webhook dispatch error:", error));
+    });
+  } catch (error) {
+    // webhooks must never fail the request that triggered them
+    console.error("Error queueing webhook event:", error);
+  }
+};
+
+/**
+ * Queue a fresh attempt of a past delivery (same event id and payload)
+ */
+export const redeliver = async (delivery: IWebhookDelivery) => {
+  const copy = await WebhookDelivery.create({
+    webhook: delivery.webhook,
+    company: delivery.company,
+    event: delivery.event,
+    eventId: delivery.eventId,
+    payload: delivery.payload,
+    nextAttemptAt: new Date(),
+    redeliveryOf: delivery._id,
+  });
+  setImmediate(() => {
+    processDueDeliveries().catch((error) => console.error("Webhook dispatch error:", error));
+  });
+  return copy;
+};
+
+const attemptDelivery = async (delivery: IWebhookDelivery): Promise<void> => {
+  const webhook = await Webhook.findById(delivery.webhook).select("+secret");
+  const now = new Date();
+
+  if (!webhook || !webhook.active) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      { $set: { status: "failed", error: "Webhook was disabled or deleted" }, $unset: { nextAttemptAt: 1, lockedUntil: 1 } }
+    );
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const attempts = delivery.attempts + 1;
+  const started = Date.now();
+
+  let responseStatus: number | undefined;
+  let responseBody: string | undefined;
+  let error: string | undefined;
+
+  try {
+    // DNS may have changed since the URL was saved; internal hosts are never contacted
+    // (IP literals are checked here, host names again when the connection resolves them)
+    await assertPublicWebhookUrl(webhook.url);
+
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "RemoteOffice-Webhooks/1.0",
+        "X-RemoteOffice-Event": delivery.event,
+        "X-RemoteOffice-Delivery": String(delivery._id),
+        "X-RemoteOffice-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      dispatcher: deliveryAgent,
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => "")).slice(0, MAX_RESPONSE_BODY);
+  } catch (err: any) {
+    const targetError = [err, err?.cause].find((cause) => cause instanceof WebhookTargetError);
+    error = targetError ? targetError.message
+      : err?.name === "TimeoutError" ? "Request timed out" : err?.message || "Request failed";
+  }
+
+  const succeeded = responseStatus !== undefined && responseStatus >= 200 && responseStatus < 300;
+  const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  const status = succeeded ? "succeeded" : exhausted ? "failed" : "pending";
+
+  await WebhookDelivery.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status,
+        attempts,
+        lastAttemptAt: now,
+        durationMs: Date.now() - started,
+        responseStatus,
+        responseBody,
+        error: error ?? (succeeded ? undefined : `Endpoint responded with ${responseStatus}`),
+        ...(status === "pending" ? { nextAttemptAt: new Date(Date.now() + nextBackoffMs(attempts)) } : {}),
+      },
+      $unset: { lockedUntil: 1, ...(status === "pending" ? {} : { nextAttemptAt: 1 }) },
+    }
+  );
+
+  if (status !== "pending") {
+    await Webhook.updateOne({ _id: webhook._id }, { $set: { lastDeliveryAt: now, lastDeliveryStatus: status } });
+  }
+};
+
+let dispatching = false;
+
+/**
+ * Deliver every due delivery. Each one is claimed atomically, so several server
+ * instances can run the dispatcher side by side.
+ */
+export const processDueDeliveries = async (): Promise<void> => {
+  if (dispatching) return;
+  dispatching = true;
+  try {
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      const now = new Date();
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        {
+          status: "pending",
+          nextAttemptAt: { $lte: now },
+          $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }],
+        },
+        { $set: { lockedUntil: new Date(now.getTime() + LOCK_MS) } },
+        { new: true, sort: { nextAttemptAt: 1 } }
+      );
+      if (!delivery) break;
+      await attemptDelivery(delivery);
+    }
+  } finally {
+    dispatching = false;
+  }
+};
+
+let dispatcherTimer: NodeJS.Timeout | null = null;
+
+export const startWebhookDispatcher = (): void => {
+  if (dispatcherTimer) return;
+  dispatcherTimer = setInterval(() => {
+    processDueDeliveries().catch((error) => console.error("Webhook dispatch error:", error));
+  }, DISPATCH_INTERVAL_MS);
+  dispatcherTimer.unref();
+};
+
+export const stopWebhookDispatcher = (): void => {
+  if (dispatcherTimer) clearInterval(dispatcherTimer);
+  dispatcherTimer = null;
+};
+
+export const serializeWebhook = (webhook: any) => ({
+  id: String(webhook._id),
+  url: webhook.url,
+  description: webhook.description ?? null,
+  events: webhook.events,
+  active: webhook.active,
+  lastDeliveryAt: webhook.lastDeliveryAt ?? null,
+  lastDeliveryStatus: webhook.lastDeliveryStatus ?? null,
+  createdAt: webhook.createdAt,
+  updatedAt: webhook.updatedAt,
+});
+
+export const serializeDelivery = (delivery: any, includePayload = false) => ({
+  id: String(delivery._id),
+  webhook: String(delivery.webhook),
+  event: delivery.event,
+  eventId: delivery.eventId,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.nextAttemptAt ?? null,
+  lastAttemptAt: delivery.lastAttemptAt ?? null,
+  responseStatus: delivery.responseStatus ?? null,
+  error: delivery.error ?? null,
+  durationMs: delivery.durationMs ?? null,
+  redeliveryOf: delivery.redeliveryOf ? String(delivery.redeliveryOf) : null,
+  createdAt: delivery.createdAt,
+  ...(includePayload ? { payload: delivery.payload, responseBody: delivery.responseBody ?? null } : {}),
+});
+
+const refId = (value: any): string | null => (value ? String(value._id ?? value) : null);
+
+/**
+ * Task fields included in task.* event payloads (works on populated documents too)
+ */
+export const taskEventData = (task: any) => ({
+  id: String(task._id),
+  title: task.title,
+  status: task.status,
+  statusCategory: task.statusCategory,
+  priority: task.priority,
+  dueDate: task.dueDate ?? null,
+  // single-assignee field kept for receivers written before tasks had several assignees
+  assignee: task.assignees?.[0] ? { id: refId(task.assignees[0].id), name: task.assignees[0].name } : null,
+  assignees: (task.assignees ?? []).map((assignee: any) => ({ id: refId(assignee.id), name: assignee.name })),
+  project: task.project?.id ? { id: refId(task.project.id), name: task.project.name } : null,
+  tags: task.tags ?? [],
+  createdBy: refId(task.createdBy),
+  createdAt: task.createdAt ?? null,
+  updatedAt: task.updatedAt ?? null,
+});
+
+/**
+ * Chat message fields for message.created; direct messages are never sent out
+ */
+export const emitMessageCreated = async (channel: any, message: any, sender: { id: any; name: string; email?: string }) => {
+  if (!channel || channel.type === "direct") return;
+  await emitWebhookEvent(channel.companyId, "message.created", {
+    message: {
+      id: String(message._id),
+      content: message.content,
+      type: message.type,
+      replyTo: message.replyTo ? String(message.replyTo) : null,
+      createdAt: message.createdAt ?? null,
+    },
+    channel: {
+      id: String(channel._id),
+      name: channel.name,
+      type: channel.type,
+      project: channel.projectId ? String(channel.projectId) : null,
+    },
+    sender: { id: String(sender.id), name: sender.name, email: sender.email ?? null },
+  });
+};
+
+/**
+ * member.added for a user joining the company itself (invitation, domain, SSO or admin-created)
+ */
+export const emitCompanyMemberAdded = (companyId: any, user: any, via: string) =>
+  emitWebhookEvent(companyId, "member.added", {
+    scope: "company",
+    user: { id: String(user._id), name: user.name, email: user.email, role: user.role },
+    via,
+  });
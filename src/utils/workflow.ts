@@ -0,0 +1,90 @@
+import Task from "../models/Task";
+import Project, { IWorkflow, IWorkflowStatus, STATUS_CATEGORIES, StatusCategory } from "../models/Project";
+
+/**
+ * Per-project task workflows. Projects without one (and tasks outside any project)
+ * use the built-in todo -> in_progress -> done workflow with free transitions.
+ */
+export const DEFAULT_WORKFLOW: IWorkflow = {
+  statuses: [
+    { key: "todo", name: "To do", category: "todo" },
+    { key: "in_progress", name: "In progress", category: "in_progress" },
+    { key: "done", name: "Done", category: "done" }
+  ],
+  transitions: []
+};
+
+export const STATUS_KEY_PATTERN = /^[a-z0-9_]{1,40}$/;
+
+export const getWorkflow = (project?: { workflow?: IWorkflow | null } | null): IWorkflow =>
+  project?.workflow?.statuses?.length ? project.workflow : DEFAULT_WORKFLOW;
+
+/**
+ * Workflow of the project a task belongs to
+ */
+export const getTaskWorkflow = async (task: { project?: { id?: any } }): Promise<IWorkflow> => {
+  const projectId = task.project?.id?._id ?? task.project?.id;
+  if (!projectId) return DEFAULT_WORKFLOW;
+  const project = await Project.findById(projectId).select("workflow").lean();
+  return getWorkflow(project);
+};
+
+export const findStatus = (workflow: IWorkflow, key: string): IWorkflowStatus | undefined =>
+  workflow.statuses.find((s) => s.key === key);
+
+export const initialStatus = (workflow: IWorkflow): IWorkflowStatus => workflow.statuses[0];
+
+export const firstStatusIn = (workflow: IWorkflow, category: StatusCategory): IWorkflowStatus | undefined =>
+  workflow.statuses.find((s) => s.category === category);
+
+// Unknown keys (legacy data) fall back to a category of the same name, else "todo"
+export const categoryOf = (workflow: IWorkflow, key: string): StatusCategory =>
+  findStatus(workflow, key)?.category ??
+  ((STATUS_CATEGORIES as readonly string[]).includes(key) ? (key as StatusCategory) : "todo");
+
+export const canTransition = (workflow: IWorkflow, from: string, to: string): boolean =>
+  from === to ||
+  !workflow.transitions?.length ||
+  // Tasks in a status the workflow no longer knows may move anywhere
+  !findStatus(workflow, from) ||
+  workflow.transitions.some((t) => t.from === from && t.to === to);
+
+export const allowedNextStatuses = (workflow: IWorkflow, from: string): string[] =>
+  workflow.statuses.map((s) => s.key).filter((key) => key !== from && canTransition(workflow, from, key));
+
+/**
+ * Structural checks zod cannot express; returns an error message or null
+ */
+export const validateWorkflow = (workflow: IWorkflow): string | null => {
+  const keys = workflow.statuses.map((s) => s.key);
+  if (new Set(keys).size !== keys.length) return "Status keys must be unique";
+  if (!workflow.statuses.some((s) => s.category !== "done")) return "At least one status must be open (todo or in_progress)";
+  if (!workflow.statuses.some((s) => s.category === "done")) return "At least one status must be in the done category";
+  const unknown = (workflow.transitions ?? []).find((t) => !keys.includes(t.from) || !keys.includes(t.to));
+  if (unknown) return `Transition ${unknown.from} -> ${unknown.to} references an unknown status`;
+  return null;
+};
+
+/**
+ * Status to use in another workflow: the same key if it exists there, else the
+ * first status of the same category
+ */
+export const mapStatusInto = (workflow: IWorkflow, key: string, category: StatusCategory): string =>
+  findStatus(workflow, key)?.key ?? firstStatusIn(workflow, category)?.key ?? initialStatus(workflow).key;
+
+/**
+ * Fill statusCategory on tasks created before workflows existed
+ */
+export const backfillStatusCategories = async (): Promise<void> => {
+  try {
+    for (const category of STATUS_CATEGORIES) {
+      await Task.updateMany(
+        { statusCategory: { $exists: false }, status: category },
+        { $set: { statusCategory: category } }
+      );
+    }
+    await Task.updateMany({ statusCategory: { $exists: false } }, { $set: { statusCategory: "todo" } });
+  } catch (error) {
+    console.error("Error backfilling task status categories:", error);
+  }
+};